@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through vite-node, which resolves the `@/` alias
+// from vitest.config.ts. Needs a full `npm ci` of this package: vite-node
+// and the config's plugins are devDependencies.
+import { spawnSync } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const viteNode = createRequire(import.meta.url).resolve(
+  'vite-node/vite-node.mjs'
+);
+
+const { status, error } = spawnSync(
+  process.execPath,
+  [
+    viteNode,
+    '--config',
+    `${root}vitest.config.ts`,
+    `${root}src/cli/geminot.ts`,
+    '--',
+    ...process.argv.slice(2),
+  ],
+  {
+    cwd: root,
+    // Paths on the command line resolve against the caller's directory
+    env: { ...process.env, INIT_CWD: process.cwd() },
+    stdio: 'inherit',
+  }
+);
+if (error) {
+  console.error(error.message);
+  process.exit(2);
+}
+process.exit(status ?? 2);
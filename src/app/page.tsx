@@ -1,34 +1,88 @@
 'use client';
 
-import { useCallback, useEffect } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { Download, Upload, Sparkles, RefreshCw } from 'lucide-react';
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+} from 'react';
+import { useDropzone, type FileRejection } from 'react-dropzone';
+import { saveAs } from 'file-saver';
+import {
+  Download,
+  FileArchive,
+  FileJson,
+  Replace,
+  Upload,
+  Sparkles,
+  RefreshCw,
+  Trash2,
+} from 'lucide-react';
 import Image from 'next/image';
 import { useModelLoader } from '@/hooks/useModelLoader';
 import { useAppStore } from '@/stores/simple-app-store';
+import { useFileStore } from '@/stores/file-store';
 import { getInpaintingService } from '@/lib/services/inpainting-service';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { ResultsGrid } from '@/components/results/ResultsGrid';
+import { ReplacementPicker } from '@/components/results/ReplacementPicker';
+import { ComparisonViewer } from '@/components/results/ComparisonViewer';
+import { DisclosureSettings } from '@/components/results/DisclosureSettings';
+import { MetadataStripSettings } from '@/components/results/MetadataStripSettings';
 import { Toaster } from '@/components/ui/sonner';
 import { toast } from 'sonner';
 import { logger } from '@/lib/logger';
+import {
+  parseCalibrationProfiles,
+  serializeCalibrationProfiles,
+} from '@/lib/detection/calibration';
+import { buildReviewDataset } from '@/lib/review-dataset';
+import { downloadBlob } from '@/lib/file-utils';
+import { isReplaceable } from '@/lib/replacements';
+import { buildExportZip, exportSource } from '@/lib/batch-export';
+import { applyDisclosure, c2paExportStatus } from '@/lib/disclosure';
+import {
+  C2PA_EXPORT_STATUS,
+  DETECTION_CONFIG,
+  DETECTION_REGIONS,
+  DETECTION_STRATEGIES,
+  FILE_LIMITS,
+  FILE_STATUS,
+  INPAINTING_CONFIG,
+} from '@/lib/constants';
+import type { DetectionRegion, DetectionStrategy } from '@/lib/schemas';
+
+const CORNER_REGIONS: DetectionRegion[] = [
+  DETECTION_REGIONS.TOP_LEFT,
+  DETECTION_REGIONS.TOP_RIGHT,
+  DETECTION_REGIONS.BOTTOM_LEFT,
+  DETECTION_REGIONS.BOTTOM_RIGHT,
+];
+
+// Shown when a download carries a manifest store bound to other bytes
+const C2PA_INVALIDATED_NOTE =
+  'Its Content Credentials no longer match the edited file and will show as tampered';
+
+const STRATEGY_LABELS: Record<DetectionStrategy, string> = {
+  [DETECTION_STRATEGIES.AUTO]: 'Automatic',
+  [DETECTION_STRATEGIES.TEMPLATE]: 'Template matching',
+  [DETECTION_STRATEGIES.FEATURES]: 'Rotated / skewed (keypoints)',
+};
 
 export default function Home() {
   console.log('🏠 Home: Component rendering');
   const {
     isLoading: modelLoading,
     progress: modelProgress,
-    error: modelError,
     isReady: modelReady,
+    load: loadModel,
   } = useModelLoader();
-  console.log('🏠 Home: Model state:', {
-    modelLoading,
-    modelProgress,
-    modelError,
-    modelReady,
-  });
   const {
     appState,
+    originalImage,
     originalImageUrl,
     cleanedImageUrl,
     cleanedImage,
@@ -39,6 +93,47 @@ export default function Home() {
     reset,
   } = useAppStore();
   console.log('🏠 Home: App state:', appState);
+  const {
+    files,
+    order,
+    isScanning,
+    regions,
+    strategy,
+    calibration,
+    reviewer,
+    disclosure,
+    stripMetadata,
+    addFiles,
+    removeFile,
+    clearFiles,
+    setRegions,
+    setStrategy,
+    setCalibration,
+    setDisclosure,
+    setStripMetadata,
+    reviewFile,
+    clearReview,
+    unpairedReplacements,
+    addReplacements,
+    setReplacement,
+    removeReplacement,
+    dismissUnpaired,
+  } = useFileStore();
+  const calibrationInputRef = useRef<HTMLInputElement>(null);
+  const searchAllCorners = regions.length === CORNER_REGIONS.length;
+  const batchFiles = useMemo(
+    () => order.map((id) => files[id]).filter(Boolean),
+    [files, order]
+  );
+  const reviewedCount = batchFiles.filter((file) => file.review).length;
+  const replaceableFiles = batchFiles.filter(isReplaceable);
+  const exportableCount = batchFiles.filter(exportSource).length;
+  const [isExporting, setIsExporting] = useState(false);
+  const scannedCount = batchFiles.filter(
+    (file) =>
+      file.status !== FILE_STATUS.PENDING &&
+      file.status !== FILE_STATUS.SCANNING
+  ).length;
 
   // Update model progress in store
   useEffect(() => {
@@ -47,39 +142,80 @@ export default function Home() {
     }
   }, [modelLoading, modelProgress, setModelProgress]);
 
-  // Update app state when model is ready
-  useEffect(() => {
-    if (modelReady && appState === 'loading') {
-      setAppState('ready');
-    }
-  }, [modelReady, appState, setAppState]);
-
-  // Handle model error
-  useEffect(() => {
-    if (modelError) {
-      toast.error('Failed to load AI model', {
-        description: modelError,
-      });
-    }
-  }, [modelError]);
-
   // Handle file drop
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
       if (acceptedFiles.length === 0) return;
 
-      const file = acceptedFiles[0];
+      logger.info('Adding files to batch', { count: acceptedFiles.length });
+
+      const rejected = await addFiles(acceptedFiles);
+      if (rejected.length > 0) {
+        toast.error(`Skipped ${rejected.length} file(s)`, {
+          description: rejected
+            .slice(0, 3)
+            .map(({ name, reason }) => `${name}: ${reason}`)
+            .join('\n'),
+        });
+      }
+    },
+    [addFiles]
+  );
+
+  // Handle files rejected by the drop zone (type/size)
+  const onDropRejected = useCallback((fileRejections: FileRejection[]) => {
+    toast.error(`Skipped ${fileRejections.length} file(s)`, {
+      description: fileRejections
+        .slice(0, 3)
+        .map(({ file, errors }) => `${file.name}: ${errors[0]?.message}`)
+        .join('\n'),
+    });
+  }, []);
+
+  // Pair dropped replacements with flagged files by name
+  const onDropReplacements = useCallback(
+    async (acceptedFiles: File[]) => {
+      if (acceptedFiles.length === 0) return;
+
+      const rejected = await addReplacements(acceptedFiles);
+      if (rejected.length > 0) {
+        toast.error(`Skipped ${rejected.length} replacement(s)`, {
+          description: rejected
+            .slice(0, 3)
+            .map(({ name, reason }) => `${name}: ${reason}`)
+            .join('\n'),
+        });
+      }
+    },
+    [addReplacements]
+  );
+
+  // Remove the watermark from a flagged batch file
+  const handleRemoveWatermark = useCallback(
+    async (fileId: string) => {
+      const file = files[fileId];
+      if (!file) return;
 
       try {
+        // The inpainting model is only downloaded once it is needed
+        if (!modelReady) {
+          setAppState('loading');
+          await loadModel();
+        }
+
         // Convert File to Blob
-        const blob = new Blob([await file.arrayBuffer()], { type: file.type });
+        const blob = new Blob([await file.originalFile.arrayBuffer()], {
+          type: file.originalFile.type,
+        });
         setOriginalImage(blob);
 
         logger.info('Processing image', { fileName: file.name });
 
-        // Inpaint the image
+        // Inpaint where the badge was found, in whichever region
         const inpaintingService = getInpaintingService();
-        const cleanedBlob = await inpaintingService.inpaintImage(blob);
+        const cleanedBlob = await inpaintingService.inpaintBadge(file, {
+          stripMetadata,
+        });
 
         setCleanedImage(cleanedBlob);
 
@@ -92,25 +228,158 @@ export default function Home() {
         reset();
       }
     },
-    [setOriginalImage, setCleanedImage, reset]
+    [
+      files,
+      stripMetadata,
+      modelReady,
+      loadModel,
+      setAppState,
+      setOriginalImage,
+      setCleanedImage,
+      reset,
+    ]
   );
 
+  // Import calibration profiles shared as JSON
+  const handleImportCalibration = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      try {
+        const profiles = parseCalibrationProfiles(await file.text());
+        setCalibration(profiles);
+        toast.success(`Imported ${profiles.length} calibration profile(s)`);
+      } catch (error) {
+        logger.error('Calibration import failed', { error });
+        toast.error('Failed to import calibration', {
+          description: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    },
+    [setCalibration]
+  );
+
+  const handleExportCalibration = useCallback(() => {
+    const blob = new Blob([serializeCalibrationProfiles(calibration)], {
+      type: 'application/json',
+    });
+    downloadBlob(blob, 'calibration.json');
+  }, [calibration]);
+
+  // Download reviewer verdicts as a labeled dataset
+  const handleExportReviews = useCallback(() => {
+    const dataset = buildReviewDataset(batchFiles);
+    const blob = new Blob([JSON.stringify(dataset, null, 2)], {
+      type: 'application/json',
+    });
+    downloadBlob(blob, `reviews-${Date.now()}.json`);
+
+    toast.success(`Exported ${dataset.samples.length} review(s)`);
+  }, [batchFiles]);
+
+  // Download clean originals and resolved replacements as one ZIP
+  const handleDownloadAll = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const { zip, manifest } = await buildExportZip(batchFiles, {
+        disclosure,
+        stripMetadata,
+      });
+      saveAs(zip, `geminot-export-${Date.now()}.zip`);
+
+      const exported = manifest.files.filter((entry) => entry.path).length;
+      logger.info('Batch exported', {
+        exported,
+        skipped: manifest.files.length - exported,
+      });
+      const disclosed = manifest.files.filter(
+        (entry) => entry.disclosed
+      ).length;
+      const invalidated = manifest.files.filter(
+        (entry) => entry.c2pa === C2PA_EXPORT_STATUS.INVALIDATED
+      ).length;
+      toast.success(`Exported ${exported} file(s)`, {
+        description:
+          [
+            exported < manifest.files.length
+              ? `${manifest.files.length - exported} flagged file(s) were left out`
+              : '',
+            disclosed > 0 ? `${disclosed} labeled as AI-generated` : '',
+            invalidated > 0
+              ? `${invalidated} carry Content Credentials that no longer match the edited file`
+              : '',
+          ]
+            .filter(Boolean)
+            .join('. ') || undefined,
+      });
+    } catch (error) {
+      logger.error('Batch export failed', { error });
+      toast.error('Failed to export batch', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [batchFiles, disclosure, stripMetadata]);
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
+    onDropRejected,
     accept: {
       'image/jpeg': ['.jpg', '.jpeg'],
       'image/png': ['.png'],
       'image/webp': ['.webp'],
     },
     maxSize: 20 * 1024 * 1024,
-    multiple: false,
-    disabled: !modelReady || appState === 'processing',
+    multiple: true,
+    disabled: appState !== 'ready',
+  });
+
+  const {
+    getRootProps: getReplacementRootProps,
+    getInputProps: getReplacementInputProps,
+    isDragActive: isReplacementDragActive,
+  } = useDropzone({
+    onDrop: onDropReplacements,
+    onDropRejected,
+    accept: {
+      'image/jpeg': ['.jpg', '.jpeg'],
+      'image/png': ['.png'],
+      'image/webp': ['.webp'],
+    },
+    maxSize: FILE_LIMITS.MAX_FILE_SIZE,
+    multiple: true,
   });
 
   // Download handler
-  const handleDownload = useCallback(() => {
+  const handleDownload = useCallback(async () => {
     if (!cleanedImage || !cleanedImageUrl) return;
 
+    // The inpainted image started as AI output, so the scope does not apply
+    if (disclosure.enabled) {
+      try {
+        const { blob, c2pa } = await applyDisclosure(cleanedImage, disclosure, {
+          source: originalImage ?? cleanedImage,
+          strip: stripMetadata,
+        });
+        downloadBlob(blob, `cleaned-${Date.now()}.png`);
+        toast.success('Image downloaded with AI disclosure', {
+          description:
+            c2pa === C2PA_EXPORT_STATUS.INVALIDATED
+              ? C2PA_INVALIDATED_NOTE
+              : undefined,
+        });
+      } catch (error) {
+        logger.error('Disclosure labeling failed', { error });
+        toast.error('Failed to label image', {
+          description: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      return;
+    }
+
     const link = document.createElement('a');
     link.href = cleanedImageUrl;
     link.download = `cleaned-${Date.now()}.png`;
@@ -118,8 +387,18 @@ export default function Home() {
     link.click();
     document.body.removeChild(link);
 
-    toast.success('Image downloaded!');
-  }, [cleanedImage, cleanedImageUrl]);
+    // Inpainting re-encoded the pixels any carried-over manifest was bound to
+    const c2pa = c2paExportStatus(
+      new Uint8Array(await cleanedImage.arrayBuffer()),
+      true
+    );
+    toast.success('Image downloaded!', {
+      description:
+        c2pa === C2PA_EXPORT_STATUS.INVALIDATED
+          ? C2PA_INVALIDATED_NOTE
+          : undefined,
+    });
+  }, [cleanedImage, cleanedImageUrl, originalImage, disclosure, stripMetadata]);
 
   // Try another handler
   const handleReset = useCallback(() => {
@@ -152,43 +431,202 @@ export default function Home() {
               <h2 className="text-2xl font-semibold text-white mb-4">
                 Preparing AI Model...
               </h2>
-              <p className="text-slate-300 mb-6">First time setup (~35MB)</p>
+              <p className="text-slate-300 mb-6">
+                First time setup (~{INPAINTING_CONFIG.MODEL_SIZE_MB}MB)
+              </p>
               <Progress value={modelProgress} className="h-3 mb-2" />
               <p className="text-sm text-slate-400">{modelProgress}%</p>
             </div>
           </div>
         )}
 
-        {/* Ready State - Upload Zone */}
+        {/* Ready State - Upload Zone + Results Grid */}
         {appState === 'ready' && (
-          <div
-            {...getRootProps()}
-            className={`
-              bg-white/10 backdrop-blur-lg rounded-2xl border-2 border-dashed
-              transition-all duration-300 cursor-pointer
-              ${
-                isDragActive
-                  ? 'border-emerald-400 bg-emerald-500/20 scale-105'
-                  : 'border-white/30 hover:border-emerald-400/50 hover:bg-white/15'
-              }
-              p-16
-            `}
-          >
-            <input {...getInputProps()} />
-            <div className="text-center">
-              <div className="inline-flex items-center justify-center w-20 h-20 bg-emerald-500/20 rounded-full mb-6">
-                <Upload
-                  className={`h-10 w-10 text-emerald-400 ${isDragActive ? 'animate-bounce' : ''}`}
+          <div className="space-y-6">
+            <div
+              {...getRootProps()}
+              className={`
+                bg-white/10 backdrop-blur-lg rounded-2xl border-2 border-dashed
+                transition-all duration-300 cursor-pointer
+                ${
+                  isDragActive
+                    ? 'border-emerald-400 bg-emerald-500/20 scale-105'
+                    : 'border-white/30 hover:border-emerald-400/50 hover:bg-white/15'
+                }
+                ${batchFiles.length > 0 ? 'p-8' : 'p-16'}
+              `}
+            >
+              <input {...getInputProps()} />
+              <div className="text-center">
+                <div className="inline-flex items-center justify-center w-20 h-20 bg-emerald-500/20 rounded-full mb-6">
+                  <Upload
+                    className={`h-10 w-10 text-emerald-400 ${isDragActive ? 'animate-bounce' : ''}`}
+                  />
+                </div>
+                <h2 className="text-3xl font-semibold text-white mb-4">
+                  {isDragActive ? 'Drop them here!' : 'Drop images to scan'}
+                </h2>
+                <p className="text-slate-300 mb-6">
+                  or click to select up to {FILE_LIMITS.MAX_FILES_PER_BATCH}{' '}
+                  files
+                </p>
+                <p className="text-sm text-slate-400">
+                  Supports: JPG, PNG, WEBP (Max 20MB)
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 text-sm text-slate-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={searchAllCorners}
+                  onChange={(event) =>
+                    setRegions(
+                      event.target.checked
+                        ? CORNER_REGIONS
+                        : [...DETECTION_CONFIG.DEFAULT_REGIONS]
+                    )
+                  }
+                  className="h-4 w-4 accent-emerald-500"
+                />
+                Search all four corners (not just bottom-right)
+              </label>
+              <label className="flex items-center gap-2">
+                Detection
+                <select
+                  value={strategy}
+                  onChange={(event) =>
+                    setStrategy(event.target.value as DetectionStrategy)
+                  }
+                  className="rounded-md border border-white/20 bg-slate-900 px-2 py-1 text-white"
+                >
+                  {Object.values(DETECTION_STRATEGIES).map((value) => (
+                    <option key={value} value={value}>
+                      {STRATEGY_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex items-center gap-2">
+                <span>
+                  Calibration:{' '}
+                  {calibration.length > 0
+                    ? `${calibration.length} imported profile(s)`
+                    : 'published defaults'}
+                </span>
+                <input
+                  ref={calibrationInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImportCalibration}
+                  className="hidden"
                 />
+                <Button
+                  onClick={() => calibrationInputRef.current?.click()}
+                  size="sm"
+                  variant="outline"
+                  className="border-white/30 bg-transparent text-white hover:bg-white/10"
+                >
+                  <Upload className="h-4 w-4" />
+                  Import
+                </Button>
+                <Button
+                  onClick={handleExportCalibration}
+                  disabled={calibration.length === 0}
+                  size="sm"
+                  variant="outline"
+                  className="border-white/30 bg-transparent text-white hover:bg-white/10"
+                >
+                  <Download className="h-4 w-4" />
+                  Export
+                </Button>
               </div>
-              <h2 className="text-3xl font-semibold text-white mb-4">
-                {isDragActive ? 'Drop it here!' : 'Drop image to clean'}
-              </h2>
-              <p className="text-slate-300 mb-6">or click to select a file</p>
-              <p className="text-sm text-slate-400">
-                Supports: JPG, PNG, WEBP (Max 20MB)
-              </p>
             </div>
+
+            {batchFiles.length > 0 && (
+              <div className="bg-white/10 backdrop-blur-lg rounded-2xl border border-white/20 p-6 space-y-4">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-slate-300" aria-live="polite">
+                    {isScanning
+                      ? `Scanning ${scannedCount} of ${batchFiles.length}...`
+                      : `${batchFiles.length} file(s) scanned`}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={handleDownloadAll}
+                      disabled={
+                        exportableCount === 0 || isScanning || isExporting
+                      }
+                      size="sm"
+                      className="bg-emerald-600 text-white hover:bg-emerald-700"
+                    >
+                      <FileArchive className="h-4 w-4" />
+                      Download all ({exportableCount})
+                    </Button>
+                    <Button
+                      onClick={handleExportReviews}
+                      disabled={reviewedCount === 0}
+                      size="sm"
+                      variant="outline"
+                      className="border-white/30 bg-transparent text-white hover:bg-white/10"
+                    >
+                      <FileJson className="h-4 w-4" />
+                      Export reviews ({reviewedCount})
+                    </Button>
+                    <Button
+                      onClick={clearFiles}
+                      size="sm"
+                      variant="outline"
+                      className="border-white/30 bg-transparent text-white hover:bg-white/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Clear all
+                    </Button>
+                  </div>
+                </div>
+                <DisclosureSettings
+                  value={disclosure}
+                  onChange={setDisclosure}
+                />
+                <MetadataStripSettings
+                  value={stripMetadata}
+                  onChange={setStripMetadata}
+                />
+                {replaceableFiles.length > 0 && (
+                  <div
+                    {...getReplacementRootProps()}
+                    className={`rounded-xl border-2 border-dashed p-4 text-center text-sm transition-colors cursor-pointer ${
+                      isReplacementDragActive
+                        ? 'border-emerald-400 bg-emerald-500/20 text-white'
+                        : 'border-white/20 text-slate-300 hover:border-emerald-400/50'
+                    }`}
+                  >
+                    <input {...getReplacementInputProps()} />
+                    <Replace className="mx-auto mb-2 h-6 w-6 text-emerald-400" />
+                    Drop clean replacements for {replaceableFiles.length}{' '}
+                    flagged file(s). Files are paired by name and rescanned
+                    before download.
+                  </div>
+                )}
+                <ResultsGrid
+                  files={batchFiles}
+                  onRemoveFile={removeFile}
+                  onRemoveWatermark={handleRemoveWatermark}
+                  reviewer={reviewer}
+                  onReviewFile={reviewFile}
+                  onClearReview={clearReview}
+                  onSetReplacement={setReplacement}
+                  onRemoveReplacement={removeReplacement}
+                />
+                <ReplacementPicker
+                  unpaired={unpairedReplacements}
+                  candidates={replaceableFiles}
+                  onPair={setReplacement}
+                  onDismiss={dismissUnpaired}
+                />
+              </div>
+            )}
           </div>
         )}
 
@@ -221,12 +659,20 @@ export default function Home() {
         {appState === 'complete' && cleanedImageUrl && (
           <div className="space-y-6">
             <div className="bg-white/10 backdrop-blur-lg rounded-2xl border border-white/20 p-8">
-              {/* eslint-disable-next-line @next/next/no-img-element */}
-              <img
-                src={cleanedImageUrl}
-                alt="Cleaned"
-                className="w-full h-auto rounded-lg shadow-2xl"
-              />
+              {originalImage && cleanedImage ? (
+                <ComparisonViewer
+                  before={originalImage}
+                  after={cleanedImage}
+                  afterLabel="Cleaned"
+                />
+              ) : (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={cleanedImageUrl}
+                  alt="Cleaned"
+                  className="w-full h-auto rounded-lg shadow-2xl"
+                />
+              )}
             </div>
 
             <div className="flex gap-4 justify-center">
@@ -246,7 +692,7 @@ export default function Home() {
                 className="border-white/30 text-white hover:bg-white/10 px-8 py-6 text-lg"
               >
                 <RefreshCw className="mr-2 h-5 w-5" />
-                Try Another
+                Back to Results
               </Button>
             </div>
           </div>
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { DETECTION_STATUS } from '@/lib/constants';
+import { toJunit, toSarif } from './formats';
+import type { ScanEntry, ScanReport } from './scan';
+
+function entry(overrides: Partial<ScanEntry>): ScanEntry {
+  return {
+    path: 'assets/a.png',
+    sha256: 'a'.repeat(64),
+    status: DETECTION_STATUS.NO_BADGE,
+    confidence: 0,
+    templateId: null,
+    region: null,
+    box: null,
+    baselined: false,
+    durationMs: 250,
+    ...overrides,
+  };
+}
+
+const report: ScanReport = {
+  version: 1,
+  scannedAt: '2026-01-01T00:00:00.000Z',
+  summary: {
+    scanned: 5,
+    clean: 1,
+    possible: 1,
+    detected: 1,
+    baselined: 1,
+    errors: 1,
+  },
+  files: [
+    entry({ path: 'assets/clean.png' }),
+    entry({
+      path: 'assets/hero & banner.png',
+      status: DETECTION_STATUS.BADGE_DETECTED,
+      confidence: 0.91,
+      templateId: 'sparkle',
+      region: 'bottom-right',
+      box: { x: 90, y: 80, width: 10, height: 12 },
+    }),
+    entry({
+      path: 'assets/maybe.png',
+      status: DETECTION_STATUS.POSSIBLE_BADGE,
+      confidence: 0.6,
+    }),
+    entry({
+      path: 'assets/known.png',
+      status: DETECTION_STATUS.BADGE_DETECTED,
+      confidence: 0.95,
+      baselined: true,
+    }),
+    entry({
+      path: 'assets/broken.jpg',
+      sha256: null,
+      status: 'error',
+      error: 'Unsupported image format <x>',
+    }),
+  ],
+};
+
+describe('toSarif', () => {
+  it('reports flagged and unreadable files with their locations', () => {
+    const log = JSON.parse(toSarif(report, 'detected'));
+    const [run] = log.runs;
+    const results = run.results as any[];
+
+    expect(log.version).toBe('2.1.0');
+    expect(results.map((result) => result.level)).toEqual([
+      'error',
+      'warning',
+      'warning',
+      'error',
+    ]);
+
+    const [detected] = results;
+    expect(detected.ruleId).toBe('ai-badge');
+    expect(detected.locations[0].physicalLocation.artifactLocation.uri).toBe(
+      'assets/hero%20&%20banner.png'
+    );
+    expect(detected.locations[0].logicalLocations[0].name).toBe('bottom-right');
+    expect(detected.attachments[0].rectangles[0]).toMatchObject({
+      top: 80,
+      left: 90,
+      bottom: 92,
+      right: 100,
+    });
+    expect(results[2].suppressions[0].kind).toBe('external');
+    expect(results[3].ruleId).toBe('scan-error');
+    expect(run.invocations[0].executionSuccessful).toBe(false);
+  });
+});
+
+describe('toJunit', () => {
+  it('writes one escaped testcase per asset', () => {
+    const xml = toJunit(report, 'possible');
+
+    expect(xml.match(/<testcase /g)).toHaveLength(5);
+    expect(xml).toContain(
+      '<testsuite name="geminot scan" tests="5" failures="2" errors="1"'
+    );
+    expect(xml).toContain('name="assets/hero &amp; banner.png"');
+    expect(xml).toContain('time="0.250"');
+    expect(xml).toContain('message="Unsupported image format &lt;x&gt;"');
+    expect(xml).toMatch(
+      /known\.png"[^>]*>\s*<system-out>[^<]*listed in the baseline/
+    );
+    expect(xml).toMatch(/clean\.png"[^>]*\/>/);
+  });
+});
@@ -0,0 +1,221 @@
+import { DETECTION_STATUS } from '@/lib/constants';
+import {
+  failingEntries,
+  STATUS_LABELS,
+  type FailOn,
+  type ScanEntry,
+  type ScanReport,
+} from './scan';
+
+/**
+ * Machine-readable scan reports for review tooling: SARIF 2.1.0 for code
+ * scanning annotations, JUnit XML for test dashboards
+ */
+
+const TOOL_NAME = 'geminot';
+const SARIF_SCHEMA =
+  'https://docs.oasis-open.org/sarif/sarif/v2.1.0/errata01/os/schemas/sarif-schema-2.1.0.json';
+
+const RULES = {
+  BADGE: 'ai-badge',
+  SCAN_ERROR: 'scan-error',
+} as const;
+
+function isFlagged(entry: ScanEntry): boolean {
+  return (
+    entry.status === DETECTION_STATUS.BADGE_DETECTED ||
+    entry.status === DETECTION_STATUS.POSSIBLE_BADGE
+  );
+}
+
+function describeEntry(entry: ScanEntry): string {
+  if (entry.error) return `Could not scan ${entry.path}: ${entry.error}`;
+
+  const confidence = Math.round(entry.confidence * 100);
+  const label =
+    entry.status === DETECTION_STATUS.BADGE_DETECTED
+      ? 'AI badge detected'
+      : 'Possible AI badge';
+  const where = [
+    entry.templateId && `template ${entry.templateId}`,
+    entry.region && `${entry.region} region`,
+    entry.box &&
+      `at ${entry.box.x},${entry.box.y} (${entry.box.width}×${entry.box.height}px)`,
+  ].filter(Boolean);
+  return `${label} (${confidence}% confidence)${
+    where.length > 0 ? `: ${where.join(', ')}` : ''
+  }`;
+}
+
+/**
+ * SARIF 2.1.0 log with one result per flagged or unreadable file. Results
+ * failing the gate are errors, the rest warnings; baselined files are
+ * reported as suppressed. Image regions have no line numbers, so each
+ * result points at the file and carries its box as a rectangle.
+ */
+export function toSarif(report: ScanReport, failOn: FailOn): string {
+  const failing = new Set(failingEntries(report, failOn));
+
+  const results = report.files
+    .filter((entry) => entry.status === 'error' || isFlagged(entry))
+    .map((entry) => {
+      const artifactLocation = { uri: encodeURI(entry.path) };
+      return {
+        ruleId: entry.status === 'error' ? RULES.SCAN_ERROR : RULES.BADGE,
+        level:
+          entry.status === 'error' || failing.has(entry) ? 'error' : 'warning',
+        message: { text: describeEntry(entry) },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation,
+              region: { startLine: 1 },
+            },
+            ...(entry.region && {
+              logicalLocations: [{ name: entry.region, kind: 'region' }],
+            }),
+          },
+        ],
+        ...(entry.box && {
+          attachments: [
+            {
+              description: { text: 'Badge location' },
+              artifactLocation,
+              rectangles: [
+                {
+                  top: entry.box.y,
+                  left: entry.box.x,
+                  bottom: entry.box.y + entry.box.height,
+                  right: entry.box.x + entry.box.width,
+                  message: { text: STATUS_LABELS[entry.status] },
+                },
+              ],
+            },
+          ],
+        }),
+        ...(entry.baselined && {
+          suppressions: [
+            { kind: 'external', justification: 'Listed in the baseline' },
+          ],
+        }),
+        ...(entry.sha256 && {
+          partialFingerprints: { 'sha256/v1': entry.sha256 },
+        }),
+        properties: {
+          status: entry.status,
+          confidence: entry.confidence,
+          templateId: entry.templateId,
+          box: entry.box,
+        },
+      };
+    });
+
+  return JSON.stringify(
+    {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: TOOL_NAME,
+              rules: [
+                {
+                  id: RULES.BADGE,
+                  name: 'AiBadge',
+                  shortDescription: { text: 'Image carries an AI badge' },
+                  defaultConfiguration: { level: 'error' },
+                },
+                {
+                  id: RULES.SCAN_ERROR,
+                  name: 'ScanError',
+                  shortDescription: { text: 'Image could not be scanned' },
+                  defaultConfiguration: { level: 'error' },
+                },
+              ],
+            },
+          },
+          invocations: [
+            {
+              executionSuccessful: report.summary.errors === 0,
+              endTimeUtc: report.scannedAt,
+            },
+          ],
+          results,
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function attributes(values: Record<string, string | number>): string {
+  return Object.entries(values)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('');
+}
+
+/**
+ * JUnit XML with one testcase per asset. Files failing the gate are
+ * failures, unreadable ones errors; flagged files that pass (baselined or
+ * below `failOn`) note why in their output.
+ */
+export function toJunit(report: ScanReport, failOn: FailOn): string {
+  const failing = new Set(failingEntries(report, failOn));
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const time = seconds(
+    report.files.reduce((total, entry) => total + entry.durationMs, 0)
+  );
+  const counts = {
+    tests: report.files.length,
+    failures: failing.size,
+    errors: report.summary.errors,
+    skipped: 0,
+    time,
+  };
+
+  const cases = report.files.map((entry) => {
+    const open = `    <testcase${attributes({
+      name: entry.path,
+      classname: `${TOOL_NAME}.scan`,
+      time: seconds(entry.durationMs),
+    })}`;
+
+    let body: string | null = null;
+    if (entry.status === 'error') {
+      body = `<error${attributes({ message: entry.error ?? 'Scan failed', type: RULES.SCAN_ERROR })}/>`;
+    } else if (failing.has(entry)) {
+      body = `<failure${attributes({ message: describeEntry(entry), type: entry.status })}/>`;
+    } else if (isFlagged(entry)) {
+      const reason = entry.baselined
+        ? 'listed in the baseline'
+        : `below --fail-on ${failOn}`;
+      body = `<system-out>${escapeXml(`${describeEntry(entry)}; passed: ${reason}`)}</system-out>`;
+    }
+
+    return body ? `${open}>\n      ${body}\n    </testcase>` : `${open}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attributes({ name: TOOL_NAME, ...counts })}>`,
+    `  <testsuite${attributes({
+      name: `${TOOL_NAME} scan`,
+      ...counts,
+      timestamp: report.scannedAt,
+    })}>`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n');
+}
@@ -0,0 +1,243 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import {
+  DETECTION_CONFIG,
+  DETECTION_REGIONS,
+  DETECTION_STRATEGIES,
+  MATCH_MODES,
+} from '@/lib/constants';
+import { ValidationError } from '@/lib/errors';
+import {
+  DetectionRegionSchema,
+  DetectionStrategySchema,
+  MatchModeSchema,
+  type CalibrationProfile,
+  type DetectionRegion,
+  type MatchMode,
+} from '@/lib/schemas';
+import {
+  mergeCalibrationProfiles,
+  parseCalibrationProfiles,
+} from '@/lib/detection/calibration';
+import {
+  createNodeMatcher,
+  readCalibrationProfiles,
+} from '@/lib/detection/node';
+import {
+  collectImages,
+  createBaseline,
+  failingEntries,
+  formatTable,
+  readBaseline,
+  scanFiles,
+  type FailOn,
+} from './scan';
+import { toJunit, toSarif } from './formats';
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_GATE_FAILED = 1;
+const EXIT_ERROR = 2; // Bad usage, or files that could not be scanned
+
+const OUTPUT_FORMATS = ['table', 'json', 'sarif', 'junit'];
+
+// The detection thresholds were set on its raw scores; other modes only
+// gate once calibration profiles map their scores onto them
+const THRESHOLD_MATCH_MODE = MATCH_MODES.GRAY;
+
+const DEFAULT_PUBLIC_DIR = fileURLToPath(
+  new URL('../../public', import.meta.url)
+);
+
+const USAGE = `Usage: geminot scan [options] <path|dir|glob>...
+
+Scan images for AI badges with the same matcher the app runs in the browser.
+PNG and JPEG only.
+
+Options:
+  --format <format>          table | json | sarif | junit (default: table)
+  --fail-on <level>          detected | possible | none (default: detected)
+  --baseline <file>          Ignore known assets listed in this file
+  --write-baseline <file>    Write every flagged file to a baseline and exit 0
+  --regions <list>           Comma-separated regions, or "corners"
+                             (default: ${DETECTION_CONFIG.DEFAULT_REGIONS.join(',')})
+  --strategy <strategy>      ${Object.values(DETECTION_STRATEGIES).join(' | ')}
+  --match-mode <mode>        ${Object.values(MATCH_MODES).join(' | ')}
+                             (default: ${THRESHOLD_MATCH_MODE}; others need
+                             calibration to gate)
+  --calibration <file>       Profiles overriding the published ones
+  --public-dir <dir>         Templates and calibration (default: ./public)
+  --verbose                  Log matcher progress to stderr
+  -h, --help                 Show this help
+
+Exit codes: 0 passed, 1 gate failed, 2 usage or scan errors.
+`;
+
+function parseRegions(value: string): DetectionRegion[] {
+  if (value === 'corners') {
+    return [
+      DETECTION_REGIONS.TOP_LEFT,
+      DETECTION_REGIONS.TOP_RIGHT,
+      DETECTION_REGIONS.BOTTOM_LEFT,
+      DETECTION_REGIONS.BOTTOM_RIGHT,
+    ];
+  }
+  return value.split(',').map((region) => {
+    const parsed = DetectionRegionSchema.safeParse(region.trim());
+    if (!parsed.success) {
+      throw new ValidationError(`Unknown region: ${region}`);
+    }
+    return parsed.data;
+  });
+}
+
+function parseFailOn(value: string): FailOn {
+  if (value === 'detected' || value === 'possible' || value === 'none') {
+    return value;
+  }
+  throw new ValidationError(`--fail-on must be detected, possible or none`);
+}
+
+function assertCanGate(
+  matchMode: MatchMode,
+  calibration: CalibrationProfile[]
+): void {
+  if (matchMode === THRESHOLD_MATCH_MODE) return;
+  if (calibration.some((profile) => profile.matchMode === matchMode)) return;
+  throw new ValidationError(
+    `No calibration for --match-mode ${matchMode}, so its scores cannot ` +
+      `gate; pass --calibration or --fail-on none`
+  );
+}
+
+async function scan(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', default: 'table' },
+      'fail-on': { type: 'string', default: 'detected' },
+      baseline: { type: 'string' },
+      'write-baseline': { type: 'string' },
+      regions: { type: 'string' },
+      strategy: { type: 'string' },
+      'match-mode': { type: 'string', default: THRESHOLD_MATCH_MODE },
+      calibration: { type: 'string' },
+      'public-dir': { type: 'string', default: DEFAULT_PUBLIC_DIR },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+  if (positionals.length === 0) {
+    throw new ValidationError('Nothing to scan');
+  }
+  const format = values.format!;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new ValidationError(
+      `--format must be one of ${OUTPUT_FORMATS.join(', ')}`
+    );
+  }
+  const failOn = parseFailOn(values['fail-on']!);
+
+  // `npm run geminot` runs from the package root; resolve paths against
+  // the directory it was invoked from
+  const cwd = process.env.INIT_CWD ?? process.cwd();
+  const resolve = (file: string) => path.resolve(cwd, file);
+  const files = await collectImages(positionals, cwd);
+  const publicDir = resolve(values['public-dir']!);
+  const calibration = mergeCalibrationProfiles(
+    await readCalibrationProfiles(publicDir),
+    values.calibration
+      ? parseCalibrationProfiles(
+          await readFile(resolve(values.calibration), 'utf8')
+        )
+      : []
+  );
+
+  const matchMode = MatchModeSchema.parse(values['match-mode']);
+  if (failOn !== 'none' && !values['write-baseline']) {
+    assertCanGate(matchMode, calibration);
+  }
+
+  // Matcher progress goes to stderr, and only with --verbose; stdout
+  // carries the report
+  const matcher = await createNodeMatcher(publicDir, {
+    info: values.verbose ? console.error : () => {},
+    warn: console.warn,
+    error: console.error,
+  });
+  try {
+    const report = await scanFiles(matcher, files, {
+      cwd,
+      baseline: values.baseline
+        ? await readBaseline(resolve(values.baseline))
+        : undefined,
+      regions: values.regions ? parseRegions(values.regions) : undefined,
+      strategy: values.strategy
+        ? DetectionStrategySchema.parse(values.strategy)
+        : undefined,
+      matchMode,
+      calibration,
+      onProgress: (entry, index, total) => {
+        if (format === 'table' && process.stderr.isTTY) {
+          process.stderr.write(`\r[${index + 1}/${total}] ${entry.path}\x1b[K`);
+          if (index + 1 === total) process.stderr.write('\r\x1b[K');
+        }
+      },
+    });
+
+    if (values['write-baseline']) {
+      const baseline = createBaseline(report);
+      await writeFile(
+        resolve(values['write-baseline']),
+        JSON.stringify(baseline, null, 2) + '\n'
+      );
+      process.stderr.write(
+        `Wrote ${baseline.files.length} file(s) to ${values['write-baseline']}\n`
+      );
+      return EXIT_OK;
+    }
+
+    const output: Record<string, () => string> = {
+      table: () => formatTable(report),
+      json: () => JSON.stringify(report, null, 2),
+      sarif: () => toSarif(report, failOn),
+      junit: () => toJunit(report, failOn),
+    };
+    process.stdout.write(output[format]() + '\n');
+
+    if (report.summary.errors > 0) return EXIT_ERROR;
+    return failingEntries(report, failOn).length > 0
+      ? EXIT_GATE_FAILED
+      : EXIT_OK;
+  } finally {
+    matcher.dispose();
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  if (command === 'scan') return scan(args);
+
+  process.stdout.write(USAGE);
+  return command === undefined || command === '--help' || command === '-h'
+    ? EXIT_OK
+    : EXIT_ERROR;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    process.stderr.write(
+      `geminot: ${error instanceof Error ? error.message : error}\n`
+    );
+    process.exit(EXIT_ERROR);
+  }
+);
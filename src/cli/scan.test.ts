@@ -0,0 +1,138 @@
+// @vitest-environment node
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DETECTION_STATUS } from '@/lib/constants';
+import type { BadgeMatcher } from '@/lib/detection/matcher';
+import { createNodeMatcher, loadOpenCV, readImage } from '@/lib/detection/node';
+import { synthesizeFixtures } from '@/lib/detection/evaluation/synthesize';
+import {
+  collectImages,
+  createBaseline,
+  failingEntries,
+  formatTable,
+  globToRegExp,
+  scanFiles,
+  type ScanReport,
+} from './scan';
+
+const PUBLIC_DIR = path.resolve(__dirname, '../../public');
+
+describe('globToRegExp', () => {
+  it('matches directories with ** and names with *', () => {
+    const glob = globToRegExp('docs/**/*.{png,jpg}');
+    expect(glob.test('docs/a.png')).toBe(true);
+    expect(glob.test('docs/img/nested/b.JPG')).toBe(true);
+    expect(glob.test('docs/a.webp')).toBe(false);
+    expect(glob.test('other/a.png')).toBe(false);
+    expect(globToRegExp('img?.png').test('img/.png')).toBe(false);
+  });
+});
+
+describe('geminot scan', () => {
+  let dir: string;
+  let matcher: BadgeMatcher;
+  let report: ScanReport;
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    dir = await mkdtemp(path.join(tmpdir(), 'geminot-scan-'));
+
+    const cv = await loadOpenCV();
+    const template = await readImage(
+      path.join(PUBLIC_DIR, 'templates/badge.png')
+    );
+    const synthesize = (positiveRate: number) =>
+      synthesizeFixtures(cv, template, {
+        count: 2,
+        // Large enough for inset badges to sit inside the corner region
+        width: 640,
+        height: 480,
+        backgrounds: ['photo'],
+        sizes: [32],
+        qualities: [null],
+        positiveRate,
+        distractorRate: 0,
+      });
+    await mkdir(path.join(dir, 'assets/nested'), { recursive: true });
+    await Promise.all([
+      ...synthesize(1).map((fixture, index) =>
+        writeFile(path.join(dir, `assets/badge-${index}.png`), fixture.bytes)
+      ),
+      ...synthesize(0).map((fixture, index) =>
+        writeFile(
+          path.join(dir, `assets/nested/clean-${index}.png`),
+          fixture.bytes
+        )
+      ),
+    ]);
+    await writeFile(path.join(dir, 'assets/broken.png'), 'not an image');
+    await writeFile(path.join(dir, 'notes.txt'), 'skipped');
+
+    matcher = await createNodeMatcher(PUBLIC_DIR);
+    const files = await collectImages(['assets'], dir);
+    report = await scanFiles(matcher, files, { cwd: dir });
+  }, 120_000);
+
+  afterAll(async () => {
+    matcher?.dispose();
+    await rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('collects images from directories and globs', async () => {
+    expect(report.files.map((entry) => entry.path)).toEqual([
+      'assets/badge-0.png',
+      'assets/badge-1.png',
+      'assets/broken.png',
+      'assets/nested/clean-0.png',
+      'assets/nested/clean-1.png',
+    ]);
+    expect(await collectImages(['assets/*-?.png'], dir)).toHaveLength(2);
+    expect(await collectImages(['**/clean-*.png'], dir)).toHaveLength(2);
+    await expect(collectImages(['missing'], dir)).rejects.toThrow(
+      'No such file'
+    );
+  });
+
+  it('reports unreadable files as errors', () => {
+    const broken = report.files.find(
+      (entry) => entry.path === 'assets/broken.png'
+    )!;
+    expect(broken.status).toBe('error');
+    expect(broken.error).toMatch(/Unsupported image format/);
+    expect(report.summary.errors).toBe(1);
+    expect(formatTable(report)).toContain('5 scanned');
+  });
+
+  it('flags badged images where the badge is', () => {
+    for (const file of ['assets/badge-0.png', 'assets/badge-1.png']) {
+      const entry = report.files.find((candidate) => candidate.path === file)!;
+      expect(entry.status).toBe(DETECTION_STATUS.BADGE_DETECTED);
+      expect(entry.sha256).toMatch(/^[0-9a-f]{64}$/);
+      expect(entry.box!.x).toBeGreaterThan(540);
+      expect(entry.box!.y).toBeGreaterThan(400);
+    }
+    expect(
+      failingEntries(report, 'detected').map((entry) => entry.path)
+    ).toEqual(['assets/badge-0.png', 'assets/badge-1.png']);
+    expect(failingEntries(report, 'none')).toEqual([]);
+  });
+
+  it('ignores baselined assets in the gate', async () => {
+    const flagged = failingEntries(report, 'possible');
+    const baseline = createBaseline(report);
+    expect(baseline.files.map((file) => file.path)).toEqual(
+      flagged.map((entry) => entry.path)
+    );
+
+    const rescanned = await scanFiles(
+      matcher,
+      await collectImages(['assets'], dir),
+      { cwd: dir, baseline }
+    );
+    expect(rescanned.summary.baselined).toBe(flagged.length);
+    expect(failingEntries(rescanned, 'possible')).toEqual([]);
+  }, 60_000);
+});
@@ -0,0 +1,345 @@
+import { createHash } from 'node:crypto';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { DETECTION_STATUS } from '@/lib/constants';
+import { ValidationError } from '@/lib/errors';
+import {
+  ScanBaselineSchema,
+  type DetectionStatus,
+  type ScanBaseline,
+} from '@/lib/schemas';
+import type { BadgeMatcher } from '@/lib/detection/matcher';
+import { decodeImage } from '@/lib/detection/node';
+import { detectionStatus } from '@/lib/detection/status';
+import type { DetectionOptions } from '@/lib/detection/types';
+
+/**
+ * `geminot scan`: walk files, directories or globs, run the badge matcher
+ * on each image and gate on the results
+ */
+
+export const SCAN_REPORT_VERSION = 1;
+export const SCAN_BASELINE_VERSION = 1;
+
+// Formats the Node decoder reads; WebP and HEIC need a browser
+const SCANNABLE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+
+export type FailOn = 'detected' | 'possible' | 'none';
+
+export interface ScanEntry {
+  path: string; // Relative to the working directory, with forward slashes
+  sha256: string | null; // Null when the file could not be read
+  status: DetectionStatus | 'error';
+  confidence: number;
+  templateId: string | null;
+  region: string | null;
+  box: { x: number; y: number; width: number; height: number } | null;
+  baselined: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ScanSummary {
+  scanned: number;
+  clean: number;
+  possible: number;
+  detected: number;
+  baselined: number;
+  errors: number;
+}
+
+export interface ScanReport {
+  version: number;
+  scannedAt: string;
+  summary: ScanSummary;
+  files: ScanEntry[];
+}
+
+const GLOB_CHARS = /[*?[\]{}]/;
+
+/**
+ * Regular expression for a glob over forward-slash paths: `**` spans
+ * directories, `*` and `?` stay within one, `{a,b}` picks alternatives
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      const slash = glob[i + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        pattern += '\\{';
+        continue;
+      }
+      const options = glob
+        .slice(i + 1, end)
+        .split(',')
+        .map((option) => option.replace(/[.+^$()|\\]/g, '\\$&'));
+      pattern += `(?:${options.join('|')})`;
+      i = end;
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`, 'i');
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function isScannable(filePath: string): boolean {
+  return SCANNABLE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Every file under `dir`, skipping hidden directories and node_modules
+ */
+async function walk(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+      files.push(...(await walk(full)));
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+/**
+ * Resolve files, directories and globs to a sorted list of images.
+ * Files named explicitly are kept whatever their format, so unsupported
+ * ones are reported rather than silently skipped.
+ */
+export async function collectImages(
+  inputs: string[],
+  cwd: string
+): Promise<string[]> {
+  const found = new Set<string>();
+
+  for (const input of inputs) {
+    const resolved = path.resolve(cwd, input);
+    const info = await stat(resolved).catch(() => null);
+
+    if (info?.isFile()) {
+      found.add(resolved);
+    } else if (info?.isDirectory()) {
+      for (const file of await walk(resolved)) {
+        if (isScannable(file)) found.add(file);
+      }
+    } else if (GLOB_CHARS.test(input)) {
+      // Walk from the glob's longest literal prefix
+      const segments = toPosix(input).split('/');
+      const literal = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+      const base = path.resolve(cwd, segments.slice(0, literal).join('/'));
+      const matcher = globToRegExp(
+        toPosix(path.relative(cwd, path.resolve(cwd, input)))
+      );
+
+      const files = await walk(base).catch(() => []);
+      for (const file of files) {
+        if (
+          isScannable(file) &&
+          matcher.test(toPosix(path.relative(cwd, file)))
+        ) {
+          found.add(file);
+        }
+      }
+    } else {
+      throw new ValidationError(`No such file or directory: ${input}`);
+    }
+  }
+
+  return Array.from(found).sort();
+}
+
+/**
+ * Read and validate a baseline file
+ */
+export async function readBaseline(file: string): Promise<ScanBaseline> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new ValidationError(
+      `Cannot read baseline ${file}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const result = ScanBaselineSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ValidationError(
+      `Invalid baseline ${file}: ${result.error.issues[0]?.message}`
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Baseline accepting every flagged file in a report
+ */
+export function createBaseline(report: ScanReport): ScanBaseline {
+  return {
+    version: SCAN_BASELINE_VERSION,
+    files: report.files.flatMap((entry) =>
+      entry.sha256 &&
+      (entry.status === DETECTION_STATUS.BADGE_DETECTED ||
+        entry.status === DETECTION_STATUS.POSSIBLE_BADGE)
+        ? [{ path: entry.path, sha256: entry.sha256, status: entry.status }]
+        : []
+    ),
+  };
+}
+
+export interface ScanOptions extends DetectionOptions {
+  cwd: string;
+  baseline?: ScanBaseline;
+  onProgress?: (entry: ScanEntry, index: number, total: number) => void;
+}
+
+/**
+ * Scan images one at a time; unreadable files become error entries
+ */
+export async function scanFiles(
+  matcher: BadgeMatcher,
+  files: string[],
+  options: ScanOptions
+): Promise<ScanReport> {
+  const { cwd, baseline, onProgress, ...detection } = options;
+  const known = new Set(baseline?.files.map((file) => file.sha256));
+  const entries: ScanEntry[] = [];
+
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    const relative = toPosix(path.relative(cwd, file));
+    const started = performance.now();
+    let entry: ScanEntry;
+
+    try {
+      const bytes = await readFile(file);
+      const sha256 = createHash('sha256').update(bytes).digest('hex');
+      const output = await matcher.detect(decodeImage(bytes, relative), {
+        ...detection,
+        explain: false,
+      });
+      const { match } = output;
+      const confidence = match ? Math.min(Math.max(match.confidence, 0), 1) : 0;
+
+      entry = {
+        path: relative,
+        sha256,
+        status: match ? detectionStatus(confidence) : DETECTION_STATUS.NO_BADGE,
+        confidence,
+        templateId: match?.templateId ?? null,
+        region: match?.region ?? null,
+        box: match
+          ? { x: match.x, y: match.y, width: match.width, height: match.height }
+          : null,
+        baselined: known.has(sha256),
+        durationMs: performance.now() - started,
+      };
+    } catch (error) {
+      entry = {
+        path: relative,
+        sha256: null,
+        status: 'error',
+        confidence: 0,
+        templateId: null,
+        region: null,
+        box: null,
+        baselined: false,
+        durationMs: performance.now() - started,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    entries.push(entry);
+    onProgress?.(entry, index, files.length);
+  }
+
+  const count = (status: ScanEntry['status']) =>
+    entries.filter((entry) => !entry.baselined && entry.status === status)
+      .length;
+  return {
+    version: SCAN_REPORT_VERSION,
+    scannedAt: new Date().toISOString(),
+    summary: {
+      scanned: entries.length,
+      clean: count(DETECTION_STATUS.NO_BADGE),
+      possible: count(DETECTION_STATUS.POSSIBLE_BADGE),
+      detected: count(DETECTION_STATUS.BADGE_DETECTED),
+      baselined: entries.filter((entry) => entry.baselined).length,
+      errors: count('error'),
+    },
+    files: entries,
+  };
+}
+
+/**
+ * Entries that fail the gate: detected badges, plus possible ones when
+ * `failOn` is "possible". Baselined files never fail.
+ */
+export function failingEntries(
+  report: ScanReport,
+  failOn: FailOn
+): ScanEntry[] {
+  if (failOn === 'none') return [];
+  return report.files.filter(
+    (entry) =>
+      !entry.baselined &&
+      (entry.status === DETECTION_STATUS.BADGE_DETECTED ||
+        (failOn === 'possible' &&
+          entry.status === DETECTION_STATUS.POSSIBLE_BADGE))
+  );
+}
+
+export const STATUS_LABELS: Record<ScanEntry['status'], string> = {
+  [DETECTION_STATUS.NO_BADGE]: 'clean',
+  [DETECTION_STATUS.POSSIBLE_BADGE]: 'possible',
+  [DETECTION_STATUS.BADGE_DETECTED]: 'detected',
+  error: 'error',
+};
+
+/**
+ * Plain-text table of the report with a summary line
+ */
+export function formatTable(report: ScanReport): string {
+  const rows = report.files.map((entry) => [
+    entry.path,
+    STATUS_LABELS[entry.status] + (entry.baselined ? ' (baseline)' : ''),
+    entry.status === 'error' ? '' : `${Math.round(entry.confidence * 100)}%`,
+    entry.error ?? [entry.templateId, entry.region].filter(Boolean).join(' @ '),
+  ]);
+  const header = ['FILE', 'STATUS', 'CONFIDENCE', 'MATCH'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+
+  const { summary } = report;
+  return [
+    line(header),
+    ...rows.map(line),
+    '',
+    `${summary.scanned} scanned: ${summary.detected} detected, ` +
+      `${summary.possible} possible, ${summary.clean} clean, ` +
+      `${summary.baselined} baselined, ${summary.errors} errors`,
+  ].join('\n');
+}
@@ -0,0 +1,483 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type PointerEvent,
+  type ReactNode,
+} from 'react';
+import { Minus, Plus, RotateCcw } from 'lucide-react';
+import { COMPARISON_CONFIG } from '@/lib/constants';
+import { readImagePixels } from '@/lib/file-utils';
+import { logger } from '@/lib/logger';
+import { pixelDifference } from '@/lib/similarity';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+type ComparisonMode = 'side-by-side' | 'swipe' | 'onion' | 'difference';
+
+const MODE_LABELS: Record<ComparisonMode, string> = {
+  'side-by-side': 'Side by side',
+  swipe: 'Swipe',
+  onion: 'Onion skin',
+  difference: 'Difference',
+};
+
+interface View {
+  zoom: number;
+  x: number; // Pan offset in pane pixels
+  y: number;
+}
+
+const INITIAL_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+/**
+ * Keep the zoomed content covering the pane
+ */
+function clampView(view: View, width: number, height: number): View {
+  const zoom = Math.min(Math.max(view.zoom, 1), COMPARISON_CONFIG.MAX_ZOOM);
+  return {
+    zoom,
+    x: Math.min(Math.max(view.x, width * (1 - zoom)), 0),
+    y: Math.min(Math.max(view.y, height * (1 - zoom)), 0),
+  };
+}
+
+/**
+ * Zoom by `factor` keeping the pane point (px, py) fixed
+ */
+function zoomAt(
+  view: View,
+  factor: number,
+  px: number,
+  py: number,
+  width: number,
+  height: number
+): View {
+  const zoom = Math.min(
+    Math.max(view.zoom * factor, 1),
+    COMPARISON_CONFIG.MAX_ZOOM
+  );
+  const ratio = zoom / view.zoom;
+  return clampView(
+    { zoom, x: px - (px - view.x) * ratio, y: py - (py - view.y) * ratio },
+    width,
+    height
+  );
+}
+
+function useObjectUrl(blob: Blob | null): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url;
+}
+
+/**
+ * Amplified pixel difference at the first image's full resolution
+ */
+function useDifference(before: Blob, after: Blob, enabled: boolean) {
+  const [difference, setDifference] = useState<Blob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    setDifference(null);
+    setError(null);
+
+    (async () => {
+      const [a, b] = await Promise.all([
+        readImagePixels(before, Number.POSITIVE_INFINITY),
+        readImagePixels(after, Number.POSITIVE_INFINITY),
+      ]);
+      const diff = pixelDifference(a, b);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = diff.width;
+      canvas.height = diff.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Failed to get canvas context');
+      const pixels = ctx.createImageData(diff.width, diff.height);
+      pixels.data.set(diff.data);
+      ctx.putImageData(pixels, 0, 0);
+
+      const blob = await new Promise<Blob | null>((resolve) =>
+        canvas.toBlob(resolve, 'image/png')
+      );
+      if (!blob) throw new Error('Failed to render difference');
+      if (!cancelled) setDifference(blob);
+    })().catch((diffError) => {
+      logger.error('Difference rendering failed', diffError);
+      if (!cancelled) {
+        setError(
+          diffError instanceof Error
+            ? diffError.message
+            : 'Failed to compute difference'
+        );
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [before, after, enabled]);
+
+  return { difference, error };
+}
+
+interface PaneProps {
+  view: View;
+  aspectRatio: number;
+  label?: string;
+  onViewChange: (update: (view: View, pane: DOMRect) => View) => void;
+  children: (layer: (content: ReactNode) => ReactNode) => ReactNode;
+}
+
+/**
+ * Viewport that pans on drag and zooms on wheel; `children` receives a
+ * function wrapping content in the shared zoom/pan transform
+ */
+function Pane({ view, aspectRatio, label, onViewChange, children }: PaneProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  // React wheel listeners are passive, so the page would scroll too
+  useEffect(() => {
+    const pane = ref.current;
+    if (!pane) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const factor =
+        event.deltaY < 0
+          ? COMPARISON_CONFIG.ZOOM_STEP
+          : 1 / COMPARISON_CONFIG.ZOOM_STEP;
+      onViewChange((current, rect) =>
+        zoomAt(
+          current,
+          factor,
+          event.clientX - rect.left,
+          event.clientY - rect.top,
+          rect.width,
+          rect.height
+        )
+      );
+    };
+    pane.addEventListener('wheel', handleWheel, { passive: false });
+    return () => pane.removeEventListener('wheel', handleWheel);
+  }, [onViewChange]);
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drag.current = { x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const start = drag.current;
+    if (!start) return;
+    const dx = event.clientX - start.x;
+    const dy = event.clientY - start.y;
+    drag.current = { x: event.clientX, y: event.clientY };
+    onViewChange((current, rect) =>
+      clampView(
+        { ...current, x: current.x + dx, y: current.y + dy },
+        rect.width,
+        rect.height
+      )
+    );
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const layer = (content: ReactNode) => (
+    <div
+      className="absolute inset-0 origin-top-left"
+      style={{
+        transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+      }}
+    >
+      {content}
+    </div>
+  );
+
+  return (
+    <div
+      ref={ref}
+      data-comparison-pane
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={cn(
+        'relative w-full touch-none select-none overflow-hidden rounded-lg bg-black/40',
+        view.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'
+      )}
+      style={{ aspectRatio }}
+    >
+      {children(layer)}
+      {label && (
+        <span className="pointer-events-none absolute left-2 top-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">
+          {label}
+        </span>
+      )}
+    </div>
+  );
+}
+
+interface ComparisonViewerProps {
+  before: Blob;
+  after: Blob;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+/**
+ * Compare two full-resolution images side by side, with a swipe slider, as
+ * an onion skin or as a pixel difference, under one synchronized zoom/pan
+ */
+export function ComparisonViewer({
+  before,
+  after,
+  beforeLabel = 'Original',
+  afterLabel = 'Replacement',
+}: ComparisonViewerProps) {
+  const [mode, setMode] = useState<ComparisonMode>('side-by-side');
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const [aspectRatio, setAspectRatio] = useState(4 / 3);
+  const [split, setSplit] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const beforeUrl = useObjectUrl(before);
+  const afterUrl = useObjectUrl(after);
+  const { difference, error: differenceError } = useDifference(
+    before,
+    after,
+    mode === 'difference'
+  );
+  const differenceUrl = useObjectUrl(difference);
+
+  // Panes take the first image's shape
+  useEffect(() => {
+    if (!beforeUrl) return;
+    const img = new Image();
+    img.onload = () => setAspectRatio(img.naturalWidth / img.naturalHeight);
+    img.src = beforeUrl;
+  }, [beforeUrl]);
+
+  // Every pane shares one view; pane geometry comes from the first pane
+  const handleViewChange = useCallback(
+    (update: (view: View, pane: DOMRect) => View) => {
+      const pane = containerRef.current?.querySelector(
+        '[data-comparison-pane]'
+      );
+      if (!pane) return;
+      const rect = pane.getBoundingClientRect();
+      setView((current) => update(current, rect));
+    },
+    []
+  );
+
+  const zoomBy = (factor: number) =>
+    handleViewChange((current, rect) =>
+      zoomAt(
+        current,
+        factor,
+        rect.width / 2,
+        rect.height / 2,
+        rect.width,
+        rect.height
+      )
+    );
+
+  const image = (url: string | null, alt: string) =>
+    url && (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={url}
+        alt={alt}
+        draggable={false}
+        className="h-full w-full object-contain"
+        // Show individual pixels when zoomed far in
+        style={{ imageRendering: view.zoom >= 4 ? 'pixelated' : 'auto' }}
+      />
+    );
+
+  const paneProps = { view, aspectRatio, onViewChange: handleViewChange };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1" role="tablist">
+          {(Object.keys(MODE_LABELS) as ComparisonMode[]).map((value) => (
+            <Button
+              key={value}
+              role="tab"
+              aria-selected={mode === value}
+              size="sm"
+              variant="outline"
+              onClick={() => setMode(value)}
+              className={cn(
+                'border-white/30 bg-transparent text-white hover:bg-white/10',
+                mode === value && 'bg-white/20'
+              )}
+            >
+              {MODE_LABELS[value]}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 text-sm text-slate-300">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => zoomBy(1 / COMPARISON_CONFIG.ZOOM_STEP)}
+            disabled={view.zoom <= 1}
+            aria-label="Zoom out"
+            className="h-8 w-8 text-white hover:bg-white/10"
+          >
+            <Minus className="h-4 w-4" />
+          </Button>
+          <span className="w-12 text-center tabular-nums" aria-live="polite">
+            {Math.round(view.zoom * 100)}%
+          </span>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => zoomBy(COMPARISON_CONFIG.ZOOM_STEP)}
+            disabled={view.zoom >= COMPARISON_CONFIG.MAX_ZOOM}
+            aria-label="Zoom in"
+            className="h-8 w-8 text-white hover:bg-white/10"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => setView(INITIAL_VIEW)}
+            aria-label="Reset zoom"
+            className="h-8 w-8 text-white hover:bg-white/10"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className={cn(
+          'grid gap-2',
+          mode === 'side-by-side' ? 'grid-cols-2' : 'grid-cols-1'
+        )}
+      >
+        {mode === 'side-by-side' && (
+          <>
+            <Pane {...paneProps} label={beforeLabel}>
+              {(layer) => layer(image(beforeUrl, beforeLabel))}
+            </Pane>
+            <Pane {...paneProps} label={afterLabel}>
+              {(layer) => layer(image(afterUrl, afterLabel))}
+            </Pane>
+          </>
+        )}
+
+        {mode === 'swipe' && (
+          <Pane {...paneProps}>
+            {(layer) => (
+              <>
+                {layer(image(beforeUrl, beforeLabel))}
+                <div
+                  className="absolute inset-0"
+                  style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+                >
+                  {layer(image(afterUrl, afterLabel))}
+                </div>
+                <div
+                  className="pointer-events-none absolute inset-y-0 w-0.5 bg-white/80"
+                  style={{ left: `${split}%` }}
+                />
+              </>
+            )}
+          </Pane>
+        )}
+
+        {mode === 'onion' && (
+          <Pane {...paneProps}>
+            {(layer) => (
+              <>
+                {layer(image(beforeUrl, beforeLabel))}
+                <div
+                  className="absolute inset-0"
+                  style={{ opacity: opacity / 100 }}
+                >
+                  {layer(image(afterUrl, afterLabel))}
+                </div>
+              </>
+            )}
+          </Pane>
+        )}
+
+        {mode === 'difference' && (
+          <Pane {...paneProps} label="Difference">
+            {(layer) =>
+              layer(
+                differenceUrl ? (
+                  image(differenceUrl, 'Difference')
+                ) : (
+                  <p className="flex h-full items-center justify-center text-sm text-slate-400">
+                    {differenceError ?? 'Computing difference...'}
+                  </p>
+                )
+              )
+            }
+          </Pane>
+        )}
+      </div>
+
+      {mode === 'swipe' && (
+        <label className="flex items-center gap-3 text-sm text-slate-300">
+          {beforeLabel}
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={split}
+            onChange={(event) => setSplit(Number(event.target.value))}
+            className="flex-1 accent-emerald-500"
+            aria-label="Swipe position"
+          />
+          {afterLabel}
+        </label>
+      )}
+      {mode === 'onion' && (
+        <label className="flex items-center gap-3 text-sm text-slate-300">
+          {beforeLabel}
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={opacity}
+            onChange={(event) => setOpacity(Number(event.target.value))}
+            className="flex-1 accent-emerald-500"
+            aria-label={`${afterLabel} opacity`}
+          />
+          {afterLabel}
+        </label>
+      )}
+      {mode === 'difference' && (
+        <p className="text-xs text-slate-400">
+          Brighter pixels changed more; differences are amplified{' '}
+          {COMPARISON_CONFIG.DIFFERENCE_GAIN}×.
+        </p>
+      )}
+    </div>
+  );
+}
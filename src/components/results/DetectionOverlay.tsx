@@ -0,0 +1,170 @@
+import { useEffect, useMemo, useState } from 'react';
+import type {
+  Dimensions,
+  DetectionExplanation,
+  ResponseHeatmap,
+} from '@/lib/schemas';
+import { cn } from '@/lib/utils';
+
+interface DetectionOverlayProps {
+  image: Blob;
+  dimensions: Dimensions;
+  explanation: DetectionExplanation;
+}
+
+// Context kept around the searched region when zoomed in
+const ROI_PADDING = 0.1;
+
+/**
+ * Blue (low) to red (high), transparent where the response is weakest
+ */
+function heatColor(t: number): [number, number, number, number] {
+  const hue = (1 - t) * 240;
+  const f = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return 255 * (0.5 - 0.5 * Math.max(Math.min(k - 3, 9 - k, 1), -1));
+  };
+  return [f(0), f(8), f(4), Math.round(200 * t * t)];
+}
+
+/**
+ * Paint a heatmap into a PNG data URL, stretched to the map's own range so
+ * the peak stands out even when every score is high
+ */
+function renderHeatmap(heatmap: ResponseHeatmap): string | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = heatmap.width;
+  canvas.height = heatmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const min = Math.min(...heatmap.values);
+  const range = Math.max(...heatmap.values) - min || 1;
+  const image = ctx.createImageData(heatmap.width, heatmap.height);
+  heatmap.values.forEach((value, index) => {
+    image.data.set(heatColor((value - min) / range), index * 4);
+  });
+  ctx.putImageData(image, 0, 0);
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Image with the searched region, the response heatmap and the winning box
+ * drawn over it, so reviewers can see why a file was flagged
+ */
+export function DetectionOverlay({
+  image,
+  dimensions,
+  explanation,
+}: DetectionOverlayProps) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [zoomed, setZoomed] = useState(true);
+  const [showHeatmap, setShowHeatmap] = useState(true);
+  const { box, roi, heatmap } = explanation;
+
+  useEffect(() => {
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const heatmapUrl = useMemo(
+    () => (heatmap ? renderHeatmap(heatmap) : null),
+    [heatmap]
+  );
+
+  const padX = roi.width * ROI_PADDING;
+  const padY = roi.height * ROI_PADDING;
+  const view = zoomed
+    ? {
+        x: Math.max(roi.x - padX, 0),
+        y: Math.max(roi.y - padY, 0),
+        width: Math.min(roi.width + padX * 2, dimensions.width),
+        height: Math.min(roi.height + padY * 2, dimensions.height),
+      }
+    : { x: 0, y: 0, ...dimensions };
+  // Keep strokes a constant on-screen width whatever the zoom
+  const stroke = Math.max(view.width, view.height) / 300;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-sm text-slate-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={zoomed}
+            onChange={(event) => setZoomed(event.target.checked)}
+            className="h-4 w-4 accent-emerald-500"
+          />
+          Zoom to searched region
+        </label>
+        {heatmapUrl && (
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={showHeatmap}
+              onChange={(event) => setShowHeatmap(event.target.checked)}
+              className="h-4 w-4 accent-emerald-500"
+            />
+            Match heatmap
+          </label>
+        )}
+      </div>
+
+      <svg
+        viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+        className="max-h-[70vh] w-full rounded-lg bg-black/40"
+        role="img"
+        aria-label={`Match at ${Math.round(box.x)}, ${Math.round(box.y)}`}
+      >
+        {imageUrl && (
+          <image
+            href={imageUrl}
+            x={0}
+            y={0}
+            width={dimensions.width}
+            height={dimensions.height}
+          />
+        )}
+        {heatmapUrl && heatmap && (
+          <image
+            href={heatmapUrl}
+            x={heatmap.box.x}
+            y={heatmap.box.y}
+            width={heatmap.box.width}
+            height={heatmap.box.height}
+            preserveAspectRatio="none"
+            className={cn(
+              'transition-opacity',
+              showHeatmap ? 'opacity-100' : 'opacity-0'
+            )}
+          />
+        )}
+        <rect
+          {...roi}
+          fill="none"
+          stroke="white"
+          strokeOpacity={0.6}
+          strokeWidth={stroke}
+          strokeDasharray={`${stroke * 4} ${stroke * 3}`}
+        />
+        <rect
+          {...box}
+          fill="none"
+          stroke="rgb(52 211 153)"
+          strokeWidth={stroke * 1.5}
+        />
+      </svg>
+
+      <p className="text-xs text-slate-400">
+        {explanation.templateId} at {Math.round(box.width)}×
+        {Math.round(box.height)} px (scale {explanation.scale.toFixed(2)}) in{' '}
+        {explanation.region}.{' '}
+        {heatmap
+          ? 'Warmer areas matched the template more closely.'
+          : 'Matched by keypoints; no response map.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { DISCLOSURE_CONFIG, DISCLOSURE_SCOPES } from '@/lib/constants';
+import type { DisclosureOptions } from '@/lib/schemas';
+
+const SCOPE_LABELS: Record<DisclosureOptions['scope'], string> = {
+  [DISCLOSURE_SCOPES.AI_GENERATED]: 'AI-generated files',
+  [DISCLOSURE_SCOPES.ALL]: 'Every file',
+};
+
+interface DisclosureSettingsProps {
+  value: DisclosureOptions;
+  onChange: (value: DisclosureOptions) => void;
+}
+
+/**
+ * Export options for labeling AI-generated images: IPTC/XMP disclosure
+ * metadata and an optional visible caption strip
+ */
+export function DisclosureSettings({
+  value,
+  onChange,
+}: DisclosureSettingsProps) {
+  const update = (changes: Partial<DisclosureOptions>) =>
+    onChange({ ...value, ...changes });
+  const inputClassName =
+    'rounded-md border border-white/20 bg-slate-900 px-2 py-1 text-white disabled:opacity-50';
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-slate-300">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(event) => update({ enabled: event.target.checked })}
+          className="h-4 w-4 accent-emerald-500"
+        />
+        Add AI disclosure on export
+      </label>
+      <label className="flex items-center gap-2">
+        Label
+        <select
+          value={value.scope}
+          disabled={!value.enabled}
+          onChange={(event) =>
+            update({
+              scope: event.target.value as DisclosureOptions['scope'],
+            })
+          }
+          className={inputClassName}
+        >
+          {Object.values(DISCLOSURE_SCOPES).map((scope) => (
+            <option key={scope} value={scope}>
+              {SCOPE_LABELS[scope]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        Note
+        <input
+          type="text"
+          value={value.note}
+          disabled={!value.enabled}
+          onChange={(event) => update({ note: event.target.value })}
+          onBlur={() =>
+            !value.note.trim() &&
+            update({ note: DISCLOSURE_CONFIG.DEFAULT_NOTE })
+          }
+          className={`${inputClassName} w-72`}
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={value.caption}
+          disabled={!value.enabled}
+          onChange={(event) => update({ caption: event.target.checked })}
+          className="h-4 w-4 accent-emerald-500"
+        />
+        Caption
+        <input
+          type="text"
+          value={value.captionText}
+          maxLength={DISCLOSURE_CONFIG.MAX_CAPTION_LENGTH}
+          disabled={!value.enabled || !value.caption}
+          onChange={(event) => update({ captionText: event.target.value })}
+          onBlur={() =>
+            !value.captionText.trim() &&
+            update({ captionText: DISCLOSURE_CONFIG.DEFAULT_CAPTION })
+          }
+          className={`${inputClassName} w-40`}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { METADATA_STRIP_FIELDS } from '@/lib/constants';
+import type { MetadataStripField } from '@/lib/schemas';
+
+const FIELD_LABELS: Record<MetadataStripField, string> = {
+  [METADATA_STRIP_FIELDS.GPS]: 'GPS location',
+  [METADATA_STRIP_FIELDS.CAMERA]: 'Camera and serial numbers',
+  [METADATA_STRIP_FIELDS.HISTORY]: 'Edit history',
+};
+
+interface MetadataStripSettingsProps {
+  value: MetadataStripField[];
+  onChange: (value: MetadataStripField[]) => void;
+}
+
+/**
+ * Metadata fields to remove from exported and inpainted images. Rights and
+ * credit are always kept, so they are not offered.
+ */
+export function MetadataStripSettings({
+  value,
+  onChange,
+}: MetadataStripSettingsProps) {
+  const toggle = (field: MetadataStripField, checked: boolean) =>
+    onChange(
+      checked
+        ? [...value, field]
+        : value.filter((selected) => selected !== field)
+    );
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-slate-300">
+      <span>Remove on export:</span>
+      {Object.values(METADATA_STRIP_FIELDS).map((field) => (
+        <label key={field} className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={value.includes(field)}
+            onChange={(event) => toggle(field, event.target.checked)}
+            className="h-4 w-4 accent-emerald-500"
+          />
+          {FIELD_LABELS[field]}
+        </label>
+      ))}
+      <span className="text-slate-400">
+        Copyright, credit and creator are always kept
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { C2PA_VALIDATION } from '@/lib/constants';
+import type {
+  C2paManifest,
+  C2paReport,
+  C2paValidationStatus,
+} from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+
+const VALIDATION_DISPLAY: Record<
+  C2paValidationStatus,
+  { label: string; className: string }
+> = {
+  [C2PA_VALIDATION.VALID]: { label: 'Valid', className: 'text-emerald-300' },
+  [C2PA_VALIDATION.INVALID]: { label: 'Invalid', className: 'text-red-300' },
+  [C2PA_VALIDATION.MISSING]: { label: 'Missing', className: 'text-yellow-300' },
+  [C2PA_VALIDATION.UNSUPPORTED]: {
+    label: 'Not supported',
+    className: 'text-slate-400',
+  },
+  [C2PA_VALIDATION.SKIPPED]: {
+    label: 'Not checked',
+    className: 'text-slate-400',
+  },
+};
+
+const VALIDATION_ROWS: {
+  key: keyof C2paManifest['validation'];
+  label: string;
+}[] = [
+  { key: 'signature', label: 'Signature' },
+  { key: 'assertions', label: 'Assertion hashes' },
+  { key: 'hashBinding', label: 'Bound to this file' },
+];
+
+/**
+ * Whether every check that applies to the manifest passed
+ */
+function isManifestTrusted(manifest: C2paManifest): boolean {
+  return (
+    manifest.errors.length === 0 &&
+    Object.values(manifest.validation).every(
+      (status) =>
+        status === C2PA_VALIDATION.VALID || status === C2PA_VALIDATION.SKIPPED
+    )
+  );
+}
+
+function signerLabel(manifest: C2paManifest): string | undefined {
+  const signer = manifest.signer;
+  if (!signer) return undefined;
+  const name = signer.organization ?? signer.commonName;
+  return signer.issuer
+    ? `${name ?? 'Unknown'} (issued by ${signer.issuer})`
+    : name;
+}
+
+function ManifestDetails({
+  manifest,
+  active,
+}: {
+  manifest: C2paManifest;
+  active: boolean;
+}) {
+  const signer = signerLabel(manifest);
+
+  return (
+    <section className="space-y-2 rounded-lg border border-white/10 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="truncate text-sm font-medium" title={manifest.label}>
+          {manifest.title ?? manifest.label}
+        </h3>
+        <span className="shrink-0 text-xs text-slate-400">
+          {active ? 'This file' : 'Ingredient'}
+        </span>
+      </div>
+      {manifest.aiGenerated && (
+        <p className="text-xs font-medium text-yellow-300">
+          Declares generative AI as a source
+        </p>
+      )}
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        {manifest.claimGenerator && (
+          <>
+            <dt className="text-slate-400">Made with</dt>
+            <dd className="truncate">{manifest.claimGenerator}</dd>
+          </>
+        )}
+        {signer && (
+          <>
+            <dt className="text-slate-400">Signed by</dt>
+            <dd className="truncate" title={signer}>
+              {signer}
+              {manifest.signatureAlgorithm &&
+                ` · ${manifest.signatureAlgorithm}`}
+            </dd>
+          </>
+        )}
+        {VALIDATION_ROWS.map(({ key, label }) => {
+          const display = VALIDATION_DISPLAY[manifest.validation[key]];
+          return (
+            <div key={key} className="contents">
+              <dt className="text-slate-400">{label}</dt>
+              <dd className={display.className}>{display.label}</dd>
+            </div>
+          );
+        })}
+        {manifest.ingredients > 0 && (
+          <>
+            <dt className="text-slate-400">Ingredients</dt>
+            <dd>{manifest.ingredients}</dd>
+          </>
+        )}
+      </dl>
+      {manifest.actions.length > 0 && (
+        <ul className="space-y-1 text-xs text-slate-300">
+          {manifest.actions.map((action, index) => (
+            <li
+              key={index}
+              className="truncate"
+              title={action.digitalSourceType}
+            >
+              {action.action}
+              {action.softwareAgent && ` · ${action.softwareAgent}`}
+            </li>
+          ))}
+        </ul>
+      )}
+      {manifest.errors.map((error, index) => (
+        <p key={index} className="text-xs text-red-300">
+          {error}
+        </p>
+      ))}
+    </section>
+  );
+}
+
+interface ProvenancePanelProps {
+  fileName: string;
+  report: C2paReport;
+}
+
+/**
+ * Content Credentials embedded in a file: who signed them, what they claim,
+ * and whether they still match the file
+ */
+export function ProvenancePanel({ fileName, report }: ProvenancePanelProps) {
+  const active = report.manifests.find(
+    (manifest) => manifest.label === report.activeManifest
+  );
+  const trusted =
+    !!active && report.errors.length === 0 && isManifestTrusted(active);
+  const Icon = trusted ? ShieldCheck : ShieldAlert;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full border-white/30 bg-transparent text-white hover:bg-white/10"
+        >
+          <Icon
+            className={cn(
+              'h-4 w-4',
+              trusted ? 'text-emerald-300' : 'text-yellow-300'
+            )}
+          />
+          Content Credentials
+          {active?.aiGenerated && ' · AI'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[80vh] max-w-xl overflow-y-auto border-white/20 bg-slate-900 text-white">
+        <DialogHeader>
+          <DialogTitle className="truncate">{fileName}</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            C2PA manifest embedded in the {report.carrier.toUpperCase()} file.
+            Signers are not checked against a trust list.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {[...report.manifests].reverse().map((manifest) => (
+            <ManifestDetails
+              key={manifest.label}
+              manifest={manifest}
+              active={manifest.label === report.activeManifest}
+            />
+          ))}
+          {report.errors.map((error, index) => (
+            <p key={index} className="text-xs text-red-300">
+              {error}
+            </p>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState, type ChangeEvent } from 'react';
+import { Columns, Download, Replace, X } from 'lucide-react';
+import { FILE_STATUS, SIMILARITY_VERDICTS } from '@/lib/constants';
+import { downloadBlob } from '@/lib/file-utils';
+import { isReplaceable, isReplacementClean } from '@/lib/replacements';
+import type { ProcessedFile, SimilarityVerdict } from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ComparisonViewer } from './ComparisonViewer';
+import { StatusBadge } from './StatusBadge';
+
+const SIMILARITY_WARNINGS: Partial<Record<SimilarityVerdict, string>> = {
+  [SIMILARITY_VERDICTS.DIFFERENT_CROP]:
+    'Looks like a different crop or framing of the original.',
+  [SIMILARITY_VERDICTS.DIFFERENT_IMAGE]:
+    'Looks like a different image. Check that you paired the right file.',
+};
+
+interface ReplacementPanelProps {
+  file: ProcessedFile;
+  onSetReplacement: (file: File) => Promise<void>;
+  onRemoveReplacement: () => void;
+}
+
+/**
+ * Upload, scan state and download for the clean copy of a flagged file
+ */
+export function ReplacementPanel({
+  file,
+  onSetReplacement,
+  onRemoveReplacement,
+}: ReplacementPanelProps) {
+  const [error, setError] = useState<string | null>(null);
+  const replacement = file.replacementFile;
+  const similarity = replacement?.similarity;
+
+  const handleChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    setError(null);
+    try {
+      await onSetReplacement(selected);
+    } catch (uploadError) {
+      setError(
+        uploadError instanceof Error
+          ? uploadError.message
+          : 'Failed to add replacement'
+      );
+    }
+  };
+
+  if (!replacement && !isReplaceable(file)) return null;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-white/10 bg-black/20 p-2">
+      {replacement && (
+        <div className="flex items-center gap-2">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={replacement.thumbnailUrl}
+            alt={replacement.name}
+            className="h-10 w-10 shrink-0 rounded object-cover"
+          />
+          <div className="min-w-0 flex-1 space-y-1">
+            <p className="truncate text-xs text-white">{replacement.name}</p>
+            <StatusBadge status={replacement.status} />
+          </div>
+          <button
+            type="button"
+            onClick={onRemoveReplacement}
+            className="rounded-full p-1 text-slate-400 hover:bg-white/10 hover:text-white"
+            aria-label={`Remove replacement ${replacement.name}`}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      {replacement?.status === FILE_STATUS.ERROR &&
+        replacement.errorMessage && (
+          <p className="text-xs text-red-300">{replacement.errorMessage}</p>
+        )}
+      {replacement?.detectionResult &&
+        (replacement.detectionResult.detected ||
+          replacement.detectionResult.possibleDetection) && (
+          <p className="text-xs text-amber-300">
+            The replacement is flagged too; upload a clean copy.
+          </p>
+        )}
+      {similarity && (
+        <p
+          className="text-xs text-slate-400"
+          title={`pHash ${similarity.pHashDistance}/64 · dHash ${similarity.dHashDistance}/64 · SSIM ${similarity.ssim.toFixed(2)}`}
+        >
+          {Math.round(similarity.score * 100)}% similar to the original
+        </p>
+      )}
+      {similarity && SIMILARITY_WARNINGS[similarity.verdict] && (
+        <p className="text-xs text-amber-300" role="alert">
+          {SIMILARITY_WARNINGS[similarity.verdict]}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+
+      {replacement && (
+        <Dialog>
+          <DialogTrigger asChild>
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full border-white/30 bg-transparent text-white hover:bg-white/10"
+            >
+              <Columns className="h-4 w-4" />
+              Compare
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-5xl border-white/20 bg-slate-900 text-white">
+            <DialogHeader>
+              <DialogTitle className="truncate">
+                {file.name} → {replacement.name}
+              </DialogTitle>
+              <DialogDescription className="text-slate-400">
+                Scroll to zoom, drag to pan. Zoom and pan stay in sync.
+              </DialogDescription>
+            </DialogHeader>
+            <ComparisonViewer
+              before={file.originalFile}
+              after={replacement.originalFile}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {isReplacementClean(file) && replacement ? (
+        <Button
+          size="sm"
+          onClick={() =>
+            downloadBlob(replacement.originalFile, replacement.name)
+          }
+          className="w-full bg-emerald-600 text-white hover:bg-emerald-700"
+        >
+          <Download className="h-4 w-4" />
+          Download replacement
+        </Button>
+      ) : (
+        <Button
+          asChild
+          size="sm"
+          variant="outline"
+          className="w-full cursor-pointer border-white/30 bg-transparent text-white hover:bg-white/10"
+        >
+          <label>
+            <Replace className="h-4 w-4" />
+            {replacement ? 'Choose another' : 'Upload replacement'}
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              onChange={handleChange}
+              className="hidden"
+            />
+          </label>
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import type { ProcessedFile } from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ReplacementPickerProps {
+  unpaired: File[];
+  candidates: ProcessedFile[]; // Flagged originals that can take a replacement
+  onPair: (fileId: string, replacement: File) => Promise<void>;
+  onDismiss: (replacement: File) => void;
+}
+
+interface PickerRowProps {
+  replacement: File;
+  candidates: ProcessedFile[];
+  onPair: (fileId: string) => Promise<void>;
+  onDismiss: () => void;
+}
+
+function PickerRow({
+  replacement,
+  candidates,
+  onPair,
+  onDismiss,
+}: PickerRowProps) {
+  const [fileId, setFileId] = useState(candidates[0]?.id ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handlePair = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onPair(fileId);
+    } catch (pairError) {
+      setError(
+        pairError instanceof Error
+          ? pairError.message
+          : 'Failed to add replacement'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <li className="space-y-2 rounded-lg border border-white/10 p-3">
+      <p className="truncate text-sm font-medium">{replacement.name}</p>
+      <div className="flex gap-2">
+        <select
+          value={fileId}
+          onChange={(event) => setFileId(event.target.value)}
+          aria-label={`Original for ${replacement.name}`}
+          className="min-w-0 flex-1 rounded-md border border-white/20 bg-slate-950 px-2 py-1 text-sm text-white"
+        >
+          {candidates.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.name}
+            </option>
+          ))}
+        </select>
+        <Button
+          size="sm"
+          onClick={handlePair}
+          disabled={!fileId || saving}
+          className="bg-emerald-600 text-white hover:bg-emerald-700"
+        >
+          Pair
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onDismiss}
+          className="border-white/30 bg-transparent text-white hover:bg-white/10"
+        >
+          Skip
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </li>
+  );
+}
+
+/**
+ * Manual pairing for dropped replacements whose names matched no single
+ * flagged original
+ */
+export function ReplacementPicker({
+  unpaired,
+  candidates,
+  onPair,
+  onDismiss,
+}: ReplacementPickerProps) {
+  const handleOpenChange = (open: boolean) => {
+    if (!open) unpaired.forEach(onDismiss);
+  };
+
+  return (
+    <Dialog open={unpaired.length > 0} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[80vh] overflow-y-auto border-white/20 bg-slate-900 text-white">
+        <DialogHeader>
+          <DialogTitle>Pair replacements</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            {candidates.length > 0
+              ? 'These files did not match a flagged image by name. Choose the image each one replaces.'
+              : 'No flagged images are waiting for a replacement.'}
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-3">
+          {unpaired.map((replacement) => (
+            <PickerRow
+              key={`${replacement.name}-${replacement.size}-${replacement.lastModified}`}
+              replacement={replacement}
+              candidates={candidates}
+              onPair={(fileId) => onPair(fileId, replacement)}
+              onDismiss={() => onDismiss(replacement)}
+            />
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,237 @@
+import { Palette, ScanSearch, Sparkles, Wand2, X } from 'lucide-react';
+import { FILE_STATUS } from '@/lib/constants';
+import { formatFileSize } from '@/lib/file-utils';
+import type { ProcessedFile, ProvenanceSignals, Review } from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { DetectionOverlay } from './DetectionOverlay';
+import { ProvenancePanel } from './ProvenancePanel';
+import { ReplacementPanel } from './ReplacementPanel';
+import { ReviewDialog, VERDICT_LABELS } from './ReviewDialog';
+import { StatusBadge } from './StatusBadge';
+
+interface ResultsGridProps {
+  files: ProcessedFile[];
+  onRemoveFile: (fileId: string) => void;
+  onRemoveWatermark?: (fileId: string) => void;
+  reviewer?: string; // Prefilled in the review form
+  onReviewFile?: (
+    fileId: string,
+    review: Omit<Review, 'reviewedAt'>
+  ) => Promise<void>;
+  onClearReview?: (fileId: string) => void;
+  onSetReplacement?: (fileId: string, replacement: File) => Promise<void>;
+  onRemoveReplacement?: (fileId: string) => void;
+}
+
+// What the metadata says made the image, e.g. "Midjourney"
+function disclosureLabel(signals: ProvenanceSignals): string {
+  return signals.generators.length > 0
+    ? signals.generators.join(', ')
+    : (signals.digitalSourceType ?? 'AI-generated');
+}
+
+export function ResultsGrid({
+  files,
+  onRemoveFile,
+  onRemoveWatermark,
+  reviewer = '',
+  onReviewFile,
+  onClearReview,
+  onSetReplacement,
+  onRemoveReplacement,
+}: ResultsGridProps) {
+  if (files.length === 0) return null;
+
+  return (
+    <ul
+      className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4"
+      aria-label="Scanned images"
+    >
+      {files.map((file) => {
+        const flagged =
+          file.status === FILE_STATUS.BADGE_DETECTED ||
+          file.status === FILE_STATUS.POSSIBLE_BADGE ||
+          file.status === FILE_STATUS.CONFIRMED ||
+          file.status === FILE_STATUS.NEEDS_REPLACEMENT;
+        // The detector's own call, whatever a reviewer decided
+        const matched =
+          file.detectionResult?.detected ||
+          file.detectionResult?.possibleDetection;
+        const reviewable =
+          file.status !== FILE_STATUS.PENDING &&
+          file.status !== FILE_STATUS.SCANNING &&
+          file.status !== FILE_STATUS.ERROR;
+
+        return (
+          <li
+            key={file.id}
+            className="group relative overflow-hidden rounded-xl border border-white/20 bg-white/10"
+          >
+            <div className="relative aspect-square bg-black/20">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={file.thumbnailUrl}
+                alt={file.name}
+                className="h-full w-full object-contain"
+              />
+              <button
+                type="button"
+                onClick={() => onRemoveFile(file.id)}
+                className="absolute right-2 top-2 rounded-full bg-black/60 p-1 text-white opacity-0 transition-opacity hover:bg-black/80 focus-visible:opacity-100 group-hover:opacity-100"
+                aria-label={`Remove ${file.name}`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+
+            <div className="space-y-2 p-3">
+              <p className="truncate text-sm font-medium text-white">
+                {file.name}
+              </p>
+              <p className="text-xs text-slate-400">
+                {file.dimensions.width}×{file.dimensions.height} •{' '}
+                {formatFileSize(file.size)}
+              </p>
+              <div className="flex items-center justify-between gap-2">
+                <StatusBadge status={file.status} />
+                {file.detectionResult && matched && (
+                  <span className="text-xs text-slate-400">
+                    {Math.round(file.detectionResult.confidence * 100)}%
+                  </span>
+                )}
+              </div>
+              {file.detectionResult && matched && (
+                <p className="truncate text-xs text-slate-400">
+                  {[
+                    file.detectionResult.templateLabel,
+                    file.detectionResult.region,
+                    (file.detectionResult.hits?.length ?? 0) > 1 &&
+                      `${file.detectionResult.hits!.length} badges`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </p>
+              )}
+              {file.detectionResult?.provenanceSignals?.aiGenerated && (
+                <p
+                  className="flex items-center gap-1 text-xs text-yellow-300"
+                  title={file.detectionResult.provenanceSignals.signals
+                    .map(
+                      (signal) =>
+                        `${signal.value} (${signal.source} ${signal.field})`
+                    )
+                    .join('\n')}
+                >
+                  <Sparkles className="h-3 w-3 shrink-0" />
+                  <span className="truncate">
+                    AI disclosure:{' '}
+                    {disclosureLabel(file.detectionResult.provenanceSignals)}
+                  </span>
+                </p>
+              )}
+              {file.metadata?.colorProfile?.wideGamut && (
+                <p
+                  className="flex items-center gap-1 text-xs text-orange-300"
+                  title="Colors beyond sRGB. Edits and exports keep the embedded profile, but tools that ignore it will shift these colors."
+                >
+                  <Palette className="h-3 w-3 shrink-0" />
+                  <span className="truncate">
+                    Wide gamut:{' '}
+                    {file.metadata.colorProfile.description ?? 'ICC profile'}
+                  </span>
+                </p>
+              )}
+              {file.review && (
+                <p
+                  className="truncate text-xs text-slate-300"
+                  title={file.review.reason}
+                >
+                  {VERDICT_LABELS[file.review.verdict]} by{' '}
+                  {file.review.reviewer}: {file.review.reason}
+                </p>
+              )}
+              {matched && file.detectionResult?.explanation && (
+                <Dialog>
+                  <DialogTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="w-full border-white/30 bg-transparent text-white hover:bg-white/10"
+                    >
+                      <ScanSearch className="h-4 w-4" />
+                      Why flagged?
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-3xl border-white/20 bg-slate-900 text-white">
+                    <DialogHeader>
+                      <DialogTitle className="truncate">
+                        {file.name}
+                      </DialogTitle>
+                      <DialogDescription className="text-slate-400">
+                        {Math.round(file.detectionResult.confidence * 100)}%
+                        confidence
+                        {file.detectionResult.templateLabel &&
+                          ` · ${file.detectionResult.templateLabel}`}
+                      </DialogDescription>
+                    </DialogHeader>
+                    <DetectionOverlay
+                      image={file.originalFile}
+                      dimensions={file.dimensions}
+                      explanation={file.detectionResult.explanation}
+                    />
+                  </DialogContent>
+                </Dialog>
+              )}
+              {file.provenance?.c2pa && (
+                <ProvenancePanel
+                  fileName={file.name}
+                  report={file.provenance.c2pa}
+                />
+              )}
+              {reviewable && onReviewFile && onClearReview && (
+                <ReviewDialog
+                  fileName={file.name}
+                  review={file.review}
+                  defaultReviewer={reviewer}
+                  onSubmit={(review) => onReviewFile(file.id, review)}
+                  onClear={() => onClearReview(file.id)}
+                />
+              )}
+              {onSetReplacement && onRemoveReplacement && (
+                <ReplacementPanel
+                  file={file}
+                  onSetReplacement={(replacement) =>
+                    onSetReplacement(file.id, replacement)
+                  }
+                  onRemoveReplacement={() => onRemoveReplacement(file.id)}
+                />
+              )}
+              {file.status === FILE_STATUS.ERROR && file.errorMessage && (
+                <p className="text-xs text-red-300">{file.errorMessage}</p>
+              )}
+              {flagged && onRemoveWatermark && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onRemoveWatermark(file.id)}
+                  className="w-full border-white/30 bg-transparent text-white hover:bg-white/10"
+                >
+                  <Wand2 className="h-4 w-4" />
+                  Remove watermark
+                </Button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, type FormEvent } from 'react';
+import { ClipboardCheck } from 'lucide-react';
+import { REVIEW_VERDICTS } from '@/lib/constants';
+import type { Review, ReviewVerdict } from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+
+export const VERDICT_LABELS: Record<ReviewVerdict, string> = {
+  [REVIEW_VERDICTS.CONFIRMED]: 'Confirmed badge',
+  [REVIEW_VERDICTS.FALSE_POSITIVE]: 'False positive',
+  [REVIEW_VERDICTS.NEEDS_REPLACEMENT]: 'Needs replacement',
+};
+
+interface ReviewDialogProps {
+  fileName: string;
+  review?: Review;
+  defaultReviewer: string;
+  onSubmit: (review: Omit<Review, 'reviewedAt'>) => Promise<void>;
+  onClear: () => void;
+}
+
+/**
+ * Form for overriding a detection result with a reviewer's verdict
+ */
+export function ReviewDialog({
+  fileName,
+  review,
+  defaultReviewer,
+  onSubmit,
+  onClear,
+}: ReviewDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [verdict, setVerdict] = useState<ReviewVerdict>(
+    review?.verdict ?? REVIEW_VERDICTS.CONFIRMED
+  );
+  const [reason, setReason] = useState(review?.reason ?? '');
+  const [reviewer, setReviewer] = useState(review?.reviewer ?? defaultReviewer);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    // Start from the saved review each time the form opens
+    if (next) {
+      setVerdict(review?.verdict ?? REVIEW_VERDICTS.CONFIRMED);
+      setReason(review?.reason ?? '');
+      setReviewer(review?.reviewer ?? defaultReviewer);
+      setError(null);
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit({ verdict, reason, reviewer });
+      setOpen(false);
+    } catch (submitError) {
+      setError(
+        submitError instanceof Error
+          ? submitError.message
+          : 'Failed to save review'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full border-white/30 bg-transparent text-white hover:bg-white/10"
+        >
+          <ClipboardCheck className="h-4 w-4" />
+          {review ? 'Edit review' : 'Review'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="border-white/20 bg-slate-900 text-white">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="truncate">Review {fileName}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Your verdict overrides the detection result.
+            </DialogDescription>
+          </DialogHeader>
+
+          <fieldset className="space-y-2">
+            <legend className="mb-2 text-sm font-medium">Verdict</legend>
+            {Object.values(REVIEW_VERDICTS).map((value) => (
+              <label key={value} className="flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="verdict"
+                  value={value}
+                  checked={verdict === value}
+                  onChange={() => setVerdict(value)}
+                  className="h-4 w-4 accent-emerald-500"
+                />
+                {VERDICT_LABELS[value]}
+              </label>
+            ))}
+          </fieldset>
+
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Reason</span>
+            <textarea
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              required
+              rows={3}
+              className="w-full rounded-md border border-white/20 bg-slate-950 px-2 py-1 text-white"
+            />
+          </label>
+
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">Reviewer</span>
+            <input
+              value={reviewer}
+              onChange={(event) => setReviewer(event.target.value)}
+              required
+              className="w-full rounded-md border border-white/20 bg-slate-950 px-2 py-1 text-white"
+            />
+          </label>
+
+          {error && <p className="text-sm text-red-300">{error}</p>}
+
+          <DialogFooter className="gap-2">
+            {review && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  onClear();
+                  setOpen(false);
+                }}
+                className="border-white/30 bg-transparent text-white hover:bg-white/10"
+              >
+                Clear review
+              </Button>
+            )}
+            <Button
+              type="submit"
+              disabled={saving}
+              className="bg-emerald-600 text-white hover:bg-emerald-700"
+            >
+              Save review
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import {
+  AlertTriangle,
+  Ban,
+  BadgeCheck,
+  CheckCircle2,
+  Clock,
+  HelpCircle,
+  Loader2,
+  RefreshCw,
+  ShieldAlert,
+  XCircle,
+} from 'lucide-react';
+import { FILE_STATUS } from '@/lib/constants';
+import type { FileStatus } from '@/lib/schemas';
+import { cn } from '@/lib/utils';
+
+const STATUS_DISPLAY: Record<
+  FileStatus,
+  { label: string; icon: typeof Clock; className: string }
+> = {
+  [FILE_STATUS.PENDING]: {
+    label: 'Pending',
+    icon: Clock,
+    className: 'bg-slate-500/20 text-slate-200',
+  },
+  [FILE_STATUS.SCANNING]: {
+    label: 'Scanning...',
+    icon: Loader2,
+    className: 'bg-sky-500/20 text-sky-200',
+  },
+  [FILE_STATUS.CLEAN]: {
+    label: 'No badge',
+    icon: CheckCircle2,
+    className: 'bg-emerald-500/20 text-emerald-300',
+  },
+  [FILE_STATUS.BADGE_DETECTED]: {
+    label: 'Badge detected',
+    icon: AlertTriangle,
+    className: 'bg-yellow-500/20 text-yellow-300',
+  },
+  [FILE_STATUS.POSSIBLE_BADGE]: {
+    label: 'Possible badge',
+    icon: HelpCircle,
+    className: 'bg-amber-500/20 text-amber-300',
+  },
+  [FILE_STATUS.CONFIRMED]: {
+    label: 'Confirmed badge',
+    icon: ShieldAlert,
+    className: 'bg-orange-500/20 text-orange-300',
+  },
+  [FILE_STATUS.FALSE_POSITIVE]: {
+    label: 'False positive',
+    icon: Ban,
+    className: 'bg-emerald-500/20 text-emerald-300',
+  },
+  [FILE_STATUS.NEEDS_REPLACEMENT]: {
+    label: 'Needs replacement',
+    icon: RefreshCw,
+    className: 'bg-rose-500/20 text-rose-300',
+  },
+  [FILE_STATUS.RESOLVED]: {
+    label: 'Resolved',
+    icon: BadgeCheck,
+    className: 'bg-teal-500/20 text-teal-300',
+  },
+  [FILE_STATUS.ERROR]: {
+    label: 'Error',
+    icon: XCircle,
+    className: 'bg-red-500/20 text-red-300',
+  },
+};
+
+interface StatusBadgeProps {
+  status: FileStatus;
+  className?: string;
+}
+
+export function StatusBadge({ status, className }: StatusBadgeProps) {
+  const {
+    label,
+    icon: Icon,
+    className: statusClassName,
+  } = STATUS_DISPLAY[status];
+
+  return (
+    <span
+      role="status"
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium',
+        statusClassName,
+        className
+      )}
+    >
+      <Icon
+        className={cn(
+          'h-3.5 w-3.5',
+          status === FILE_STATUS.SCANNING && 'animate-spin'
+        )}
+        aria-hidden="true"
+      />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,159 @@
+// @vitest-environment node
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { buildExportZip, manifestToCsv } from './batch-export';
+import {
+  C2PA_EXPORT_STATUS,
+  DISCLOSURE_SCOPES,
+  FILE_STATUS,
+} from './constants';
+import { encodePng } from './detection/node';
+import { DEFAULT_DISCLOSURE_OPTIONS } from './disclosure';
+import { hashFile } from './file-utils';
+import { readMetadata } from './metadata/metadata';
+import { writeManifestStore } from './metadata/writer';
+import { extractManifestStore } from './provenance/jumbf';
+import { ExportManifestSchema, type ProcessedFile } from './schemas';
+
+function batchFile(
+  name: string,
+  status: ProcessedFile['status'],
+  content = name
+): ProcessedFile {
+  return {
+    id: name,
+    originalFile: new File([content], name),
+    name,
+    size: content.length,
+    dimensions: { width: 10, height: 10 },
+    thumbnailUrl: '',
+    status,
+  };
+}
+
+describe('batch export', () => {
+  const clean = batchFile('clean.png', FILE_STATUS.CLEAN);
+  const flagged = batchFile('flagged, "draft".png', FILE_STATUS.BADGE_DETECTED);
+  const resolved: ProcessedFile = {
+    ...batchFile('hero.png', FILE_STATUS.RESOLVED),
+    replacementFile: batchFile('hero-final.jpg', FILE_STATUS.CLEAN, 'clean'),
+  };
+
+  it('zips clean originals and replacements with a manifest', async () => {
+    const { zip, manifest } = await buildExportZip([clean, flagged, resolved]);
+    const archive = await JSZip.loadAsync(await zip.arrayBuffer());
+
+    expect(Object.keys(archive.files).sort()).toEqual([
+      'files/',
+      'files/clean.png',
+      'files/hero.jpg',
+      'manifest.json',
+      'report.csv',
+    ]);
+    expect(await archive.file('files/hero.jpg')!.async('string')).toBe('clean');
+
+    const parsed = ExportManifestSchema.parse(
+      JSON.parse(await archive.file('manifest.json')!.async('string'))
+    );
+    expect(parsed).toEqual(manifest);
+    expect(parsed.files.map((entry) => entry.path)).toEqual([
+      'files/clean.png',
+      null,
+      'files/hero.jpg',
+    ]);
+    const [, , hero] = parsed.files;
+    expect(hero.replaced).toBe(true);
+    expect(hero.exportedSha256).not.toBe(hero.originalSha256);
+    // SHA-256 of "clean"
+    expect(hero.exportedSha256).toBe(
+      '3b066804f6d1d077173cfe4d06002e6a61e6f21c2b2e648417962115f1afcd8e'
+    );
+  });
+
+  it('keeps duplicate names apart and quotes CSV cells', async () => {
+    const { manifest } = await buildExportZip([
+      clean,
+      batchFile('CLEAN.png', FILE_STATUS.FALSE_POSITIVE),
+      flagged,
+    ]);
+    expect(manifest.files[1].path).toBe('files/CLEAN (2).png');
+
+    const [header, , , row] = manifestToCsv(manifest).split('\r\n');
+    expect(header.split(',')).toContain('exportedSha256');
+    expect(row.startsWith('"flagged, ""draft"".png",,badge,')).toBe(true);
+  });
+
+  it('labels AI-generated exports and reports their C2PA manifest', async () => {
+    const store = Uint8Array.of(
+      0,
+      0,
+      0,
+      12,
+      0x6a,
+      0x75,
+      0x6d,
+      0x62,
+      1,
+      2,
+      3,
+      4
+    );
+    const png = writeManifestStore(
+      encodePng({
+        data: new Uint8ClampedArray(4 * 4 * 4).fill(90),
+        width: 4,
+        height: 4,
+      }),
+      store
+    );
+    const generated: ProcessedFile = {
+      ...batchFile('hero.png', FILE_STATUS.RESOLVED),
+      replacementFile: {
+        ...batchFile('hero-final.png', FILE_STATUS.CLEAN),
+        originalFile: new File([new Uint8Array(png)], 'hero-final.png', {
+          type: 'image/png',
+        }),
+      },
+    };
+
+    const { zip, manifest } = await buildExportZip([clean, generated], {
+      disclosure: { ...DEFAULT_DISCLOSURE_OPTIONS, enabled: true },
+    });
+    const archive = await JSZip.loadAsync(await zip.arrayBuffer());
+    const exported = await archive.file('files/hero.png')!.async('uint8array');
+
+    expect(manifest.files.map((entry) => entry.disclosed)).toEqual([
+      false,
+      true,
+    ]);
+    // Kept, but the label moved the bytes its hash binding covers
+    expect(manifest.files[1]).toMatchObject({
+      captioned: false,
+      c2pa: C2PA_EXPORT_STATUS.INVALIDATED,
+    });
+    expect(manifest.files[1].exportedSha256).toBe(
+      await hashFile(new Blob([new Uint8Array(exported)]))
+    );
+    expect(extractManifestStore(exported)?.jumbf).toEqual(store);
+    expect((await readMetadata(exported)).signals.aiGenerated).toBe(true);
+
+    const { manifest: unlabeled } = await buildExportZip([generated]);
+    expect(unlabeled.files[0]).toMatchObject({
+      c2pa: C2PA_EXPORT_STATUS.UNCHANGED,
+      exportedSha256: await hashFile(new Blob([new Uint8Array(png)])),
+    });
+
+    // Files that cannot be labeled are exported unchanged
+    const { manifest: all } = await buildExportZip([clean], {
+      disclosure: {
+        ...DEFAULT_DISCLOSURE_OPTIONS,
+        enabled: true,
+        scope: DISCLOSURE_SCOPES.ALL,
+      },
+    });
+    expect(all.files[0]).toMatchObject({
+      disclosed: false,
+      exportedSha256: all.files[0].originalSha256,
+    });
+  });
+});
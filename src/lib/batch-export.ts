@@ -0,0 +1,250 @@
+import JSZip from 'jszip';
+import { C2PA_EXPORT_STATUS, EXPORT_CONFIG, FILE_STATUS } from './constants';
+import {
+  applyDisclosure,
+  c2paExportStatus,
+  disclosureSourceType,
+  needsDisclosure,
+} from './disclosure';
+import { hashFile } from './file-utils';
+import { logger } from './logger';
+import { stripMetadata } from './metadata/preserve';
+import type {
+  C2paExportStatus,
+  DisclosureOptions,
+  ExportEntry,
+  ExportManifest,
+  MetadataStripField,
+  ProcessedFile,
+} from './schemas';
+
+export const EXPORT_MANIFEST_VERSION = 3;
+
+const REPORT_COLUMNS: (keyof ExportEntry)[] = [
+  'name',
+  'path',
+  'status',
+  'detectionStatus',
+  'confidence',
+  'reviewVerdict',
+  'replaced',
+  'replacementName',
+  'similarity',
+  'originalSha256',
+  'exportedSha256',
+  'disclosed',
+  'captioned',
+  'c2pa',
+];
+
+export interface ExportOptions {
+  disclosure?: DisclosureOptions; // Label AI-generated files on the way out
+  stripMetadata?: MetadataStripField[];
+}
+
+/**
+ * Split a file name into stem and extension (with its dot)
+ */
+function splitName(name: string): [string, string] {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+}
+
+interface ExportSource {
+  file: File;
+  name: string; // File name inside the ZIP
+  replaced: boolean;
+}
+
+/**
+ * The bytes a batch file exports as: the original when it is clean, its
+ * replacement when resolved, nothing while it is still flagged.
+ * Replacements take the original's name with their own extension, so the
+ * format is never misreported.
+ */
+export function exportSource(file: ProcessedFile): ExportSource | null {
+  const { replacementFile } = file;
+  if (file.status === FILE_STATUS.RESOLVED && replacementFile) {
+    const [stem] = splitName(file.name);
+    const [, extension] = splitName(replacementFile.name);
+    return {
+      file: replacementFile.originalFile,
+      name: extension ? `${stem}${extension}` : file.name,
+      replaced: true,
+    };
+  }
+
+  if (
+    file.status === FILE_STATUS.CLEAN ||
+    file.status === FILE_STATUS.FALSE_POSITIVE
+  ) {
+    return { file: file.originalFile, name: file.name, replaced: false };
+  }
+  return null;
+}
+
+/**
+ * `name`, then `name (2).ext`, `name (3).ext`... for names already taken
+ */
+function uniqueName(name: string, taken: Set<string>): string {
+  const [stem, extension] = splitName(name);
+
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${stem} (${n})${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
+
+interface ExportedFile {
+  blob: Blob;
+  disclosed: boolean;
+  captioned: boolean;
+  c2pa: C2paExportStatus;
+}
+
+/**
+ * The exported bytes of a file, labeled when the disclosure options ask for
+ * it and without the metadata fields to strip. Files that cannot be
+ * labeled are exported unlabeled; failing to strip fails the export.
+ */
+async function exportedFile(
+  file: ProcessedFile,
+  source: ExportSource,
+  options: ExportOptions
+): Promise<ExportedFile> {
+  const { disclosure, stripMetadata: strip = [] } = options;
+  if (disclosure && needsDisclosure(file, disclosure)) {
+    try {
+      const { blob, captioned, c2pa } = await applyDisclosure(
+        source.file,
+        disclosure,
+        {
+          sourceType: disclosureSourceType(
+            source.replaced && file.replacementFile
+              ? file.replacementFile
+              : file
+          ),
+          strip,
+        }
+      );
+      return { blob, disclosed: true, captioned, c2pa };
+    } catch (error) {
+      logger.warn('Exporting file without AI disclosure', {
+        fileName: file.name,
+        error,
+      });
+    }
+  }
+
+  const original = new Uint8Array(await source.file.arrayBuffer());
+  const bytes = await stripMetadata(original, strip);
+  const rewritten = bytes !== original;
+  return {
+    blob: rewritten
+      ? new Blob([new Uint8Array(bytes)], { type: source.file.type })
+      : source.file,
+    disclosed: false,
+    captioned: false,
+    c2pa: c2paExportStatus(bytes, rewritten),
+  };
+}
+
+/**
+ * Manifest entries for every batch file, with the ZIP path and bytes of
+ * each exported one
+ */
+export async function buildExportManifest(
+  files: ProcessedFile[],
+  options: ExportOptions = {}
+): Promise<{ manifest: ExportManifest; exports: Map<string, Blob> }> {
+  const taken = new Set<string>();
+  const exports = new Map<string, Blob>();
+  const entries: ExportEntry[] = [];
+
+  for (const file of files) {
+    const source = exportSource(file);
+    const path = source
+      ? `${EXPORT_CONFIG.FILES_DIR}/${uniqueName(source.name, taken)}`
+      : null;
+    const exported =
+      source && path ? await exportedFile(file, source, options) : null;
+    if (exported && path) exports.set(path, exported.blob);
+
+    const originalSha256 =
+      file.contentHash ?? (await hashFile(file.originalFile));
+    entries.push({
+      name: file.name,
+      path,
+      status: file.status,
+      detectionStatus: file.detectionResult?.status ?? null,
+      confidence: file.detectionResult?.confidence ?? null,
+      reviewVerdict: file.review?.verdict ?? null,
+      replaced: source?.replaced ?? false,
+      replacementName: file.replacementFile?.name ?? null,
+      similarity: file.replacementFile?.similarity?.score ?? null,
+      originalSha256,
+      exportedSha256: exported
+        ? exported.blob === file.originalFile
+          ? originalSha256
+          : await hashFile(exported.blob)
+        : null,
+      disclosed: exported?.disclosed ?? false,
+      captioned: exported?.captioned ?? false,
+      c2pa: exported?.c2pa ?? C2PA_EXPORT_STATUS.NONE,
+    });
+  }
+
+  return {
+    manifest: {
+      version: EXPORT_MANIFEST_VERSION,
+      exportedAt: new Date().toISOString(),
+      files: entries,
+    },
+    exports,
+  };
+}
+
+function csvCell(value: ExportEntry[keyof ExportEntry]): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The manifest as CSV, one row per batch file
+ */
+export function manifestToCsv(manifest: ExportManifest): string {
+  const rows = manifest.files.map((entry) =>
+    REPORT_COLUMNS.map((column) => csvCell(entry[column])).join(',')
+  );
+  return [REPORT_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * ZIP of clean originals and resolved replacements, byte-for-byte unless
+ * disclosure labeling is on, with manifest.json and report.csv at the root
+ */
+export async function buildExportZip(
+  files: ProcessedFile[],
+  options: ExportOptions = {}
+): Promise<{ zip: Blob; manifest: ExportManifest }> {
+  const { manifest, exports } = await buildExportManifest(files, options);
+
+  const zip = new JSZip();
+  for (const [path, file] of Array.from(exports)) {
+    // Images are already compressed; storing them avoids wasted work
+    zip.file(path, await file.arrayBuffer(), { compression: 'STORE' });
+  }
+  zip.file(EXPORT_CONFIG.MANIFEST_NAME, JSON.stringify(manifest, null, 2));
+  zip.file(EXPORT_CONFIG.REPORT_NAME, manifestToCsv(manifest));
+
+  return {
+    zip: await zip.generateAsync({
+      type: 'blob',
+      compression: 'DEFLATE',
+    }),
+    manifest,
+  };
+}
@@ -11,15 +11,64 @@ export const SUPPORTED_FORMATS = {
   'image/heif': ['.heif'],
 } as const;
 
+export const DETECTION_REGIONS = {
+  TOP_LEFT: 'top-left',
+  TOP_RIGHT: 'top-right',
+  BOTTOM_LEFT: 'bottom-left',
+  BOTTOM_RIGHT: 'bottom-right',
+  FULL: 'full',
+} as const;
+
+export const MATCH_MODES = {
+  GRAY: 'gray', // Unmasked grayscale TM_CCOEFF_NORMED
+  MASKED: 'masked', // Template alpha channel used as the match mask
+  EDGES: 'edges', // Canny edge maps, robust to busy backgrounds
+} as const;
+
+export const DETECTION_STRATEGIES = {
+  TEMPLATE: 'template', // Multi-scale template matching only
+  FEATURES: 'features', // Keypoint descriptors with homography verification
+  AUTO: 'auto', // Template first, features when the score is only "possible"
+} as const;
+
 export const DETECTION_CONFIG = {
-  ROI_PERCENT: 0.15, // Bottom-right 15%
+  ROI_PERCENT: 0.15, // Corner regions span 15% of each dimension
+  DEFAULT_REGIONS: [DETECTION_REGIONS.BOTTOM_RIGHT],
   CONFIDENCE_THRESHOLD: 0.7, // "Detected" threshold
   POSSIBLE_THRESHOLD: 0.5, // "Possible" threshold
   SCALES: [0.5, 0.75, 1.0, 1.25, 1.5],
-  MATCH_METHOD: 'TM_CCOEFF_NORMED',
-  MAX_CONCURRENT: 1, // Sequential to avoid memory issues
+  // Masked TM_CCORR_NORMED scores near 1 on smooth backgrounds, so it stays
+  // opt-in until its scores are calibrated; the thresholds are set for gray
+  MATCH_MODE: MATCH_MODES.GRAY,
+  MASKED_METHOD: 'TM_CCORR_NORMED' as 'TM_CCORR_NORMED' | 'TM_SQDIFF',
+  MASK_DILATION: 2, // Pixels added around the alpha mask to keep the outline
+  CANNY_LOW_THRESHOLD: 50,
+  CANNY_HIGH_THRESHOLD: 150,
+  STRATEGY: DETECTION_STRATEGIES.AUTO,
+  FEATURE_DETECTOR: 'ORB' as 'ORB' | 'AKAZE',
+  FEATURE_MAX_KEYPOINTS: 500,
+  FEATURE_TEMPLATE_SIZE: 128, // Templates are resized to this before keypoints
+  FEATURE_MAX_ROI_SIDE: 1024, // Regions are upscaled up to 2x within this
+  FEATURE_RATIO_TEST: 0.75, // Lowe ratio between best and second-best match
+  FEATURE_MIN_MATCHES: 10, // Good matches needed to attempt a homography
+  FEATURE_MIN_INLIERS: 8, // RANSAC inliers needed to accept a homography
+  FEATURE_CONFIDENT_INLIERS: 30, // Inlier count that earns full confidence
+  FEATURE_RANSAC_THRESHOLD: 4, // Reprojection error in pixels
+  FEATURE_MAX_SKEW: 2, // Max ratio between opposite sides of the projected box
+  MAX_PEAKS_PER_MATCH: 5, // Peaks taken from each template response map
+  MAX_HITS: 20, // Hits kept per image after suppression
+  NMS_IOU_THRESHOLD: 0.3, // Overlapping hits above this IoU are merged
+  HEATMAP_MAX_SIDE: 64, // Explanation response maps are pooled down to this
+  MAX_CONCURRENT: 4, // Upper bound on pooled detection workers
+  WORKER_MEMORY_ESTIMATE_MB: 96, // OpenCV heap + decoded image per worker
+  WORKER_MEMORY_BUDGET_MB: 512, // Total budget shared by pooled workers
+  JOB_TIMEOUT_MS: 30000, // Hung workers are terminated and respawned
   TEMPLATE_SIZES: [16, 24, 32, 48, 64] as const,
   TEMPLATE_BASE_PATH: '/templates/badge',
+  TEMPLATE_MANIFEST_PATH: '/templates/manifest.json',
+  CALIBRATION_PATH: '/templates/calibration.json', // Optional fitted profiles
+  CLASSIFIER_REGISTRY_PATH: '/models/manifest.json',
+  CLASSIFIER_CROP_CONTEXT: 3, // Classifier crop side as a multiple of the hit
 } as const;
 
 export const FILE_STATUS = {
@@ -28,9 +77,156 @@ export const FILE_STATUS = {
   CLEAN: 'clean',
   BADGE_DETECTED: 'badge',
   POSSIBLE_BADGE: 'possible',
+  CONFIRMED: 'confirmed', // Reviewer confirmed the badge
+  FALSE_POSITIVE: 'false_positive', // Reviewer cleared the detection
+  NEEDS_REPLACEMENT: 'needs_replacement', // Reviewer asked for a clean copy
+  RESOLVED: 'resolved', // Replacement uploaded and scanned clean
   ERROR: 'error',
 } as const;
 
+export const REVIEW_VERDICTS = {
+  CONFIRMED: 'confirmed',
+  FALSE_POSITIVE: 'false_positive',
+  NEEDS_REPLACEMENT: 'needs_replacement',
+} as const;
+
+export const SIMILARITY_VERDICTS = {
+  MATCH: 'match', // Same picture and framing
+  DIFFERENT_CROP: 'different_crop', // Same picture, reframed or resized
+  DIFFERENT_IMAGE: 'different_image',
+} as const;
+
+export const SIMILARITY_CONFIG = {
+  DECODE_MAX_SIDE: 256, // Images are downscaled to this before comparing
+  SSIM_SIZE: 64, // Both images are resampled to this square for SSIM
+  SSIM_WINDOW: 8,
+  MATCH_HASH_DISTANCE: 12, // Max pHash/dHash bits that differ in a match
+  MATCH_SSIM: 0.75,
+  RELATED_HASH_DISTANCE: 22, // With RELATED_SSIM, a mismatch is likely a crop
+  RELATED_SSIM: 0.6,
+  MAX_ASPECT_RATIO_CHANGE: 0.02, // |log| of the aspect ratio change
+} as const;
+
+export const EXPORT_CONFIG = {
+  FILES_DIR: 'files', // Exported images keep their names under this folder
+  MANIFEST_NAME: 'manifest.json',
+  REPORT_NAME: 'report.csv',
+} as const;
+
+export const DISCLOSURE_SCOPES = {
+  AI_GENERATED: 'ai-generated', // Files with AI signals, or an AI badge
+  ALL: 'all',
+} as const;
+
+export const DISCLOSURE_CONFIG = {
+  SOURCE_TYPE_VOCABULARY: 'http://cv.iptc.org/newscodes/digitalsourcetype/',
+  DEFAULT_SOURCE_TYPE: 'trainedAlgorithmicMedia',
+  DEFAULT_NOTE: 'This image was created using generative AI.',
+  DEFAULT_CAPTION: 'AI-generated',
+  MAX_CAPTION_LENGTH: 80,
+  CAPTION_HEIGHT: 0.06, // Strip height as a fraction of the image height
+  MIN_CAPTION_HEIGHT: 24, // Pixels
+  CAPTION_BACKGROUND: '#000000',
+  CAPTION_COLOR: '#ffffff',
+} as const;
+
+export const COMPARISON_CONFIG = {
+  MAX_ZOOM: 8, // 800%
+  ZOOM_STEP: 1.25, // Per wheel notch or button press
+  DIFFERENCE_GAIN: 4, // Amplifies small pixel differences
+} as const;
+
+export const C2PA_VALIDATION = {
+  VALID: 'valid',
+  INVALID: 'invalid',
+  MISSING: 'missing', // The manifest has nothing to check
+  UNSUPPORTED: 'unsupported', // An algorithm or binding this reader can't check
+  SKIPPED: 'skipped', // Not applicable, e.g. an ingredient's hash binding
+} as const;
+
+// What an exported file carries of its source's C2PA manifest store
+export const C2PA_EXPORT_STATUS = {
+  NONE: 'none', // The source had none
+  UNCHANGED: 'unchanged', // Exported with the same bytes it was signed over
+  // Carried into rewritten bytes, which its hash binding no longer matches
+  INVALIDATED: 'invalidated',
+} as const;
+
+export const C2PA_CONFIG = {
+  // IPTC digital source types marking generative AI output
+  AI_SOURCE_TYPES: [
+    'trainedAlgorithmicMedia',
+    'compositeWithTrainedAlgorithmicMedia',
+  ],
+} as const;
+
+export const METADATA_SOURCES = {
+  EXIF: 'exif',
+  XMP: 'xmp',
+  IPTC: 'iptc', // IIM records in a Photoshop APP13 segment
+  PNG_TEXT: 'png-text', // tEXt, iTXt and zTXt chunks
+  COMMENT: 'comment', // JPEG COM segment
+} as const;
+
+export const PROVENANCE_SIGNAL_KINDS = {
+  DIGITAL_SOURCE_TYPE: 'digital-source-type', // IPTC DigitalSourceType
+  GENERATOR: 'generator', // Known generative tool named in a field
+} as const;
+
+export const METADATA_CONFIG = {
+  MAX_VALUE_LENGTH: 1000, // Longer values, e.g. prompts, are truncated
+  // Generative tools, matched against every text field
+  GENERATORS: [
+    { label: 'Midjourney', pattern: /midjourney/i },
+    { label: 'DALL·E', pattern: /\bdall[-·\s]?e\b/i },
+    { label: 'Adobe Firefly', pattern: /adobe firefly/i },
+    {
+      label: 'Stable Diffusion',
+      pattern: /stable[\s-]?diffusion|\bsdxl\b|dreamstudio/i,
+    },
+    { label: 'Stable Diffusion web UI', pattern: /\bSteps: \d+, Sampler: / },
+    { label: 'ComfyUI', pattern: /comfyui|"class_type"/i },
+    { label: 'InvokeAI', pattern: /invokeai/i },
+    { label: 'NovelAI', pattern: /novelai/i },
+    { label: 'Fooocus', pattern: /fooocus/i },
+    { label: 'FLUX', pattern: /\bflux(\.1)?[\s-](dev|pro|schnell)\b/i },
+    { label: 'Google Imagen', pattern: /google imagen/i },
+    { label: 'Leonardo.Ai', pattern: /leonardo\.ai/i },
+    { label: 'Ideogram', pattern: /ideogram/i },
+    { label: 'Runway', pattern: /runwayml|runway gen-?\d/i },
+    { label: 'Bing Image Creator', pattern: /bing image creator/i },
+    { label: 'Microsoft Designer', pattern: /microsoft designer/i },
+  ],
+  // PNG text keywords that generation front ends write their settings to
+  GENERATOR_TEXT_KEYS: {
+    parameters: 'Stable Diffusion web UI',
+    workflow: 'ComfyUI',
+    invokeai_metadata: 'InvokeAI',
+    'sd-metadata': 'InvokeAI',
+    Dream: 'InvokeAI',
+  } as Record<string, string>,
+} as const;
+
+export const METADATA_STRIP_FIELDS = {
+  GPS: 'gps', // Location coordinates
+  CAMERA: 'camera', // Make, model, serial numbers and lens
+  HISTORY: 'history', // Edit history and source documents
+} as const;
+
+export const ICC_CONFIG = {
+  // Primaries spanning more of the xy diagram than sRGB by this factor
+  WIDE_GAMUT_AREA: 1.1,
+  // Matched against the description of profiles without colorant tags
+  WIDE_GAMUT_NAMES: [
+    /display p3|dci-?p3/i,
+    /adobe ?rgb/i,
+    /prophoto|romm/i,
+    /rec\.? ?2020|bt\.? ?2020/i,
+    /wide ?gamut/i,
+    /eci ?rgb/i,
+  ],
+} as const;
+
 export const DETECTION_STATUS = {
   NO_BADGE: 'no_badge',
   BADGE_DETECTED: 'badge_detected',
@@ -64,3 +260,11 @@ export const INPAINTING_CONFIG = {
   MASK_FEATHER_RADIUS: 40, // Large feather for seamless blending into background
   MIN_OUTPUT_VARIANCE: 500, // Threshold for detecting solid-color failures
 } as const;
+
+export const DETECTION_CACHE_CONFIG = {
+  DB_NAME: 'geminot-detection-cache', // Sits next to the model cache DB
+  DB_VERSION: 1,
+  STORE_NAME: 'results',
+  FORMAT_VERSION: 1, // Bump when cached DetectionResults change shape
+  MAX_ENTRIES: 5000, // Oldest results are evicted beyond this
+} as const;
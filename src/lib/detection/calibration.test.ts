@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationError } from '@/lib/errors';
+import type { CalibrationProfile } from '@/lib/schemas';
+import {
+  applyCalibrator,
+  calibrateMatch,
+  fitCalibrationProfiles,
+  fitIsotonic,
+  fitPlatt,
+  mergeCalibrationProfiles,
+  parseCalibrationProfiles,
+  serializeCalibrationProfiles,
+} from './calibration';
+import type { BadgeMatch } from './types';
+
+// Raw scores crowd near the top: clean images still score 0.7-0.85
+const samples = [
+  ...[0.7, 0.74, 0.78, 0.8, 0.82, 0.85, 0.88].map((score) => ({
+    score,
+    scale: 1,
+    positive: false,
+  })),
+  ...[0.86, 0.9, 0.93, 0.95, 0.97, 0.99].map((score) => ({
+    score,
+    scale: 1,
+    positive: true,
+  })),
+];
+
+const match: BadgeMatch = {
+  x: 10,
+  y: 10,
+  width: 24,
+  height: 24,
+  confidence: 0.8,
+  templateId: 'badge',
+  templateLabel: 'Sparkle badge',
+  scale: 1,
+  strategy: 'template',
+};
+
+describe('calibration', () => {
+  it('fits Platt scaling that separates the classes', () => {
+    const calibrator = fitPlatt(samples);
+    expect(calibrator.method).toBe('platt');
+    expect(applyCalibrator(calibrator, 0.72)).toBeLessThan(0.2);
+    expect(applyCalibrator(calibrator, 0.98)).toBeGreaterThan(0.8);
+    expect(applyCalibrator(calibrator, 0.9)).toBeGreaterThan(
+      applyCalibrator(calibrator, 0.8)
+    );
+  });
+
+  it('fits a non-decreasing isotonic map', () => {
+    const calibrator = fitIsotonic(samples);
+    if (calibrator.method !== 'isotonic') throw new Error('wrong method');
+
+    const { probabilities } = calibrator;
+    for (let i = 1; i < probabilities.length; i++) {
+      expect(probabilities[i]).toBeGreaterThanOrEqual(probabilities[i - 1]);
+    }
+    expect(applyCalibrator(calibrator, 0.5)).toBe(0);
+    expect(applyCalibrator(calibrator, 1)).toBe(1);
+  });
+
+  it('calibrates only matches with a profile', () => {
+    const [profile] = fitCalibrationProfiles(
+      samples.map((sample) => ({
+        ...sample,
+        templateId: 'badge',
+        strategy: 'template' as const,
+      })),
+      'platt',
+      'masked'
+    );
+
+    const calibrated = calibrateMatch(match, [profile], 'masked');
+    expect(calibrated.rawConfidence).toBe(0.8);
+    expect(calibrated.confidence).toBeLessThan(0.5);
+    expect(calibrateMatch(match, [profile], 'edges')).toBe(match);
+    const other = { ...match, templateId: 'other' };
+    expect(calibrateMatch(other, [profile], 'masked')).toBe(other);
+  });
+
+  it('round-trips profiles through export and import', () => {
+    const profile: CalibrationProfile = {
+      templateId: 'badge',
+      strategy: 'features',
+      calibrator: fitIsotonic(samples),
+      samples: samples.length,
+      positives: 6,
+      fittedAt: '2026-01-01T00:00:00.000Z',
+    };
+    expect(
+      parseCalibrationProfiles(serializeCalibrationProfiles([profile]))
+    ).toEqual([profile]);
+    expect(() => parseCalibrationProfiles('{"version":1}')).toThrow(
+      ValidationError
+    );
+  });
+
+  it('lets later profiles override earlier ones', () => {
+    const base: CalibrationProfile = {
+      templateId: 'badge',
+      strategy: 'template',
+      matchMode: 'masked',
+      calibrator: { method: 'platt', slope: 1, intercept: 0, scaleSlope: 0 },
+      samples: 10,
+      positives: 5,
+      fittedAt: '2026-01-01T00:00:00.000Z',
+    };
+    const override = { ...base, samples: 20 };
+
+    expect(mergeCalibrationProfiles([base], [override])).toEqual([override]);
+    expect(
+      mergeCalibrationProfiles([base], [{ ...base, matchMode: 'edges' }])
+    ).toHaveLength(2);
+  });
+});
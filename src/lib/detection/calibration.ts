@@ -0,0 +1,324 @@
+import { DETECTION_STRATEGIES } from '@/lib/constants';
+import { ValidationError } from '@/lib/errors';
+import {
+  CalibrationProfileSetSchema,
+  type CalibrationProfile,
+  type Calibrator,
+  type MatchMode,
+  type MatchStrategy,
+} from '@/lib/schemas';
+import type { BadgeMatch } from './types';
+
+/**
+ * Confidence calibration: maps raw match scores, whose distributions differ
+ * by template, scale and strategy, onto probabilities fit from labeled
+ * samples, so thresholds mean the same thing for every template.
+ */
+
+export const CALIBRATION_PROFILE_VERSION = 1;
+
+export type CalibrationMethod = Calibrator['method'];
+
+export interface CalibrationSample {
+  score: number; // Raw match confidence
+  scale: number; // Scale of the template variant behind the score
+  positive: boolean;
+}
+
+export interface LabeledMatchScore extends CalibrationSample {
+  templateId?: string; // Unset samples count toward every template
+  strategy?: MatchStrategy; // Unset samples count toward every strategy
+}
+
+// Keeps the Newton steps well-posed when a feature barely varies
+const RIDGE = 1e-3;
+const MAX_ITERATIONS = 100;
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Solve a small dense linear system with Gaussian elimination
+ */
+function solve(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Platt scaling: logistic regression on the raw score and log2 scale,
+ * fit with Newton's method against Platt's smoothed targets
+ */
+export function fitPlatt(samples: CalibrationSample[]): Calibrator {
+  const positives = samples.filter((sample) => sample.positive).length;
+  const negatives = samples.length - positives;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+
+  const rows = samples.map((sample) => ({
+    x: [sample.score, Math.log2(sample.scale), 1],
+    target: sample.positive ? high : low,
+  }));
+  let w = [0, 0, 0];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const gradient = w.map((value, i) => (i < 2 ? RIDGE * value : 0));
+    const hessian = w.map((_, i) =>
+      w.map((__, j) => (i === j && i < 2 ? RIDGE : 0))
+    );
+
+    for (const { x, target } of rows) {
+      const p = sigmoid(x[0] * w[0] + x[1] * w[1] + x[2] * w[2]);
+      const weight = Math.max(p * (1 - p), 1e-12);
+      for (let i = 0; i < 3; i++) {
+        gradient[i] += (p - target) * x[i];
+        for (let j = 0; j < 3; j++) hessian[i][j] += weight * x[i] * x[j];
+      }
+    }
+    // The bias is unregularized; a tiny diagonal keeps it invertible
+    hessian[2][2] += 1e-12;
+
+    const step = solve(hessian, gradient);
+    w = w.map((value, i) => value - step[i]);
+    if (step.every((value) => Math.abs(value) < 1e-9)) break;
+  }
+
+  return {
+    method: 'platt',
+    slope: w[0],
+    scaleSlope: w[1],
+    intercept: w[2],
+  };
+}
+
+/**
+ * Isotonic regression with pool-adjacent-violators: a non-decreasing
+ * step function from raw score to the observed positive rate
+ */
+export function fitIsotonic(samples: CalibrationSample[]): Calibrator {
+  const sorted = [...samples].sort((a, b) => a.score - b.score);
+  const blocks: { sumScore: number; sumLabel: number; count: number }[] = [];
+
+  for (const sample of sorted) {
+    blocks.push({
+      sumScore: sample.score,
+      sumLabel: sample.positive ? 1 : 0,
+      count: 1,
+    });
+
+    // Pool with the previous block while the order is violated or the
+    // scores tie
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      const tied =
+        previous.sumScore / previous.count === last.sumScore / last.count;
+      if (
+        !tied &&
+        previous.sumLabel / previous.count <= last.sumLabel / last.count
+      ) {
+        break;
+      }
+      previous.sumScore += last.sumScore;
+      previous.sumLabel += last.sumLabel;
+      previous.count += last.count;
+      blocks.pop();
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    scores: blocks.map((block) => block.sumScore / block.count),
+    probabilities: blocks.map((block) => block.sumLabel / block.count),
+  };
+}
+
+/**
+ * Probability that a raw score at `scale` is a badge
+ */
+export function applyCalibrator(
+  calibrator: Calibrator,
+  score: number,
+  scale = 1
+): number {
+  if (calibrator.method === 'platt') {
+    return sigmoid(
+      calibrator.slope * score +
+        calibrator.scaleSlope * Math.log2(scale) +
+        calibrator.intercept
+    );
+  }
+
+  // Linear interpolation between block centres, flat beyond the ends
+  const { scores, probabilities } = calibrator;
+  if (score <= scores[0]) return probabilities[0];
+  for (let i = 1; i < scores.length; i++) {
+    if (score <= scores[i]) {
+      const t = (score - scores[i - 1]) / (scores[i] - scores[i - 1]);
+      return (
+        probabilities[i - 1] + t * (probabilities[i] - probabilities[i - 1])
+      );
+    }
+  }
+  return probabilities[probabilities.length - 1];
+}
+
+/**
+ * Fit one profile per template and strategy that has both positive and
+ * negative samples. Template profiles are tied to `matchMode`, since each
+ * mode scores on a different scale.
+ */
+export function fitCalibrationProfiles(
+  samples: LabeledMatchScore[],
+  method: CalibrationMethod,
+  matchMode: MatchMode
+): CalibrationProfile[] {
+  const templateIds = Array.from(
+    new Set(samples.flatMap((sample) => sample.templateId ?? []))
+  );
+  const strategies = Array.from(
+    new Set(samples.flatMap((sample) => sample.strategy ?? []))
+  );
+  const fittedAt = new Date().toISOString();
+  const profiles: CalibrationProfile[] = [];
+
+  for (const templateId of templateIds) {
+    for (const strategy of strategies) {
+      const group = samples.filter(
+        (sample) =>
+          (sample.templateId ?? templateId) === templateId &&
+          (sample.strategy ?? strategy) === strategy
+      );
+      const positives = group.filter((sample) => sample.positive).length;
+      if (positives === 0 || positives === group.length) continue;
+
+      profiles.push({
+        templateId,
+        strategy,
+        matchMode:
+          strategy === DETECTION_STRATEGIES.TEMPLATE ? matchMode : undefined,
+        calibrator: method === 'platt' ? fitPlatt(group) : fitIsotonic(group),
+        samples: group.length,
+        positives,
+        fittedAt,
+      });
+    }
+  }
+
+  return profiles;
+}
+
+function profileKey(profile: CalibrationProfile): string {
+  return [profile.templateId, profile.strategy, profile.matchMode ?? ''].join(
+    ':'
+  );
+}
+
+/**
+ * Profile that applies to a match, if any
+ */
+export function findCalibrationProfile(
+  profiles: CalibrationProfile[],
+  match: Pick<BadgeMatch, 'templateId' | 'strategy'>,
+  matchMode: MatchMode
+): CalibrationProfile | undefined {
+  return profiles.find(
+    (profile) =>
+      profile.templateId === match.templateId &&
+      profile.strategy === match.strategy &&
+      (profile.matchMode === undefined || profile.matchMode === matchMode)
+  );
+}
+
+/**
+ * Replace a match's confidence with its calibrated probability, keeping
+ * the raw score. Matches without a profile are returned unchanged.
+ */
+export function calibrateMatch<T extends BadgeMatch>(
+  match: T,
+  profiles: CalibrationProfile[],
+  matchMode: MatchMode
+): T {
+  const profile = findCalibrationProfile(profiles, match, matchMode);
+  if (!profile) return match;
+
+  return {
+    ...match,
+    confidence: applyCalibrator(
+      profile.calibrator,
+      match.confidence,
+      match.scale
+    ),
+    rawConfidence: match.confidence,
+  };
+}
+
+/**
+ * Combine profile lists; later lists replace profiles with the same
+ * template, strategy and match mode
+ */
+export function mergeCalibrationProfiles(
+  ...lists: CalibrationProfile[][]
+): CalibrationProfile[] {
+  const merged = new Map<string, CalibrationProfile>();
+  for (const profile of lists.flat()) {
+    merged.set(profileKey(profile), profile);
+  }
+  return Array.from(merged.values());
+}
+
+/**
+ * Parse an exported profile set
+ */
+export function parseCalibrationProfiles(json: string): CalibrationProfile[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ValidationError('Calibration file is not valid JSON');
+  }
+
+  const result = CalibrationProfileSetSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ValidationError(
+      `Invalid calibration profiles: ${result.error.issues[0]?.message}`
+    );
+  }
+  return result.data.profiles;
+}
+
+/**
+ * Serialize profiles for export or publishing as
+ * DETECTION_CONFIG.CALIBRATION_PATH
+ */
+export function serializeCalibrationProfiles(
+  profiles: CalibrationProfile[]
+): string {
+  return JSON.stringify(
+    { version: CALIBRATION_PROFILE_VERSION, profiles },
+    null,
+    2
+  );
+}
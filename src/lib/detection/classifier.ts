@@ -0,0 +1,92 @@
+import type * as Ort from 'onnxruntime-web';
+import type { ClassifierModel } from '@/lib/schemas';
+
+/**
+ * Badge presence classifier running an ONNX model through onnxruntime-web.
+ * Scores square RGBA crops already resized to the model's input size.
+ */
+export class BadgeClassifier {
+  private constructor(
+    readonly model: ClassifierModel,
+    private readonly ort: typeof Ort,
+    private readonly session: Ort.InferenceSession
+  ) {}
+
+  /**
+   * Create a classifier session from downloaded weights
+   */
+  static async create(
+    model: ClassifierModel,
+    weights: ArrayBuffer
+  ): Promise<BadgeClassifier> {
+    // Loaded on demand so scans without a classifier never fetch the runtime
+    const ort = await import('onnxruntime-web');
+    const session = await ort.InferenceSession.create(weights, {
+      executionProviders: ['wasm'],
+    });
+    return new BadgeClassifier(model, ort, session);
+  }
+
+  /**
+   * Probability that the crop contains a badge
+   */
+  async score(rgba: Uint8ClampedArray): Promise<number> {
+    const { inputSize, layout, mean, std } = this.model;
+    const pixels = inputSize * inputSize;
+
+    if (rgba.length !== pixels * 4) {
+      throw new Error(`Classifier expects a ${inputSize}x${inputSize} crop`);
+    }
+
+    const data = new Float32Array(pixels * 3);
+    for (let i = 0; i < pixels; i++) {
+      for (let c = 0; c < 3; c++) {
+        const value = (rgba[i * 4 + c] / 255 - mean[c]) / std[c];
+        data[layout === 'nchw' ? c * pixels + i : i * 3 + c] = value;
+      }
+    }
+
+    const dims =
+      layout === 'nchw'
+        ? [1, 3, inputSize, inputSize]
+        : [1, inputSize, inputSize, 3];
+    const input = new this.ort.Tensor('float32', data, dims);
+    const inputName = this.model.inputName ?? this.session.inputNames[0];
+    const outputName = this.model.outputName ?? this.session.outputNames[0];
+
+    try {
+      const outputs = await this.session.run({ [inputName]: input });
+      const output = outputs[outputName];
+      const values = Array.from(output.data as Float32Array);
+      output.dispose();
+      return this.toProbability(values);
+    } finally {
+      input.dispose();
+    }
+  }
+
+  /**
+   * Map raw model output onto a probability for the badge class
+   */
+  private toProbability(values: number[]): number {
+    const { output, positiveIndex } = this.model;
+
+    if (output === 'softmax') {
+      const max = Math.max(...values);
+      const exps = values.map((value) => Math.exp(value - max));
+      const sum = exps.reduce((acc, value) => acc + value, 0);
+      return exps[positiveIndex] / sum;
+    }
+
+    if (output === 'probability') {
+      const value = values.length > 1 ? values[positiveIndex] : values[0];
+      return Math.min(Math.max(value, 0), 1);
+    }
+
+    return 1 / (1 + Math.exp(-values[0]));
+  }
+
+  async dispose(): Promise<void> {
+    await this.session.release();
+  }
+}
@@ -0,0 +1,310 @@
+import { DETECTION_CONFIG } from '@/lib/constants';
+import type {
+  CalibrationProfile,
+  MatchMode,
+  ReviewDataset,
+} from '@/lib/schemas';
+import { fitCalibrationProfiles, type CalibrationMethod } from '../calibration';
+import type { BadgeMatcher } from '../matcher';
+import { iou } from '../nms';
+import type { BadgeMatch, DetectionOptions, DetectionOutput } from '../types';
+import type { LoadedFixture } from './fixtures';
+import {
+  areaUnderCurve,
+  metricsAt,
+  prCurve,
+  rocCurve,
+  suggestThresholds,
+  sweepThresholds,
+  type CurvePoint,
+  type ScoredSample,
+  type SuggestedThresholds,
+  type ThresholdMetrics,
+} from './metrics';
+
+export interface EvaluationOptions extends DetectionOptions {
+  targetPrecision?: number; // For the suggested CONFIDENCE_THRESHOLD
+  targetRecall?: number; // For the suggested POSSIBLE_THRESHOLD
+  localizationIou?: number; // Overlap a hit needs with the labeled box
+}
+
+export interface SampleResult extends ScoredSample {
+  file: string;
+  rawScore: number; // Score before calibration
+  localized: boolean | null; // Null when the label has no box
+  match: Pick<BadgeMatch, 'templateId' | 'strategy' | 'scale'> | null;
+  tags: Record<string, string | number>;
+}
+
+export interface TagBreakdown {
+  positives: number;
+  negatives: number;
+  recall: number; // At POSSIBLE_THRESHOLD
+  fpr: number; // At POSSIBLE_THRESHOLD
+}
+
+export interface EvaluationReport {
+  matchMode: MatchMode;
+  samples: number;
+  positives: number;
+  negatives: number;
+  rocAuc: number;
+  prAuc: number;
+  roc: CurvePoint[];
+  pr: CurvePoint[];
+  current: { confidence: ThresholdMetrics; possible: ThresholdMetrics };
+  suggested: SuggestedThresholds & {
+    targetPrecision: number;
+    targetRecall: number;
+  };
+  breakdown: Record<string, Record<string, TagBreakdown>>;
+  results: SampleResult[];
+}
+
+/**
+ * Score one detection against its label. A labeled box must overlap the
+ * hit, so a confident match in the wrong place counts as a miss.
+ */
+function scoreOutput(
+  output: DetectionOutput,
+  fixture: LoadedFixture,
+  localizationIou: number
+): { match: BadgeMatch | null; localized: boolean | null } {
+  const candidates: BadgeMatch[] = [
+    ...output.hits,
+    ...output.regions.flatMap(({ match }) => (match ? [match] : [])),
+  ];
+  const { box } = fixture.sample;
+
+  const strongest = (matches: BadgeMatch[]) =>
+    matches.reduce<BadgeMatch | null>(
+      (best, match) =>
+        !best || match.confidence > best.confidence ? match : best,
+      null
+    );
+
+  if (fixture.sample.badge && box) {
+    const localized = candidates.filter(
+      (candidate) => iou(candidate, box) >= localizationIou
+    );
+    return { match: strongest(localized), localized: localized.length > 0 };
+  }
+
+  return { match: strongest(candidates), localized: null };
+}
+
+function breakdownByTag(
+  results: SampleResult[]
+): Record<string, Record<string, TagBreakdown>> {
+  const groups = new Map<string, Map<string, SampleResult[]>>();
+
+  for (const result of results) {
+    for (const [tag, value] of Object.entries(result.tags)) {
+      const byValue = groups.get(tag) ?? new Map<string, SampleResult[]>();
+      const key = String(value);
+      byValue.set(key, [...(byValue.get(key) ?? []), result]);
+      groups.set(tag, byValue);
+    }
+  }
+
+  const breakdown: Record<string, Record<string, TagBreakdown>> = {};
+  groups.forEach((byValue, tag) => {
+    breakdown[tag] = {};
+    byValue.forEach((group, value) => {
+      const metrics = metricsAt(group, DETECTION_CONFIG.POSSIBLE_THRESHOLD);
+      breakdown[tag][value] = {
+        positives: metrics.tp + metrics.fn,
+        negatives: metrics.fp + metrics.tn,
+        recall: metrics.recall,
+        fpr: metrics.fpr,
+      };
+    });
+  });
+
+  return breakdown;
+}
+
+/**
+ * Run the matcher over labeled fixtures and report precision, recall,
+ * ROC/PR curves and suggested thresholds
+ */
+export async function evaluateMatcher(
+  matcher: BadgeMatcher,
+  fixtures: LoadedFixture[],
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const {
+    targetPrecision = 0.95,
+    targetRecall = 0.95,
+    localizationIou = 0.3,
+    ...detectionOptions
+  } = options;
+
+  const results: SampleResult[] = [];
+  for (const fixture of fixtures) {
+    const output = await matcher.detect(fixture.image, detectionOptions);
+    const { match, localized } = scoreOutput(output, fixture, localizationIou);
+
+    results.push({
+      file: fixture.sample.file,
+      positive: fixture.sample.badge,
+      score: match?.confidence ?? 0,
+      rawScore: match?.rawConfidence ?? match?.confidence ?? 0,
+      localized,
+      match: match
+        ? {
+            templateId: match.templateId,
+            strategy: match.strategy,
+            scale: match.scale,
+          }
+        : null,
+      tags: fixture.sample.tags ?? {},
+    });
+  }
+
+  return buildReport(
+    results,
+    detectionOptions.matchMode ?? DETECTION_CONFIG.MATCH_MODE,
+    targetPrecision,
+    targetRecall
+  );
+}
+
+/**
+ * Evaluate the scores recorded in an exported review dataset, so reviewer
+ * corrections can tune the thresholds without the original images
+ */
+export function evaluateReviews(
+  dataset: ReviewDataset,
+  options: Pick<EvaluationOptions, 'targetPrecision' | 'targetRecall'> = {}
+): EvaluationReport {
+  const { targetPrecision = 0.95, targetRecall = 0.95 } = options;
+
+  const results: SampleResult[] = dataset.samples.map((sample) => ({
+    file: sample.fileName,
+    positive: sample.badge,
+    score: sample.confidence,
+    rawScore: sample.rawConfidence ?? sample.confidence,
+    localized: null,
+    match:
+      sample.templateId && sample.strategy
+        ? {
+            templateId: sample.templateId,
+            strategy: sample.strategy,
+            scale: sample.scale ?? 1,
+          }
+        : null,
+    tags: { verdict: sample.verdict, reviewer: sample.reviewer },
+  }));
+
+  return buildReport(
+    results,
+    DETECTION_CONFIG.MATCH_MODE,
+    targetPrecision,
+    targetRecall
+  );
+}
+
+function buildReport(
+  results: SampleResult[],
+  matchMode: MatchMode,
+  targetPrecision: number,
+  targetRecall: number
+): EvaluationReport {
+  const sweep = sweepThresholds(results);
+  const roc = rocCurve(sweep);
+  const pr = prCurve(sweep);
+
+  return {
+    matchMode,
+    samples: results.length,
+    positives: results.filter((result) => result.positive).length,
+    negatives: results.filter((result) => !result.positive).length,
+    rocAuc: areaUnderCurve(roc),
+    prAuc: areaUnderCurve(pr),
+    roc,
+    pr,
+    current: {
+      confidence: metricsAt(results, DETECTION_CONFIG.CONFIDENCE_THRESHOLD),
+      possible: metricsAt(results, DETECTION_CONFIG.POSSIBLE_THRESHOLD),
+    },
+    suggested: {
+      ...suggestThresholds(sweep, targetPrecision, targetRecall),
+      targetPrecision,
+      targetRecall,
+    },
+    breakdown: breakdownByTag(results),
+    results,
+  };
+}
+
+/**
+ * Fit calibration profiles from a report's raw scores. Samples without a
+ * match (score 0) count toward every template and strategy, or toward the
+ * labeled template when the fixture names one.
+ */
+export function fitReportCalibration(
+  report: EvaluationReport,
+  method: CalibrationMethod,
+  fixtures: LoadedFixture[] = []
+): CalibrationProfile[] {
+  const labeled = new Map(
+    fixtures.map(({ sample }) => [sample.file, sample.templateId])
+  );
+
+  return fitCalibrationProfiles(
+    report.results.map((result) => ({
+      score: result.rawScore,
+      scale: result.match?.scale ?? 1,
+      positive: result.positive,
+      templateId: result.match?.templateId ?? labeled.get(result.file),
+      strategy: result.match?.strategy,
+    })),
+    method,
+    report.matchMode
+  );
+}
+
+function formatMetrics(
+  label: string,
+  metrics: ThresholdMetrics | null
+): string {
+  if (!metrics) return `${label}: no threshold meets the target`;
+  return (
+    `${label}: threshold ${metrics.threshold.toFixed(3)}  ` +
+    `precision ${metrics.precision.toFixed(3)}  recall ${metrics.recall.toFixed(3)}  ` +
+    `fpr ${metrics.fpr.toFixed(3)}  (tp ${metrics.tp} fp ${metrics.fp} tn ${metrics.tn} fn ${metrics.fn})`
+  );
+}
+
+/**
+ * Plain-text summary of a report for test output
+ */
+export function formatReport(report: EvaluationReport): string {
+  const lines = [
+    `Samples: ${report.samples} (${report.positives} badge, ${report.negatives} clean)`,
+    `ROC AUC ${report.rocAuc.toFixed(3)}  PR AUC ${report.prAuc.toFixed(3)}`,
+    formatMetrics('Current CONFIDENCE_THRESHOLD', report.current.confidence),
+    formatMetrics('Current POSSIBLE_THRESHOLD', report.current.possible),
+    formatMetrics(
+      `Suggested CONFIDENCE_THRESHOLD (precision >= ${report.suggested.targetPrecision})`,
+      report.suggested.confidence
+    ),
+    formatMetrics(
+      `Suggested POSSIBLE_THRESHOLD (recall >= ${report.suggested.targetRecall})`,
+      report.suggested.possible
+    ),
+  ];
+
+  for (const [tag, values] of Object.entries(report.breakdown)) {
+    lines.push(`By ${tag}:`);
+    for (const [value, entry] of Object.entries(values)) {
+      lines.push(
+        `  ${value}: ${entry.positives} badge, ${entry.negatives} clean, ` +
+          `recall ${entry.recall.toFixed(2)}, fpr ${entry.fpr.toFixed(2)}`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,279 @@
+// @vitest-environment node
+import { existsSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  ReviewDatasetSchema,
+  type CalibrationProfile,
+  type ReviewSample,
+} from '@/lib/schemas';
+import type { BadgeMatcher, ImageDataLike } from '../matcher';
+import { serializeCalibrationProfiles } from '../calibration';
+import { createNodeMatcher, loadOpenCV, readImage } from '../node';
+import {
+  evaluateMatcher,
+  evaluateReviews,
+  fitReportCalibration,
+  formatReport,
+  type EvaluationReport,
+} from './evaluate';
+import { readFixtureSet, writeFixtureSet } from './fixtures';
+import {
+  areaUnderCurve,
+  metricsAt,
+  rocCurve,
+  suggestThresholds,
+  sweepThresholds,
+} from './metrics';
+import { synthesizeFixtures } from './synthesize';
+
+const ROOT_DIR = path.resolve(__dirname, '../../../..');
+const PUBLIC_DIR = path.join(ROOT_DIR, 'public');
+// Labeled real-world images; see "Detection evaluation" in the README
+const FIXTURE_DIR =
+  process.env.DETECTION_FIXTURES ?? path.join(ROOT_DIR, 'fixtures/detection');
+// Optional outputs: JSON reports with fitted calibration profiles, and the
+// synthesized set for inspection
+const REPORT_DIR = process.env.DETECTION_REPORT_DIR;
+const SYNTHESIZE_DIR = process.env.DETECTION_SYNTHESIZE_DIR;
+// Reviewer verdicts exported from the app
+const REVIEWS_PATH = process.env.DETECTION_REVIEWS;
+
+async function publish(name: string, report: EvaluationReport): Promise<void> {
+  console.info(`\n[${name}]\n${formatReport(report)}`);
+  if (REPORT_DIR) {
+    await writeFile(
+      path.join(REPORT_DIR, `${name}.json`),
+      JSON.stringify(report, null, 2)
+    );
+  }
+}
+
+async function publishCalibration(
+  name: string,
+  profiles: CalibrationProfile[]
+): Promise<void> {
+  if (REPORT_DIR) {
+    await writeFile(
+      path.join(REPORT_DIR, `${name}-calibration.json`),
+      serializeCalibrationProfiles(profiles)
+    );
+  }
+}
+
+describe('metrics', () => {
+  const samples = [
+    { score: 0.9, positive: true },
+    { score: 0.8, positive: true },
+    { score: 0.6, positive: false },
+    { score: 0.4, positive: true },
+    { score: 0.1, positive: false },
+  ];
+
+  it('counts outcomes at a threshold', () => {
+    const metrics = metricsAt(samples, 0.5);
+    expect(metrics).toMatchObject({ tp: 2, fp: 1, tn: 1, fn: 1 });
+    expect(metrics.precision).toBeCloseTo(2 / 3);
+    expect(metrics.recall).toBeCloseTo(2 / 3);
+    expect(metrics.fpr).toBeCloseTo(0.5);
+  });
+
+  it('computes ROC AUC', () => {
+    const separated = [
+      { score: 0.9, positive: true },
+      { score: 0.1, positive: false },
+    ];
+    expect(areaUnderCurve(rocCurve(sweepThresholds(separated)))).toBe(1);
+    expect(areaUnderCurve(rocCurve(sweepThresholds(samples)))).toBeCloseTo(
+      5 / 6
+    );
+  });
+
+  it('suggests thresholds for target precision and recall', () => {
+    const { confidence, possible } = suggestThresholds(
+      sweepThresholds(samples),
+      1,
+      1
+    );
+    expect(confidence?.threshold).toBe(0.8);
+    expect(possible?.threshold).toBe(0.4);
+  });
+});
+
+describe('review datasets', () => {
+  const review = (
+    confidence: number,
+    verdict: ReviewSample['verdict']
+  ): ReviewSample => ({
+    fileHash: `hash-${confidence}`,
+    fileName: `${confidence}.png`,
+    width: 100,
+    height: 100,
+    verdict,
+    badge: verdict !== 'false_positive',
+    confidence,
+    reason: 'checked',
+    reviewer: 'qa',
+    reviewedAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  it('suggests thresholds from reviewer verdicts', () => {
+    const report = evaluateReviews({
+      version: 1,
+      exportedAt: '2026-01-01T00:00:00.000Z',
+      samples: [
+        review(0.95, 'confirmed'),
+        review(0.9, 'needs_replacement'),
+        review(0.75, 'false_positive'),
+        review(0.6, 'false_positive'),
+      ],
+    });
+
+    expect(report.positives).toBe(2);
+    expect(report.current.confidence.fp).toBe(1);
+    expect(report.suggested.confidence?.threshold).toBe(0.9);
+    expect(report.breakdown.verdict.false_positive.negatives).toBe(2);
+  });
+
+  it.skipIf(!REVIEWS_PATH)('evaluates exported reviews', async () => {
+    const dataset = ReviewDatasetSchema.parse(
+      JSON.parse(await readFile(REVIEWS_PATH!, 'utf8'))
+    );
+    const report = evaluateReviews(dataset);
+    await publish('reviews', report);
+    await publishCalibration('reviews', fitReportCalibration(report, 'platt'));
+
+    expect(report.samples).toBe(dataset.samples.length);
+  });
+});
+
+describe('detection evaluation', () => {
+  let cv: any;
+  let matcher: BadgeMatcher;
+  let template: ImageDataLike;
+
+  beforeAll(async () => {
+    // The matcher logs every region it searches
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    cv = await loadOpenCV();
+    matcher = await createNodeMatcher(PUBLIC_DIR);
+    template = await readImage(path.join(PUBLIC_DIR, 'templates/badge.png'));
+  }, 120_000);
+
+  afterAll(() => {
+    matcher?.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('synthesizes reproducible, labeled fixtures', () => {
+    const options = { count: 6, width: 320, height: 240, seed: 3 };
+    const first = synthesizeFixtures(cv, template, options);
+    const second = synthesizeFixtures(cv, template, options);
+
+    expect(first.map((fixture) => fixture.sample)).toEqual(
+      second.map((fixture) => fixture.sample)
+    );
+    for (const { sample, image } of first) {
+      expect(image.width).toBe(320);
+      expect(image.height).toBe(240);
+      if (sample.badge) {
+        expect(sample.box).toBeDefined();
+        expect(sample.box!.x + sample.box!.width).toBeLessThanOrEqual(320);
+        expect(sample.box!.y + sample.box!.height).toBeLessThanOrEqual(240);
+      }
+    }
+  });
+
+  it('explains a hit with a response map peaking on its box', async () => {
+    const [fixture] = synthesizeFixtures(cv, template, {
+      count: 1,
+      positiveRate: 1,
+      sizes: [48],
+      qualities: [null],
+      seed: 5,
+    });
+    const output = await matcher.detect(fixture.image, { explain: true });
+    const explanation = output.explanation!;
+    const { heatmap } = explanation;
+
+    expect(explanation.box).toEqual({
+      x: output.match!.x,
+      y: output.match!.y,
+      width: output.match!.width,
+      height: output.match!.height,
+    });
+    expect(heatmap!.values).toHaveLength(heatmap!.width * heatmap!.height);
+
+    // Hottest cell, mapped back to full-image pixels
+    const peak = heatmap!.values.indexOf(Math.max(...heatmap!.values));
+    const x =
+      heatmap!.box.x +
+      ((peak % heatmap!.width) + 0.5) * (heatmap!.box.width / heatmap!.width);
+    const y =
+      heatmap!.box.y +
+      (Math.floor(peak / heatmap!.width) + 0.5) *
+        (heatmap!.box.height / heatmap!.height);
+    const box = fixture.sample.box!;
+    expect(x).toBeGreaterThanOrEqual(box.x);
+    expect(x).toBeLessThanOrEqual(box.x + box.width);
+    expect(y).toBeGreaterThanOrEqual(box.y);
+    expect(y).toBeLessThanOrEqual(box.y + box.height);
+  });
+
+  it('separates synthesized badges from clean images', async () => {
+    const fixtures = synthesizeFixtures(cv, template, { count: 60, seed: 7 });
+    if (SYNTHESIZE_DIR) {
+      await writeFixtureSet(SYNTHESIZE_DIR, fixtures);
+    }
+
+    const report = await evaluateMatcher(matcher, fixtures);
+    await publish('synthetic', report);
+
+    expect(report.positives).toBeGreaterThan(0);
+    expect(report.negatives).toBeGreaterThan(0);
+    expect(report.rocAuc).toBeGreaterThan(0.9);
+    // Ranking alone misses a mode whose raw scores clear the threshold on
+    // any image, so check the shipped threshold too
+    expect(report.current.confidence.precision).toBeGreaterThan(0.9);
+    expect(report.current.confidence.fpr).toBeLessThan(0.1);
+  }, 600_000);
+
+  it('calibrates scores into probabilities on held-out fixtures', async () => {
+    const training = synthesizeFixtures(cv, template, { count: 60, seed: 7 });
+    const heldOut = synthesizeFixtures(cv, template, { count: 40, seed: 11 });
+
+    const trained = await evaluateMatcher(matcher, training);
+    const calibration = fitReportCalibration(trained, 'platt', training);
+    expect(calibration.length).toBeGreaterThan(0);
+    await publishCalibration('synthetic', calibration);
+
+    const raw = await evaluateMatcher(matcher, heldOut);
+    const calibrated = await evaluateMatcher(matcher, heldOut, {
+      calibration,
+    });
+    await publish('calibrated', calibrated);
+
+    // Same ranking, but "possible" now means a probability of a badge
+    expect(calibrated.rocAuc).toBeGreaterThan(0.9);
+    expect(calibrated.current.possible.fpr).toBeLessThan(
+      raw.current.possible.fpr
+    );
+  }, 600_000);
+
+  it.skipIf(!existsSync(path.join(FIXTURE_DIR, 'labels.json')))(
+    'evaluates the labeled fixture set',
+    async () => {
+      const fixtures = await readFixtureSet(FIXTURE_DIR);
+      const report = await evaluateMatcher(matcher, fixtures);
+      await publish('fixtures', report);
+      await publishCalibration(
+        'fixtures',
+        fitReportCalibration(report, 'platt', fixtures)
+      );
+
+      expect(report.samples).toBe(fixtures.length);
+    },
+    600_000
+  );
+});
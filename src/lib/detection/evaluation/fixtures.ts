@@ -0,0 +1,52 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { FixtureSetSchema, type FixtureSample } from '@/lib/schemas';
+import type { ImageDataLike } from '../matcher';
+import { readImage } from '../node';
+import type { SyntheticFixture } from './synthesize';
+
+export const FIXTURE_LABELS_FILE = 'labels.json';
+
+export interface LoadedFixture {
+  sample: FixtureSample;
+  image: ImageDataLike;
+}
+
+/**
+ * Read a labeled fixture directory: `labels.json` plus the images it lists
+ */
+export async function readFixtureSet(dir: string): Promise<LoadedFixture[]> {
+  const labels = FixtureSetSchema.parse(
+    JSON.parse(await readFile(path.join(dir, FIXTURE_LABELS_FILE), 'utf8'))
+  );
+
+  return Promise.all(
+    labels.samples.map(async (sample) => ({
+      sample,
+      image: await readImage(path.join(dir, sample.file)),
+    }))
+  );
+}
+
+/**
+ * Write synthesized fixtures and their labels to a directory
+ */
+export async function writeFixtureSet(
+  dir: string,
+  fixtures: SyntheticFixture[]
+): Promise<void> {
+  await mkdir(dir, { recursive: true });
+
+  for (const fixture of fixtures) {
+    await writeFile(path.join(dir, fixture.sample.file), fixture.bytes);
+  }
+
+  await writeFile(
+    path.join(dir, FIXTURE_LABELS_FILE),
+    JSON.stringify(
+      { version: 1, samples: fixtures.map((fixture) => fixture.sample) },
+      null,
+      2
+    ) + '\n'
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Binary classification metrics over scored samples
+ */
+
+export interface ScoredSample {
+  score: number; // Detection confidence, 0 when nothing was found
+  positive: boolean; // Ground truth: the image carries a badge
+}
+
+export interface ThresholdMetrics {
+  threshold: number;
+  tp: number;
+  fp: number;
+  tn: number;
+  fn: number;
+  precision: number;
+  recall: number; // True positive rate
+  fpr: number; // False positive rate
+  f1: number;
+}
+
+export interface CurvePoint {
+  threshold: number;
+  x: number;
+  y: number;
+}
+
+export interface SuggestedThresholds {
+  confidence: ThresholdMetrics | null; // Lowest threshold meeting precision
+  possible: ThresholdMetrics | null; // Highest threshold meeting recall
+}
+
+/**
+ * Counts and rates when scores at or above `threshold` are flagged
+ */
+export function metricsAt(
+  samples: ScoredSample[],
+  threshold: number
+): ThresholdMetrics {
+  let tp = 0;
+  let fp = 0;
+  let tn = 0;
+  let fn = 0;
+
+  for (const sample of samples) {
+    const flagged = sample.score >= threshold;
+    if (sample.positive) {
+      if (flagged) tp++;
+      else fn++;
+    } else if (flagged) {
+      fp++;
+    } else {
+      tn++;
+    }
+  }
+
+  // An empty prediction set is treated as perfectly precise
+  const precision = tp + fp === 0 ? 1 : tp / (tp + fp);
+  const recall = tp + fn === 0 ? 0 : tp / (tp + fn);
+  const fpr = fp + tn === 0 ? 0 : fp / (fp + tn);
+  const f1 =
+    precision + recall === 0
+      ? 0
+      : (2 * precision * recall) / (precision + recall);
+
+  return { threshold, tp, fp, tn, fn, precision, recall, fpr, f1 };
+}
+
+/**
+ * Metrics at every distinct score, highest threshold first
+ */
+export function sweepThresholds(samples: ScoredSample[]): ThresholdMetrics[] {
+  const thresholds = Array.from(
+    new Set(samples.map((sample) => sample.score))
+  ).sort((a, b) => b - a);
+
+  return [Infinity, ...thresholds].map((threshold) =>
+    metricsAt(samples, threshold)
+  );
+}
+
+/**
+ * ROC curve: false positive rate (x) against recall (y)
+ */
+export function rocCurve(sweep: ThresholdMetrics[]): CurvePoint[] {
+  return sweep.map((point) => ({
+    threshold: point.threshold,
+    x: point.fpr,
+    y: point.recall,
+  }));
+}
+
+/**
+ * Precision-recall curve: recall (x) against precision (y)
+ */
+export function prCurve(sweep: ThresholdMetrics[]): CurvePoint[] {
+  return sweep.map((point) => ({
+    threshold: point.threshold,
+    x: point.recall,
+    y: point.precision,
+  }));
+}
+
+/**
+ * Trapezoidal area under a curve whose x values never decrease
+ */
+export function areaUnderCurve(curve: CurvePoint[]): number {
+  let area = 0;
+  for (let i = 1; i < curve.length; i++) {
+    area += ((curve[i].x - curve[i - 1].x) * (curve[i].y + curve[i - 1].y)) / 2;
+  }
+  return area;
+}
+
+/**
+ * Suggest a "detected" threshold that keeps precision at or above
+ * `targetPrecision` with the most recall, and a "possible" threshold that
+ * keeps recall at or above `targetRecall` with the fewest false positives
+ */
+export function suggestThresholds(
+  sweep: ThresholdMetrics[],
+  targetPrecision: number,
+  targetRecall: number
+): SuggestedThresholds {
+  const finite = sweep.filter((point) => Number.isFinite(point.threshold));
+
+  const precise = finite.filter(
+    (point) => point.tp > 0 && point.precision >= targetPrecision
+  );
+  const confidence =
+    precise.length > 0
+      ? precise.reduce((best, point) =>
+          point.recall > best.recall ||
+          (point.recall === best.recall && point.threshold > best.threshold)
+            ? point
+            : best
+        )
+      : null;
+
+  const sensitive = finite.filter((point) => point.recall >= targetRecall);
+  const possible =
+    sensitive.length > 0
+      ? sensitive.reduce((best, point) =>
+          point.threshold > best.threshold ? point : best
+        )
+      : null;
+
+  return { confidence, possible };
+}
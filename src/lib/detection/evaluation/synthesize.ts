@@ -0,0 +1,320 @@
+import type { FixtureSample } from '@/lib/schemas';
+import type { ImageDataLike } from '../matcher';
+import { decodeImage, encodeJpeg, encodePng } from '../node';
+
+export type BackgroundKind =
+  'solid' | 'gradient' | 'noise' | 'texture' | 'photo';
+
+export type BadgePosition = 'bottom-right' | 'corner' | 'anywhere';
+
+export interface SynthesizeOptions {
+  count: number;
+  width?: number;
+  height?: number;
+  backgrounds?: BackgroundKind[];
+  sizes?: number[]; // Badge sizes in pixels (longer side)
+  qualities?: (number | null)[]; // JPEG qualities; null keeps a lossless PNG
+  positions?: BadgePosition[];
+  positiveRate?: number; // Share of samples carrying a badge
+  distractorRate?: number; // Share of clean samples given a star-shaped decoy
+  seed?: number;
+}
+
+export interface SyntheticFixture {
+  sample: FixtureSample;
+  image: ImageDataLike; // Decoded pixels, including any JPEG artifacts
+  bytes: Uint8Array; // Encoded file contents
+}
+
+type Random = () => number;
+
+/**
+ * Deterministic PRNG so fixture sets are reproducible from a seed
+ */
+function mulberry32(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: Random, values: readonly T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function randomColor(random: Random): [number, number, number] {
+  return [random() * 255, random() * 255, random() * 255];
+}
+
+/**
+ * Paint a procedural background into an RGBA buffer
+ */
+function paintBackground(
+  kind: BackgroundKind,
+  width: number,
+  height: number,
+  random: Random
+): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const base = randomColor(random);
+  const accent = randomColor(random);
+  const angle = random() * Math.PI * 2;
+  const [dx, dy] = [Math.cos(angle), Math.sin(angle)];
+  const frequency = 0.01 + random() * 0.08;
+  const blobs = Array.from({ length: 12 }, () => ({
+    x: random() * width,
+    y: random() * height,
+    radius: (0.05 + random() * 0.25) * Math.max(width, height),
+    color: randomColor(random),
+  }));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let color: number[] = base;
+
+      if (kind === 'gradient' || kind === 'photo') {
+        const t = Math.min(
+          Math.max((x * dx + y * dy) / Math.hypot(width, height) + 0.5, 0),
+          1
+        );
+        color = base.map((value, c) => value + (accent[c] - value) * t);
+      }
+
+      if (kind === 'photo') {
+        // Soft overlapping blobs stand in for photographic content
+        for (const blob of blobs) {
+          const distance = Math.hypot(x - blob.x, y - blob.y) / blob.radius;
+          if (distance < 1) {
+            const weight = (1 - distance) * (1 - distance);
+            color = color.map(
+              (value, c) => value + (blob.color[c] - value) * weight
+            );
+          }
+        }
+      }
+
+      if (kind === 'texture') {
+        const wave = Math.sin((x * dx + y * dy) * frequency * Math.PI * 2);
+        color = base.map(
+          (value, c) => value + (accent[c] - value) * (wave + 1) * 0.5
+        );
+      }
+
+      const noise = kind === 'noise' ? 40 : kind === 'photo' ? 6 : 0;
+      const offset = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        data[offset + c] = color[c] + (random() - 0.5) * 2 * noise;
+      }
+      data[offset + 3] = 255;
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Alpha-blend an RGBA image onto the canvas at (left, top)
+ */
+function composite(
+  canvas: ImageDataLike,
+  overlay: ImageDataLike,
+  left: number,
+  top: number,
+  opacity: number
+): void {
+  for (let y = 0; y < overlay.height; y++) {
+    for (let x = 0; x < overlay.width; x++) {
+      const cx = left + x;
+      const cy = top + y;
+      if (cx < 0 || cy < 0 || cx >= canvas.width || cy >= canvas.height) {
+        continue;
+      }
+
+      const source = (y * overlay.width + x) * 4;
+      const target = (cy * canvas.width + cx) * 4;
+      const alpha = (overlay.data[source + 3] / 255) * opacity;
+      for (let c = 0; c < 3; c++) {
+        canvas.data[target + c] =
+          overlay.data[source + c] * alpha +
+          canvas.data[target + c] * (1 - alpha);
+      }
+    }
+  }
+}
+
+/**
+ * Resize the template so its longer side is `size`
+ */
+function resizeTemplate(
+  cv: any,
+  template: ImageDataLike,
+  size: number
+): ImageDataLike {
+  const ratio = size / Math.max(template.width, template.height);
+  const width = Math.max(1, Math.round(template.width * ratio));
+  const height = Math.max(1, Math.round(template.height * ratio));
+
+  const source = cv.matFromImageData(template);
+  const resized = new cv.Mat();
+  try {
+    cv.resize(source, resized, new cv.Size(width, height), 0, 0, cv.INTER_AREA);
+    return { data: new Uint8ClampedArray(resized.data), width, height };
+  } finally {
+    source.delete();
+    resized.delete();
+  }
+}
+
+/**
+ * Five-point star, a common logo shape that template matching can confuse
+ * with the sparkle badge
+ */
+function drawDecoy(size: number, random: Random): ImageDataLike {
+  const data = new Uint8ClampedArray(size * size * 4);
+  const color = randomColor(random);
+  const points = Array.from({ length: 10 }, (_, i) => {
+    const radius = (i % 2 === 0 ? 0.5 : 0.2) * size;
+    const angle = (i * Math.PI) / 5 - Math.PI / 2;
+    return [
+      size / 2 + radius * Math.cos(angle),
+      size / 2 + radius * Math.sin(angle),
+    ];
+  });
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      // Even-odd point-in-polygon test
+      let inside = false;
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const [xi, yi] = points[i];
+        const [xj, yj] = points[j];
+        if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+          inside = !inside;
+        }
+      }
+      if (inside) {
+        const offset = (y * size + x) * 4;
+        data.set([color[0], color[1], color[2], 255], offset);
+      }
+    }
+  }
+
+  return { data, width: size, height: size };
+}
+
+function placement(
+  position: BadgePosition,
+  width: number,
+  height: number,
+  overlay: ImageDataLike,
+  random: Random
+): { left: number; top: number } {
+  if (position === 'anywhere') {
+    return {
+      left: Math.floor(random() * (width - overlay.width)),
+      top: Math.floor(random() * (height - overlay.height)),
+    };
+  }
+
+  // Generators inset the badge from the corner by a fraction of its size
+  const margin = Math.round(
+    Math.max(overlay.width, overlay.height) * (0.25 + random() * 0.75)
+  );
+  const corner =
+    position === 'corner'
+      ? pick(random, ['top-left', 'top-right', 'bottom-left', 'bottom-right'])
+      : 'bottom-right';
+
+  return {
+    left: corner.endsWith('left') ? margin : width - overlay.width - margin,
+    top: corner.startsWith('top') ? margin : height - overlay.height - margin,
+  };
+}
+
+/**
+ * Build a labeled fixture set by compositing the template onto procedural
+ * backgrounds at varied sizes, positions, opacities and JPEG qualities
+ */
+export function synthesizeFixtures(
+  cv: any,
+  template: ImageDataLike,
+  options: SynthesizeOptions
+): SyntheticFixture[] {
+  const {
+    count,
+    width = 1024,
+    height = 768,
+    backgrounds = ['solid', 'gradient', 'noise', 'texture', 'photo'],
+    sizes = [16, 24, 32, 48],
+    qualities = [null, 95, 85, 70, 50],
+    positions = ['bottom-right'],
+    positiveRate = 0.5,
+    distractorRate = 0.3,
+    seed = 1,
+  } = options;
+
+  const random = mulberry32(seed);
+  const resized = new Map<number, ImageDataLike>();
+  const fixtures: SyntheticFixture[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const background = pick(random, backgrounds);
+    const quality = pick(random, qualities);
+    const badge = random() < positiveRate;
+    const size = pick(random, sizes);
+    const position = pick(random, positions);
+
+    const canvas: ImageDataLike = {
+      data: paintBackground(background, width, height, random),
+      width,
+      height,
+    };
+    const tags: Record<string, string | number> = {
+      background,
+      quality: quality ?? 'png',
+      position,
+    };
+    let box: FixtureSample['box'];
+
+    if (badge) {
+      if (!resized.has(size)) {
+        resized.set(size, resizeTemplate(cv, template, size));
+      }
+      const overlay = resized.get(size)!;
+      const opacity = 0.6 + random() * 0.4;
+      const { left, top } = placement(position, width, height, overlay, random);
+
+      composite(canvas, overlay, left, top, opacity);
+      box = { x: left, y: top, width: overlay.width, height: overlay.height };
+      tags.size = size;
+      tags.opacity = Math.round(opacity * 10) / 10;
+    } else if (random() < distractorRate) {
+      const decoy = drawDecoy(size, random);
+      const { left, top } = placement(position, width, height, decoy, random);
+      composite(canvas, decoy, left, top, 1);
+      tags.size = size;
+      tags.decoy = 'star';
+    }
+
+    const extension = quality === null ? 'png' : 'jpg';
+    const bytes =
+      quality === null ? encodePng(canvas) : encodeJpeg(canvas, quality);
+
+    fixtures.push({
+      sample: {
+        file: `${String(index).padStart(4, '0')}-${badge ? 'badge' : 'clean'}-${background}.${extension}`,
+        badge,
+        box,
+        tags,
+      },
+      image: quality === null ? canvas : decodeImage(bytes),
+      bytes,
+    });
+  }
+
+  return fixtures;
+}
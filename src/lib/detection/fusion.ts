@@ -0,0 +1,30 @@
+import type { FusionWeights } from '@/lib/schemas';
+
+const EPSILON = 1e-4;
+
+function logit(p: number): number {
+  const clamped = Math.min(Math.max(p, EPSILON), 1 - EPSILON);
+  return Math.log(clamped / (1 - clamped));
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Fuse a match score and a classifier score into one probability.
+ * Weights come from the classifier's registry entry; with the defaults two
+ * agreeing scores reinforce each other and a confident "no" pulls the
+ * result down.
+ */
+export function fuseConfidence(
+  matchConfidence: number,
+  classifierScore: number,
+  weights: FusionWeights
+): number {
+  return sigmoid(
+    weights.bias +
+      weights.matchWeight * logit(matchConfidence) +
+      weights.classifierWeight * logit(classifierScore)
+  );
+}
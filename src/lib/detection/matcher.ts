@@ -0,0 +1,1306 @@
+import {
+  DETECTION_CONFIG,
+  DETECTION_STRATEGIES,
+  MATCH_MODES,
+} from '@/lib/constants';
+import type {
+  DetectionExplanation,
+  MatchMode,
+  TemplateEntry,
+} from '@/lib/schemas';
+import { getRegionName, resolveRegion, type PixelRect } from './regions';
+import { nonMaxSuppression } from './nms';
+import { fuseConfidence } from './fusion';
+import { calibrateMatch } from './calibration';
+import type { BadgeClassifier } from './classifier';
+import type {
+  BadgeHit,
+  BadgeMatch,
+  DetectionOptions,
+  DetectionOutput,
+  RegionBadgeMatch,
+  TemplateInfo,
+} from './types';
+
+/** Pixels in ImageData layout; ImageData itself in browsers */
+export interface ImageDataLike {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** Loads template images by URL or path */
+export type ImageLoader = (url: string) => Promise<ImageDataLike>;
+
+/** Where the matcher sends progress and failures; `console` by default */
+export type MatcherLogger = Pick<Console, 'info' | 'warn' | 'error'>;
+
+interface TemplateVariant {
+  mat: any; // cv.Mat (grayscale, transparent pixels composited onto black)
+  mask: any; // cv.Mat (8-bit, 255 where the badge is)
+  nativeSize: number | null; // Null for the base image, matched across SCALES
+}
+
+interface MatchPeak {
+  x: number;
+  y: number;
+  confidence: number;
+}
+
+interface TemplateFeatures {
+  keypoints: any; // cv.KeyPointVector
+  descriptors: any; // cv.Mat (binary descriptors)
+  corners: number[]; // Template outline in keypoint coordinates
+  width: number; // Template size before resizing for keypoints
+  height: number;
+}
+
+interface TemplateImage {
+  gray: any;
+  mask: any;
+}
+
+interface LoadedTemplate {
+  info: TemplateInfo;
+  variants: TemplateVariant[];
+  features: TemplateFeatures | null; // Null when too few keypoints were found
+}
+
+// Used when no manifest is published next to the templates
+export const DEFAULT_TEMPLATE: TemplateEntry = {
+  id: 'badge',
+  label: 'Sparkle badge',
+  vendor: 'Generic',
+  basePath: DETECTION_CONFIG.TEMPLATE_BASE_PATH,
+  sizes: [...DETECTION_CONFIG.TEMPLATE_SIZES],
+  sizedFiles: false,
+};
+
+// Keeps keypoints near the template edge from losing their descriptor patch
+const FEATURE_PADDING = 16;
+
+function strongest(matches: BadgeMatch[]): BadgeMatch | null {
+  return matches.reduce<BadgeMatch | null>(
+    (best, match) =>
+      !best || match.confidence > best.confidence ? match : best,
+    null
+  );
+}
+
+/**
+ * OpenCV badge matcher shared by the detection worker and Node tooling.
+ * Takes the OpenCV.js module as a parameter so it runs wherever opencv.js
+ * loads: the worker passes its global `cv`, tests and the CLI pass the
+ * npm build.
+ */
+export class BadgeMatcher {
+  private templates: LoadedTemplate[] = [];
+  private featureDetector: any = null;
+  private featureMatcher: any = null;
+
+  constructor(
+    private readonly cv: any,
+    private readonly loadImage: ImageLoader,
+    private readonly log: MatcherLogger = console
+  ) {}
+
+  /**
+   * Load every template entry with its native-size variants.
+   * Entries that fail to load are skipped; throws if none load.
+   */
+  async loadTemplates(entries: TemplateEntry[]): Promise<void> {
+    for (const entry of entries) {
+      try {
+        this.templates.push(await this.loadTemplate(entry));
+      } catch (error) {
+        this.log.error(
+          `[Badge Matcher] Failed to load template ${entry.id}:`,
+          error
+        );
+      }
+    }
+
+    if (this.templates.length === 0) {
+      throw new Error('No badge templates could be loaded');
+    }
+
+    this.log.info('[Badge Matcher] Templates loaded:', {
+      count: this.templates.length,
+      variants: this.templates.reduce(
+        (acc, template) => acc + template.variants.length,
+        0
+      ),
+    });
+  }
+
+  /**
+   * Load one template and build a variant for each native size
+   */
+  private async loadTemplate(entry: TemplateEntry): Promise<LoadedTemplate> {
+    this.log.info('[Badge Matcher] Loading badge template...', {
+      id: entry.id,
+    });
+
+    const base = await this.loadTemplateImage(
+      `${entry.basePath}.png`,
+      entry.maskPath
+    );
+    const sizes = entry.sizes ?? [];
+    const variants: TemplateVariant[] = [];
+    let features: TemplateFeatures | null = null;
+
+    try {
+      features = this.computeTemplateFeatures(base.gray, entry.id);
+
+      for (const size of sizes) {
+        let image: TemplateImage | null = null;
+
+        if (entry.sizedFiles) {
+          try {
+            image = await this.loadTemplateImage(
+              `${entry.basePath}-${size}.png`,
+              entry.maskPath
+            );
+          } catch (error) {
+            this.log.warn(
+              `[Badge Matcher] Sized template ${entry.id}@${size} missing, resizing base:`,
+              error
+            );
+          }
+        }
+
+        if (!image) {
+          // Keep the base aspect ratio with the longer side at `size`
+          const ratio = size / Math.max(base.gray.cols, base.gray.rows);
+          const dsize = new this.cv.Size(
+            Math.max(1, Math.round(base.gray.cols * ratio)),
+            Math.max(1, Math.round(base.gray.rows * ratio))
+          );
+          image = { gray: new this.cv.Mat(), mask: new this.cv.Mat() };
+          this.cv.resize(
+            base.gray,
+            image.gray,
+            dsize,
+            0,
+            0,
+            this.cv.INTER_AREA
+          );
+          this.cv.resize(
+            base.mask,
+            image.mask,
+            dsize,
+            0,
+            0,
+            this.cv.INTER_NEAREST
+          );
+        }
+
+        variants.push({ mat: image.gray, mask: image.mask, nativeSize: size });
+      }
+    } catch (error) {
+      for (const variant of variants) {
+        variant.mat.delete();
+        variant.mask.delete();
+      }
+      if (features) {
+        features.keypoints.delete();
+        features.descriptors.delete();
+      }
+      base.gray.delete();
+      base.mask.delete();
+      throw error;
+    }
+
+    // Without native sizes the base image is matched across SCALES
+    if (variants.length === 0) {
+      variants.push({ mat: base.gray, mask: base.mask, nativeSize: null });
+    } else {
+      base.gray.delete();
+      base.mask.delete();
+    }
+
+    this.log.info('[Badge Matcher] Template loaded successfully:', {
+      id: entry.id,
+      variants: variants.map(
+        (variant) => `${variant.mat.cols}x${variant.mat.rows}`
+      ),
+      keypoints: features?.descriptors.rows ?? 0,
+    });
+
+    return {
+      info: {
+        id: entry.id,
+        label: entry.label,
+        vendor: entry.vendor,
+        sizes,
+      },
+      variants,
+      features,
+    };
+  }
+
+  /**
+   * Compute keypoints and descriptors for a template at a fixed size.
+   * Returns null when the template has too little texture to match on.
+   */
+  private computeTemplateFeatures(
+    gray: any,
+    templateId: string
+  ): TemplateFeatures | null {
+    const ratio =
+      DETECTION_CONFIG.FEATURE_TEMPLATE_SIZE / Math.max(gray.cols, gray.rows);
+    const width = Math.max(1, Math.round(gray.cols * ratio));
+    const height = Math.max(1, Math.round(gray.rows * ratio));
+
+    const resized = new this.cv.Mat();
+    const padded = new this.cv.Mat();
+    const noMask = new this.cv.Mat();
+    const keypoints = new this.cv.KeyPointVector();
+    const descriptors = new this.cv.Mat();
+
+    try {
+      this.cv.resize(
+        gray,
+        resized,
+        new this.cv.Size(width, height),
+        0,
+        0,
+        this.cv.INTER_LINEAR
+      );
+      this.cv.copyMakeBorder(
+        resized,
+        padded,
+        FEATURE_PADDING,
+        FEATURE_PADDING,
+        FEATURE_PADDING,
+        FEATURE_PADDING,
+        this.cv.BORDER_CONSTANT,
+        new this.cv.Scalar(0)
+      );
+      this.getFeatureDetector().detectAndCompute(
+        padded,
+        noMask,
+        keypoints,
+        descriptors
+      );
+
+      if (descriptors.rows < DETECTION_CONFIG.FEATURE_MIN_MATCHES) {
+        this.log.warn(
+          `[Badge Matcher] Template ${templateId} has too few keypoints for feature matching:`,
+          descriptors.rows
+        );
+        keypoints.delete();
+        descriptors.delete();
+        return null;
+      }
+
+      const left = FEATURE_PADDING;
+      const top = FEATURE_PADDING;
+      return {
+        keypoints,
+        descriptors,
+        corners: [
+          left,
+          top,
+          left + width,
+          top,
+          left + width,
+          top + height,
+          left,
+          top + height,
+        ],
+        width: gray.cols,
+        height: gray.rows,
+      };
+    } catch (error) {
+      keypoints.delete();
+      descriptors.delete();
+      throw error;
+    } finally {
+      resized.delete();
+      padded.delete();
+      noMask.delete();
+    }
+  }
+
+  /**
+   * Keypoint detector shared by templates and images
+   */
+  private getFeatureDetector(): any {
+    if (!this.featureDetector) {
+      this.featureDetector =
+        DETECTION_CONFIG.FEATURE_DETECTOR === 'AKAZE'
+          ? new this.cv.AKAZE()
+          : // Smaller edge threshold and patch than the defaults for small badges
+            new this.cv.ORB(
+              DETECTION_CONFIG.FEATURE_MAX_KEYPOINTS,
+              1.2,
+              8,
+              15,
+              0,
+              2,
+              this.cv.ORB_HARRIS_SCORE,
+              15,
+              10
+            );
+    }
+    return this.featureDetector;
+  }
+
+  /**
+   * Brute-force matcher for the binary ORB/AKAZE descriptors
+   */
+  private getFeatureMatcher(): any {
+    if (!this.featureMatcher) {
+      this.featureMatcher = new this.cv.BFMatcher(this.cv.NORM_HAMMING, false);
+    }
+    return this.featureMatcher;
+  }
+
+  /**
+   * Load a template as grayscale plus a match mask.
+   * The mask comes from the PNG alpha channel unless a mask image is given.
+   */
+  private async loadTemplateImage(
+    url: string,
+    maskUrl?: string
+  ): Promise<TemplateImage> {
+    const rgba = this.cv.matFromImageData(await this.loadImage(url));
+    const channels = new this.cv.MatVector();
+    const gray = new this.cv.Mat();
+    const mask = new this.cv.Mat();
+
+    try {
+      this.cv.cvtColor(rgba, gray, this.cv.COLOR_RGBA2GRAY);
+      this.cv.split(rgba, channels);
+      const alpha = channels.get(3);
+
+      // Composite onto black so transparent pixels carry no background
+      this.cv.multiply(gray, alpha, gray, 1 / 255);
+
+      if (maskUrl) {
+        const maskRgba = this.cv.matFromImageData(
+          await this.loadImage(maskUrl)
+        );
+        this.cv.cvtColor(maskRgba, mask, this.cv.COLOR_RGBA2GRAY);
+        maskRgba.delete();
+        if (mask.cols !== gray.cols || mask.rows !== gray.rows) {
+          this.cv.resize(
+            mask,
+            mask,
+            new this.cv.Size(gray.cols, gray.rows),
+            0,
+            0,
+            this.cv.INTER_NEAREST
+          );
+        }
+        this.cv.threshold(mask, mask, 127, 255, this.cv.THRESH_BINARY);
+      } else {
+        this.cv.threshold(alpha, mask, 0, 255, this.cv.THRESH_BINARY);
+      }
+      alpha.delete();
+
+      // Grow the mask slightly so the badge outline takes part in matching
+      if (DETECTION_CONFIG.MASK_DILATION > 0) {
+        const size = DETECTION_CONFIG.MASK_DILATION * 2 + 1;
+        const kernel = this.cv.getStructuringElement(
+          this.cv.MORPH_ELLIPSE,
+          new this.cv.Size(size, size)
+        );
+        this.cv.dilate(mask, mask, kernel);
+        kernel.delete();
+      }
+
+      return { gray, mask };
+    } catch (error) {
+      gray.delete();
+      mask.delete();
+      throw error;
+    } finally {
+      rgba.delete();
+      channels.delete();
+    }
+  }
+
+  /**
+   * List the loaded templates
+   */
+  getTemplates(): TemplateInfo[] {
+    return this.templates.map((template) => template.info);
+  }
+
+  /**
+   * Detect badges over each search region. The classifier is resolved only
+   * once there are hits to score.
+   */
+  async detect(
+    imageData: ImageDataLike,
+    options: DetectionOptions = {},
+    resolveClassifier?: () => Promise<BadgeClassifier | null>
+  ): Promise<DetectionOutput> {
+    if (this.templates.length === 0) {
+      throw new Error('No badge templates loaded');
+    }
+
+    const regions = options.regions ?? DETECTION_CONFIG.DEFAULT_REGIONS;
+    const matchMode = options.matchMode ?? DETECTION_CONFIG.MATCH_MODE;
+    const strategy = options.strategy ?? DETECTION_CONFIG.STRATEGY;
+    // Thresholds below apply to calibrated probabilities where profiled
+    const profiles = options.calibration ?? [];
+    const calibrate = (match: BadgeMatch) =>
+      calibrateMatch(match, profiles, matchMode);
+
+    this.log.info('[Badge Matcher] Starting badge detection...', {
+      imageSize: `${imageData.width}x${imageData.height}`,
+      regions: regions.map(getRegionName),
+      matchMode,
+      strategy,
+    });
+
+    let srcMat: any = null;
+    let grayMat: any = null;
+
+    try {
+      // Convert ImageData to cv.Mat and grayscale once for all regions
+      srcMat = this.cv.matFromImageData(imageData);
+      grayMat = new this.cv.Mat();
+      if (srcMat.channels() > 1) {
+        this.cv.cvtColor(srcMat, grayMat, this.cv.COLOR_RGBA2GRAY);
+      } else {
+        srcMat.copyTo(grayMat);
+      }
+
+      // Both strategies search the same resolved regions
+      const searched = regions.map((region) => {
+        const name = getRegionName(region);
+        const rect = resolveRegion(region, imageData.width, imageData.height);
+        if (!rect) {
+          this.log.warn('[Badge Matcher] Region outside image:', name);
+        }
+        return { name, rect };
+      });
+      const regionBest: (BadgeMatch | null)[] = searched.map(() => null);
+      const candidates: BadgeHit[] = [];
+
+      if (strategy !== DETECTION_STRATEGIES.FEATURES) {
+        searched.forEach(({ name, rect }, index) => {
+          if (!rect) return;
+
+          const matches = this.matchRegion(grayMat, rect, matchMode).map(
+            calibrate
+          );
+          const best = strongest(matches);
+          regionBest[index] = best;
+          for (const match of matches) {
+            if (match.confidence >= DETECTION_CONFIG.POSSIBLE_THRESHOLD) {
+              candidates.push({ ...match, region: name });
+            }
+          }
+
+          this.log.info('[Badge Matcher] Region searched:', {
+            region: name,
+            roiSize: `${rect.width}x${rect.height}`,
+            roiOffset: `${rect.x}, ${rect.y}`,
+            confidence: best?.confidence.toFixed(3) ?? 'n/a',
+          });
+        });
+      }
+
+      // Automatic mode only pays for keypoints when templates are unsure
+      const templateConfidence = Math.max(
+        0,
+        ...regionBest.map((match) => match?.confidence ?? 0)
+      );
+      const useFeatures =
+        strategy === DETECTION_STRATEGIES.FEATURES ||
+        (strategy === DETECTION_STRATEGIES.AUTO &&
+          templateConfidence >= DETECTION_CONFIG.POSSIBLE_THRESHOLD &&
+          templateConfidence < DETECTION_CONFIG.CONFIDENCE_THRESHOLD);
+
+      if (useFeatures) {
+        searched.forEach(({ name, rect }, index) => {
+          if (!rect) return;
+
+          const matches = this.matchFeatures(grayMat, rect)
+            .map(calibrate)
+            .sort((a, b) => b.confidence - a.confidence);
+          for (const match of matches) {
+            const current = regionBest[index];
+            if (!current || match.confidence > current.confidence) {
+              regionBest[index] = match;
+            }
+            if (match.confidence >= DETECTION_CONFIG.POSSIBLE_THRESHOLD) {
+              candidates.push({ ...match, region: name });
+            }
+          }
+
+          this.log.info('[Badge Matcher] Region searched with keypoints:', {
+            region: name,
+            matches: matches.length,
+            confidence: matches[0]?.confidence.toFixed(3) ?? 'n/a',
+          });
+        });
+      }
+
+      const regionMatches: RegionBadgeMatch[] = searched.map(
+        ({ name }, index) => ({ region: name, match: regionBest[index] })
+      );
+
+      // Overlapping regions, scales and templates report the same mark
+      let hits = nonMaxSuppression(
+        candidates,
+        DETECTION_CONFIG.NMS_IOU_THRESHOLD
+      ).slice(0, DETECTION_CONFIG.MAX_HITS);
+
+      let classifierInfo: DetectionOutput['classifier'];
+      if (hits.length > 0) {
+        const classifier = resolveClassifier ? await resolveClassifier() : null;
+        if (classifier) {
+          hits = await this.classifyHits(classifier, srcMat, hits);
+          classifierInfo = {
+            modelId: classifier.model.id,
+            version: classifier.model.version,
+          };
+        }
+      }
+
+      if (hits.length > 0) {
+        const [bestMatch] = hits;
+        const bestRect = searched.find(
+          ({ name }) => name === bestMatch.region
+        )?.rect;
+        const explanation =
+          options.explain && bestRect
+            ? this.explainMatch(grayMat, bestRect, bestMatch, matchMode)
+            : undefined;
+
+        this.log.info('[Badge Matcher] Badge detected:', {
+          hits: hits.length,
+          strategy: bestMatch.strategy,
+          region: bestMatch.region,
+          template: bestMatch.templateId,
+          location: `${bestMatch.x}, ${bestMatch.y}`,
+          size: `${bestMatch.width}x${bestMatch.height}`,
+          confidence: bestMatch.confidence.toFixed(3),
+        });
+        return {
+          match: bestMatch,
+          hits,
+          regions: regionMatches,
+          matchMode,
+          strategy: bestMatch.strategy,
+          classifier: classifierInfo,
+          explanation,
+        };
+      }
+
+      this.log.info('[Badge Matcher] No badge detected (confidence too low)');
+      return {
+        match: null,
+        hits: [],
+        regions: regionMatches,
+        matchMode,
+        strategy: useFeatures
+          ? DETECTION_STRATEGIES.FEATURES
+          : DETECTION_STRATEGIES.TEMPLATE,
+        classifier: classifierInfo,
+      };
+    } catch (error) {
+      this.log.error('[Badge Matcher] Detection failed:', error);
+      throw error;
+    } finally {
+      // Cleanup OpenCV Mats
+      if (srcMat) srcMat.delete();
+      if (grayMat) grayMat.delete();
+    }
+  }
+
+  /**
+   * Score a crop around each hit with the classifier and fuse it into the
+   * hit's confidence. Hits the fused score drops below threshold are removed.
+   */
+  private async classifyHits(
+    classifier: BadgeClassifier,
+    rgbaMat: any,
+    hits: BadgeHit[]
+  ): Promise<BadgeHit[]> {
+    const { inputSize, fusion } = classifier.model;
+    const scored: BadgeHit[] = [];
+
+    for (const hit of hits) {
+      // Square crop centred on the hit, with context, clamped to the image
+      const side = Math.min(
+        Math.round(
+          Math.max(hit.width, hit.height) *
+            DETECTION_CONFIG.CLASSIFIER_CROP_CONTEXT
+        ),
+        rgbaMat.cols,
+        rgbaMat.rows
+      );
+      const x = Math.min(
+        Math.max(Math.round(hit.x + hit.width / 2 - side / 2), 0),
+        rgbaMat.cols - side
+      );
+      const y = Math.min(
+        Math.max(Math.round(hit.y + hit.height / 2 - side / 2), 0),
+        rgbaMat.rows - side
+      );
+
+      const crop = rgbaMat.roi(new this.cv.Rect(x, y, side, side));
+      const resized = new this.cv.Mat();
+      let classifierScore: number;
+
+      try {
+        this.cv.resize(
+          crop,
+          resized,
+          new this.cv.Size(inputSize, inputSize),
+          0,
+          0,
+          this.cv.INTER_AREA
+        );
+        classifierScore = await classifier.score(
+          new Uint8ClampedArray(resized.data)
+        );
+      } finally {
+        crop.delete();
+        resized.delete();
+      }
+
+      const confidence = fuseConfidence(
+        hit.confidence,
+        classifierScore,
+        fusion
+      );
+      if (confidence >= DETECTION_CONFIG.POSSIBLE_THRESHOLD) {
+        scored.push({
+          ...hit,
+          confidence,
+          matchConfidence: hit.confidence,
+          classifierScore,
+        });
+      }
+    }
+
+    this.log.info('[Badge Matcher] Hits classified:', {
+      model: classifier.model.id,
+      hits: hits.length,
+      kept: scored.length,
+    });
+
+    return scored.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Match every template variant inside one region.
+   * Returns every peak with its raw score; the caller calibrates and
+   * applies thresholds.
+   */
+  private matchRegion(
+    grayMat: any,
+    rect: PixelRect,
+    matchMode: MatchMode
+  ): BadgeMatch[] {
+    let roiMat: any = null;
+    let edgeMat: any = null;
+
+    try {
+      roiMat = grayMat.roi(
+        new this.cv.Rect(rect.x, rect.y, rect.width, rect.height)
+      );
+
+      // Edge mode compares outlines instead of intensities
+      if (matchMode === MATCH_MODES.EDGES) {
+        edgeMat = this.toEdges(roiMat);
+      }
+
+      const matches: BadgeMatch[] = [];
+
+      for (const template of this.templates) {
+        for (const variant of template.variants) {
+          // Native-size variants are matched as-is
+          const scales =
+            variant.nativeSize === null ? DETECTION_CONFIG.SCALES : [1.0];
+
+          for (const scale of scales) {
+            const match = this.matchAtScale(
+              edgeMat ?? roiMat,
+              variant,
+              scale,
+              matchMode
+            );
+            if (!match) continue;
+
+            // Adjust coordinates to full image space
+            for (const peak of match.peaks) {
+              matches.push({
+                x: rect.x + peak.x,
+                y: rect.y + peak.y,
+                width: match.width,
+                height: match.height,
+                confidence: peak.confidence,
+                templateId: template.info.id,
+                templateLabel: template.info.label,
+                scale,
+                strategy: DETECTION_STRATEGIES.TEMPLATE,
+              });
+            }
+          }
+        }
+      }
+
+      return matches;
+    } finally {
+      if (roiMat) roiMat.delete();
+      if (edgeMat) edgeMat.delete();
+    }
+  }
+
+  /**
+   * Match template keypoints inside one region, verifying each template's
+   * matches with a RANSAC homography. Returns at most one match per template.
+   */
+  private matchFeatures(grayMat: any, rect: PixelRect): BadgeMatch[] {
+    const roiMat = grayMat.roi(
+      new this.cv.Rect(rect.x, rect.y, rect.width, rect.height)
+    );
+    const scaledRoi = new this.cv.Mat();
+    const noMask = new this.cv.Mat();
+    const keypoints = new this.cv.KeyPointVector();
+    const descriptors = new this.cv.Mat();
+
+    try {
+      // Corner badges are small; upscaling gives the detector enough pixels
+      const upscale = Math.max(
+        1,
+        Math.min(
+          2,
+          DETECTION_CONFIG.FEATURE_MAX_ROI_SIDE /
+            Math.max(rect.width, rect.height)
+        )
+      );
+      this.cv.resize(
+        roiMat,
+        scaledRoi,
+        new this.cv.Size(0, 0),
+        upscale,
+        upscale,
+        this.cv.INTER_LINEAR
+      );
+      this.getFeatureDetector().detectAndCompute(
+        scaledRoi,
+        noMask,
+        keypoints,
+        descriptors
+      );
+
+      const matches: BadgeMatch[] = [];
+      if (descriptors.rows < 2) return matches;
+
+      for (const template of this.templates) {
+        if (!template.features) continue;
+
+        const match = this.verifyFeatureMatch(
+          template,
+          keypoints,
+          descriptors,
+          upscale,
+          rect
+        );
+        if (match) matches.push(match);
+      }
+
+      return matches.sort((a, b) => b.confidence - a.confidence);
+    } catch (error) {
+      this.log.error('[Badge Matcher] Feature matching failed:', error);
+      return [];
+    } finally {
+      roiMat.delete();
+      scaledRoi.delete();
+      noMask.delete();
+      keypoints.delete();
+      descriptors.delete();
+    }
+  }
+
+  /**
+   * Ratio-test a template's descriptors against a region and accept the
+   * match only if a homography with enough inliers projects a plausible box
+   */
+  private verifyFeatureMatch(
+    template: LoadedTemplate,
+    keypoints: any,
+    descriptors: any,
+    upscale: number,
+    rect: PixelRect
+  ): BadgeMatch | null {
+    const features = template.features!;
+    const knnMatches = new this.cv.DMatchVectorVector();
+    const inlierMask = new this.cv.Mat();
+    const projected = new this.cv.Mat();
+    let srcPoints: any = null;
+    let dstPoints: any = null;
+    let homography: any = null;
+    let corners: any = null;
+
+    try {
+      this.getFeatureMatcher().knnMatch(
+        features.descriptors,
+        descriptors,
+        knnMatches,
+        2
+      );
+
+      const src: number[] = [];
+      const dst: number[] = [];
+      for (let i = 0; i < knnMatches.size(); i++) {
+        const pair = knnMatches.get(i);
+        if (pair.size() < 2) continue;
+
+        const first = pair.get(0);
+        const second = pair.get(1);
+        if (
+          first.distance <
+          DETECTION_CONFIG.FEATURE_RATIO_TEST * second.distance
+        ) {
+          const from = features.keypoints.get(first.queryIdx).pt;
+          const to = keypoints.get(first.trainIdx).pt;
+          src.push(from.x, from.y);
+          // Back to region pixels
+          dst.push(to.x / upscale, to.y / upscale);
+        }
+      }
+
+      const goodMatches = src.length / 2;
+      if (goodMatches < DETECTION_CONFIG.FEATURE_MIN_MATCHES) return null;
+
+      srcPoints = this.cv.matFromArray(goodMatches, 1, this.cv.CV_32FC2, src);
+      dstPoints = this.cv.matFromArray(goodMatches, 1, this.cv.CV_32FC2, dst);
+      homography = this.cv.findHomography(
+        srcPoints,
+        dstPoints,
+        this.cv.RANSAC,
+        DETECTION_CONFIG.FEATURE_RANSAC_THRESHOLD,
+        inlierMask
+      );
+      if (homography.empty()) return null;
+
+      const inliers = this.cv.countNonZero(inlierMask);
+      if (inliers < DETECTION_CONFIG.FEATURE_MIN_INLIERS) return null;
+
+      corners = this.cv.matFromArray(4, 1, this.cv.CV_32FC2, features.corners);
+      this.cv.perspectiveTransform(corners, projected, homography);
+      const quad: number[] = Array.from(projected.data32F as Float32Array);
+      if (!this.isPlausibleQuad(quad, rect)) return null;
+
+      const xs = [quad[0], quad[2], quad[4], quad[6]];
+      const ys = [quad[1], quad[3], quad[5], quad[7]];
+      const left = Math.max(0, Math.floor(Math.min(...xs)));
+      const top = Math.max(0, Math.floor(Math.min(...ys)));
+      const right = Math.min(rect.width, Math.ceil(Math.max(...xs)));
+      const bottom = Math.min(rect.height, Math.ceil(Math.max(...ys)));
+
+      // Inlier ratio, discounted until there are enough inliers to trust it
+      const confidence =
+        (inliers / goodMatches) *
+        Math.min(1, inliers / DETECTION_CONFIG.FEATURE_CONFIDENT_INLIERS);
+
+      return {
+        x: rect.x + left,
+        y: rect.y + top,
+        width: right - left,
+        height: bottom - top,
+        confidence,
+        templateId: template.info.id,
+        templateLabel: template.info.label,
+        scale: Math.sqrt(
+          this.quadArea(quad) / (features.width * features.height)
+        ),
+        strategy: DETECTION_STRATEGIES.FEATURES,
+      };
+    } finally {
+      knnMatches.delete();
+      inlierMask.delete();
+      projected.delete();
+      if (srcPoints) srcPoints.delete();
+      if (dstPoints) dstPoints.delete();
+      if (homography) homography.delete();
+      if (corners) corners.delete();
+    }
+  }
+
+  /**
+   * Reject degenerate homographies: the projected template outline must be
+   * convex, fit inside the region and not be skewed beyond FEATURE_MAX_SKEW
+   */
+  private isPlausibleQuad(quad: number[], rect: PixelRect): boolean {
+    let sign = 0;
+    for (let i = 0; i < 4; i++) {
+      const [ax, ay] = [quad[i * 2], quad[i * 2 + 1]];
+      const [bx, by] = [quad[((i + 1) % 4) * 2], quad[((i + 1) % 4) * 2 + 1]];
+      const [cx, cy] = [quad[((i + 2) % 4) * 2], quad[((i + 2) % 4) * 2 + 1]];
+      const cross = (bx - ax) * (cy - by) - (by - ay) * (cx - bx);
+      if (!Number.isFinite(cross) || cross === 0) return false;
+      if (sign !== 0 && Math.sign(cross) !== sign) return false;
+      sign = Math.sign(cross);
+    }
+
+    const area = this.quadArea(quad);
+    const minSide = Math.min(...DETECTION_CONFIG.TEMPLATE_SIZES) / 2;
+    if (area < minSide * minSide || area > rect.width * rect.height) {
+      return false;
+    }
+
+    const side = (i: number) =>
+      Math.hypot(
+        quad[((i + 1) % 4) * 2] - quad[i * 2],
+        quad[((i + 1) % 4) * 2 + 1] - quad[i * 2 + 1]
+      );
+    const skew = Math.max(
+      Math.max(side(0), side(2)) / Math.min(side(0), side(2)),
+      Math.max(side(1), side(3)) / Math.min(side(1), side(3))
+    );
+    return skew <= DETECTION_CONFIG.FEATURE_MAX_SKEW;
+  }
+
+  /**
+   * Shoelace area of a quadrilateral given as [x0, y0, ..., x3, y3]
+   */
+  private quadArea(quad: number[]): number {
+    let area = 0;
+    for (let i = 0; i < 4; i++) {
+      const next = (i + 1) % 4;
+      area +=
+        quad[i * 2] * quad[next * 2 + 1] - quad[next * 2] * quad[i * 2 + 1];
+    }
+    return Math.abs(area) / 2;
+  }
+
+  /**
+   * Canny edge map, blurred slightly to tolerate small misalignments
+   */
+  private toEdges(grayMat: any): any {
+    const edges = new this.cv.Mat();
+    this.cv.Canny(
+      grayMat,
+      edges,
+      DETECTION_CONFIG.CANNY_LOW_THRESHOLD,
+      DETECTION_CONFIG.CANNY_HIGH_THRESHOLD
+    );
+    this.cv.GaussianBlur(edges, edges, new this.cv.Size(3, 3), 0);
+    return edges;
+  }
+
+  /**
+   * Match template at a specific scale
+   */
+  private matchAtScale(
+    sourceMat: any,
+    variant: TemplateVariant,
+    scale: number,
+    matchMode: MatchMode
+  ): { width: number; height: number; peaks: MatchPeak[] } | null {
+    const response = this.computeResponse(sourceMat, variant, scale, matchMode);
+    if (!response) return null;
+
+    try {
+      return {
+        width: response.width,
+        height: response.height,
+        peaks: this.extractPeaks(
+          response.result,
+          response.width,
+          response.height
+        ),
+      };
+    } finally {
+      response.result.delete();
+    }
+  }
+
+  /**
+   * Compute the matchTemplate response map for one variant at one scale.
+   * The caller owns the returned Mat.
+   */
+  private computeResponse(
+    sourceMat: any,
+    variant: TemplateVariant,
+    scale: number,
+    matchMode: MatchMode
+  ): { width: number; height: number; result: any } | null {
+    let scaledTemplate: any = null;
+    let scaledMask: any = null;
+    let edgeTemplate: any = null;
+    let result: any = null;
+
+    try {
+      // Scale template
+      const scaledWidth = Math.round(variant.mat.cols * scale);
+      const scaledHeight = Math.round(variant.mat.rows * scale);
+
+      // Skip if scaled template is larger than ROI
+      if (scaledWidth > sourceMat.cols || scaledHeight > sourceMat.rows) {
+        return null;
+      }
+
+      const dsize = new this.cv.Size(scaledWidth, scaledHeight);
+      scaledTemplate = new this.cv.Mat();
+      this.cv.resize(
+        variant.mat,
+        scaledTemplate,
+        dsize,
+        0,
+        0,
+        this.cv.INTER_LINEAR
+      );
+
+      result = new this.cv.Mat();
+
+      if (matchMode === MATCH_MODES.MASKED) {
+        scaledMask = new this.cv.Mat();
+        this.cv.resize(
+          variant.mask,
+          scaledMask,
+          dsize,
+          0,
+          0,
+          this.cv.INTER_NEAREST
+        );
+
+        // Masked matching only scores the badge pixels, not the background
+        if (DETECTION_CONFIG.MASKED_METHOD === 'TM_SQDIFF') {
+          this.cv.matchTemplate(
+            sourceMat,
+            scaledTemplate,
+            result,
+            this.cv.TM_SQDIFF,
+            scaledMask
+          );
+          this.toSimilarity(
+            result,
+            Math.max(this.cv.countNonZero(scaledMask), 1)
+          );
+        } else {
+          this.cv.matchTemplate(
+            sourceMat,
+            scaledTemplate,
+            result,
+            this.cv.TM_CCORR_NORMED,
+            scaledMask
+          );
+        }
+      } else if (matchMode === MATCH_MODES.EDGES) {
+        edgeTemplate = this.toEdges(scaledTemplate);
+        this.cv.matchTemplate(
+          sourceMat,
+          edgeTemplate,
+          result,
+          this.cv.TM_CCOEFF_NORMED
+        );
+      } else {
+        // Normalized correlation coefficient
+        this.cv.matchTemplate(
+          sourceMat,
+          scaledTemplate,
+          result,
+          this.cv.TM_CCOEFF_NORMED
+        );
+      }
+
+      // Flat patches divide by zero in the normalized methods
+      this.sanitizeResponse(result, 0);
+
+      const response = { width: scaledWidth, height: scaledHeight, result };
+      result = null;
+      return response;
+    } catch (error) {
+      this.log.error(`[Badge Matcher] Match at scale ${scale} failed:`, error);
+      return null;
+    } finally {
+      if (scaledTemplate) scaledTemplate.delete();
+      if (scaledMask) scaledMask.delete();
+      if (edgeTemplate) edgeTemplate.delete();
+      if (result) result.delete();
+    }
+  }
+
+  /**
+   * Describe why a hit was flagged: its box and scale and, for template
+   * matches, the response map over its region, max-pooled down to
+   * HEATMAP_MAX_SIDE so it stays small enough to keep with the result
+   */
+  private explainMatch(
+    grayMat: any,
+    rect: PixelRect,
+    hit: BadgeHit,
+    matchMode: MatchMode
+  ): DetectionExplanation {
+    const explanation: DetectionExplanation = {
+      box: { x: hit.x, y: hit.y, width: hit.width, height: hit.height },
+      scale: hit.scale,
+      templateId: hit.templateId,
+      region: hit.region,
+      roi: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+    };
+    if (hit.strategy !== DETECTION_STRATEGIES.TEMPLATE) return explanation;
+
+    // The variant whose scaled size produced the hit
+    const variant = this.templates
+      .find((template) => template.info.id === hit.templateId)
+      ?.variants.find(
+        (candidate) =>
+          Math.round(candidate.mat.cols * hit.scale) === hit.width &&
+          Math.round(candidate.mat.rows * hit.scale) === hit.height
+      );
+    if (!variant) return explanation;
+
+    let roiMat: any = null;
+    let edgeMat: any = null;
+    let response: { width: number; height: number; result: any } | null = null;
+
+    try {
+      roiMat = grayMat.roi(
+        new this.cv.Rect(rect.x, rect.y, rect.width, rect.height)
+      );
+      if (matchMode === MATCH_MODES.EDGES) {
+        edgeMat = this.toEdges(roiMat);
+      }
+
+      response = this.computeResponse(
+        edgeMat ?? roiMat,
+        variant,
+        hit.scale,
+        matchMode
+      );
+      if (!response) return explanation;
+
+      const { result } = response;
+      const data: Float32Array = result.data32F;
+      const ratio = Math.min(
+        1,
+        DETECTION_CONFIG.HEATMAP_MAX_SIDE / Math.max(result.cols, result.rows)
+      );
+      const width = Math.max(1, Math.round(result.cols * ratio));
+      const height = Math.max(1, Math.round(result.rows * ratio));
+
+      // Max-pool so a sharp peak survives downsampling
+      const values = new Array<number>(width * height).fill(0);
+      for (let y = 0; y < result.rows; y++) {
+        const row = Math.min(Math.floor(y * ratio), height - 1);
+        for (let x = 0; x < result.cols; x++) {
+          const index =
+            row * width + Math.min(Math.floor(x * ratio), width - 1);
+          values[index] = Math.max(values[index], data[y * result.cols + x]);
+        }
+      }
+
+      // Response (x, y) scores the box whose top-left is there; offset by
+      // half the template so the heat sits on box centres
+      return {
+        ...explanation,
+        heatmap: {
+          box: {
+            x: rect.x + response.width / 2,
+            y: rect.y + response.height / 2,
+            width: result.cols,
+            height: result.rows,
+          },
+          width,
+          height,
+          values: values.map(
+            (value) => Math.round(Math.min(Math.max(value, 0), 1) * 1000) / 1000
+          ),
+        },
+      };
+    } finally {
+      if (roiMat) roiMat.delete();
+      if (edgeMat) edgeMat.delete();
+      if (response) response.result.delete();
+    }
+  }
+
+  /**
+   * Take the strongest peaks from a response map, blanking each peak's
+   * neighbourhood so the next one is a different location.
+   * The first peak is always returned, even below threshold.
+   */
+  private extractPeaks(
+    result: any,
+    templateWidth: number,
+    templateHeight: number
+  ): MatchPeak[] {
+    const peaks: MatchPeak[] = [];
+
+    for (let i = 0; i < DETECTION_CONFIG.MAX_PEAKS_PER_MATCH; i++) {
+      const { maxVal, maxLoc } = this.cv.minMaxLoc(result);
+      if (i > 0 && maxVal < DETECTION_CONFIG.POSSIBLE_THRESHOLD) break;
+
+      peaks.push({ x: maxLoc.x, y: maxLoc.y, confidence: maxVal });
+
+      this.cv.rectangle(
+        result,
+        new this.cv.Point(
+          maxLoc.x - Math.floor(templateWidth / 2),
+          maxLoc.y - Math.floor(templateHeight / 2)
+        ),
+        new this.cv.Point(
+          maxLoc.x + Math.floor(templateWidth / 2),
+          maxLoc.y + Math.floor(templateHeight / 2)
+        ),
+        new this.cv.Scalar(-1),
+        -1
+      );
+    }
+
+    return peaks;
+  }
+
+  /**
+   * Convert a TM_SQDIFF response to an RMS similarity in [0, 1]
+   */
+  private toSimilarity(result: any, maskArea: number): void {
+    const data: Float32Array = result.data32F;
+    const maxDiff = maskArea * 255 * 255;
+    for (let i = 0; i < data.length; i++) {
+      const value = Number.isFinite(data[i]) ? Math.max(data[i], 0) : maxDiff;
+      data[i] = Math.max(1 - Math.sqrt(value / maxDiff), 0);
+    }
+  }
+
+  /**
+   * Replace NaN/Infinity in a match response so minMaxLoc stays meaningful
+   */
+  private sanitizeResponse(result: any, fill: number): void {
+    const data: Float32Array = result.data32F;
+    for (let i = 0; i < data.length; i++) {
+      if (!Number.isFinite(data[i])) {
+        data[i] = fill;
+      }
+    }
+  }
+
+  /**
+   * Release every template Mat and the keypoint detector
+   */
+  dispose(): void {
+    for (const template of this.templates) {
+      for (const variant of template.variants) {
+        variant.mat.delete();
+        variant.mask.delete();
+      }
+      if (template.features) {
+        template.features.keypoints.delete();
+        template.features.descriptors.delete();
+      }
+    }
+    this.templates = [];
+    if (this.featureDetector) {
+      this.featureDetector.delete();
+      this.featureDetector = null;
+    }
+    if (this.featureMatcher) {
+      this.featureMatcher.delete();
+      this.featureMatcher = null;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Intersection over union of two boxes
+ */
+export function iou(a: Box, b: Box): number {
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, right - left) * Math.max(0, bottom - top);
+  if (intersection === 0) return 0;
+
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return intersection / union;
+}
+
+/**
+ * Greedy non-maximum suppression.
+ * Each kept box is merged with the boxes it suppresses: its coordinates
+ * become their confidence-weighted average, its confidence stays the max.
+ */
+export function nonMaxSuppression<T extends Box & { confidence: number }>(
+  candidates: T[],
+  iouThreshold: number
+): T[] {
+  const remaining = [...candidates].sort((a, b) => b.confidence - a.confidence);
+  const kept: T[] = [];
+
+  while (remaining.length > 0) {
+    const best = remaining.shift()!;
+    const cluster = [best];
+
+    for (let i = remaining.length - 1; i >= 0; i--) {
+      if (iou(best, remaining[i]) >= iouThreshold) {
+        cluster.push(remaining[i]);
+        remaining.splice(i, 1);
+      }
+    }
+
+    const totalWeight = cluster.reduce((acc, box) => acc + box.confidence, 0);
+    const weighted = (key: keyof Box) =>
+      totalWeight > 0
+        ? Math.round(
+            cluster.reduce((acc, box) => acc + box[key] * box.confidence, 0) /
+              totalWeight
+          )
+        : best[key];
+
+    kept.push({
+      ...best,
+      x: weighted('x'),
+      y: weighted('y'),
+      width: weighted('width'),
+      height: weighted('height'),
+    });
+  }
+
+  return kept;
+}
@@ -0,0 +1,157 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { DETECTION_CONFIG } from '@/lib/constants';
+import { UnsupportedFormatError } from '@/lib/errors';
+import {
+  TemplateManifestSchema,
+  type CalibrationProfile,
+  type TemplateEntry,
+} from '@/lib/schemas';
+import { parseCalibrationProfiles } from './calibration';
+import {
+  BadgeMatcher,
+  DEFAULT_TEMPLATE,
+  type ImageDataLike,
+  type MatcherLogger,
+} from './matcher';
+
+/**
+ * Node runtime for the badge matcher: opencv.js from npm plus PNG/JPEG
+ * codecs, so detection runs headlessly in tests and tooling
+ */
+
+let cvPromise: Promise<any> | null = null;
+
+/**
+ * Load the opencv.js npm build once.
+ * The module is a thenable resolving to itself, so `then` is removed before
+ * it is handed to a promise.
+ */
+export function loadOpenCV(): Promise<any> {
+  if (!cvPromise) {
+    const require = createRequire(import.meta.url);
+    const cv = require('@techstark/opencv-js');
+
+    cvPromise = new Promise((resolve) => {
+      if (typeof cv.then !== 'function') {
+        resolve(cv);
+        return;
+      }
+      cv.then((ready: any) => {
+        delete ready.then;
+        resolve(ready);
+      });
+    });
+  }
+  return cvPromise;
+}
+
+/**
+ * Decode PNG or JPEG bytes into RGBA pixels
+ */
+export function decodeImage(bytes: Uint8Array, name = 'image'): ImageDataLike {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) {
+    const png = PNG.sync.read(Buffer.from(bytes));
+    return {
+      data: new Uint8ClampedArray(
+        png.data.buffer,
+        png.data.byteOffset,
+        png.data.length
+      ),
+      width: png.width,
+      height: png.height,
+    };
+  }
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+    return {
+      data: new Uint8ClampedArray(decoded.data.buffer),
+      width: decoded.width,
+      height: decoded.height,
+    };
+  }
+
+  throw new UnsupportedFormatError(
+    `Unsupported image format: ${name} (PNG and JPEG only)`
+  );
+}
+
+export function encodePng(image: ImageDataLike): Uint8Array {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data);
+  return PNG.sync.write(png);
+}
+
+export function encodeJpeg(image: ImageDataLike, quality: number): Uint8Array {
+  return jpeg.encode(
+    { data: image.data, width: image.width, height: image.height },
+    quality
+  ).data;
+}
+
+export async function readImage(filePath: string): Promise<ImageDataLike> {
+  return decodeImage(await readFile(filePath), filePath);
+}
+
+/**
+ * Read the template manifest from a public directory, falling back to the
+ * single default badge like the worker does
+ */
+export async function readTemplateManifest(
+  publicDir: string
+): Promise<TemplateEntry[]> {
+  try {
+    const manifest = TemplateManifestSchema.parse(
+      JSON.parse(
+        await readFile(
+          path.join(publicDir, DETECTION_CONFIG.TEMPLATE_MANIFEST_PATH),
+          'utf8'
+        )
+      )
+    );
+    return manifest.templates;
+  } catch {
+    return [DEFAULT_TEMPLATE];
+  }
+}
+
+/**
+ * Read the calibration profiles published under a public directory; none
+ * when the file is missing, like the worker
+ */
+export async function readCalibrationProfiles(
+  publicDir: string
+): Promise<CalibrationProfile[]> {
+  let json: string;
+  try {
+    json = await readFile(
+      path.join(publicDir, DETECTION_CONFIG.CALIBRATION_PATH),
+      'utf8'
+    );
+  } catch {
+    return [];
+  }
+  return parseCalibrationProfiles(json);
+}
+
+/**
+ * Create a matcher with the templates published under `publicDir`.
+ * Template URLs in the manifest resolve against that directory.
+ */
+export async function createNodeMatcher(
+  publicDir: string,
+  log?: MatcherLogger
+): Promise<BadgeMatcher> {
+  const cv = await loadOpenCV();
+  const matcher = new BadgeMatcher(
+    cv,
+    (url) => readImage(path.join(publicDir, url)),
+    log
+  );
+  await matcher.loadTemplates(await readTemplateManifest(publicDir));
+  return matcher;
+}
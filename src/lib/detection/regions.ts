@@ -0,0 +1,85 @@
+import { DETECTION_CONFIG, DETECTION_REGIONS } from '@/lib/constants';
+import type { DetectionRegion } from '@/lib/schemas';
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Get the display name of a region
+ */
+export function getRegionName(region: DetectionRegion): string {
+  return typeof region === 'string' ? region : region.name;
+}
+
+/**
+ * Resolve a region to a pixel rect clamped to the image bounds.
+ * Returns null when the region does not overlap the image.
+ */
+export function resolveRegion(
+  region: DetectionRegion,
+  imageWidth: number,
+  imageHeight: number,
+  roiPercent: number = DETECTION_CONFIG.ROI_PERCENT
+): PixelRect | null {
+  let rect: PixelRect;
+
+  if (typeof region === 'string') {
+    const cornerWidth = Math.floor(imageWidth * roiPercent);
+    const cornerHeight = Math.floor(imageHeight * roiPercent);
+    const right = imageWidth - cornerWidth;
+    const bottom = imageHeight - cornerHeight;
+
+    switch (region) {
+      case DETECTION_REGIONS.TOP_LEFT:
+        rect = { x: 0, y: 0, width: cornerWidth, height: cornerHeight };
+        break;
+      case DETECTION_REGIONS.TOP_RIGHT:
+        rect = { x: right, y: 0, width: cornerWidth, height: cornerHeight };
+        break;
+      case DETECTION_REGIONS.BOTTOM_LEFT:
+        rect = { x: 0, y: bottom, width: cornerWidth, height: cornerHeight };
+        break;
+      case DETECTION_REGIONS.BOTTOM_RIGHT:
+        rect = {
+          x: right,
+          y: bottom,
+          width: cornerWidth,
+          height: cornerHeight,
+        };
+        break;
+      case DETECTION_REGIONS.FULL:
+        rect = { x: 0, y: 0, width: imageWidth, height: imageHeight };
+        break;
+    }
+  } else if (region.rect.unit === 'percent') {
+    rect = {
+      x: Math.floor(region.rect.x * imageWidth),
+      y: Math.floor(region.rect.y * imageHeight),
+      width: Math.floor(region.rect.width * imageWidth),
+      height: Math.floor(region.rect.height * imageHeight),
+    };
+  } else {
+    rect = {
+      x: Math.floor(region.rect.x),
+      y: Math.floor(region.rect.y),
+      width: Math.floor(region.rect.width),
+      height: Math.floor(region.rect.height),
+    };
+  }
+
+  // Clamp to the image
+  const x = Math.min(Math.max(rect.x, 0), imageWidth);
+  const y = Math.min(Math.max(rect.y, 0), imageHeight);
+  const width = Math.min(rect.x + rect.width, imageWidth) - x;
+  const height = Math.min(rect.y + rect.height, imageHeight) - y;
+
+  if (width <= 0 || height <= 0) {
+    return null;
+  }
+
+  return { x, y, width, height };
+}
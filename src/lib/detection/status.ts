@@ -0,0 +1,15 @@
+import { DETECTION_CONFIG, DETECTION_STATUS } from '@/lib/constants';
+import type { DetectionStatus } from '@/lib/schemas';
+
+/**
+ * Map the strongest hit's confidence onto a detection status
+ */
+export function detectionStatus(confidence: number): DetectionStatus {
+  if (confidence >= DETECTION_CONFIG.CONFIDENCE_THRESHOLD) {
+    return DETECTION_STATUS.BADGE_DETECTED;
+  }
+  if (confidence >= DETECTION_CONFIG.POSSIBLE_THRESHOLD) {
+    return DETECTION_STATUS.POSSIBLE_BADGE;
+  }
+  return DETECTION_STATUS.NO_BADGE;
+}
@@ -0,0 +1,73 @@
+import type {
+  CalibrationProfile,
+  DetectionExplanation,
+  DetectionRegion,
+  DetectionStrategy,
+  MatchMode,
+  MatchStrategy,
+} from '@/lib/schemas';
+
+/**
+ * Types shared between the detection worker and the main thread
+ */
+
+export interface BadgeMatch {
+  x: number; // Full-image pixel coordinates
+  y: number;
+  width: number;
+  height: number;
+  confidence: number;
+  templateId: string;
+  templateLabel: string;
+  scale: number; // Multiplier applied to the matched template variant
+  strategy: MatchStrategy;
+  rawConfidence?: number; // Set when confidence was calibrated
+  matchConfidence?: number; // Set when confidence was fused with a classifier
+  classifierScore?: number;
+}
+
+export interface BadgeHit extends BadgeMatch {
+  region: string;
+}
+
+export interface TemplateInfo {
+  id: string;
+  label: string;
+  vendor: string;
+  sizes: number[]; // Native sizes matched, empty when matched across SCALES
+}
+
+export interface RegionBadgeMatch {
+  region: string;
+  match: BadgeMatch | null; // Best match in the region, even below threshold
+}
+
+export interface DetectionOptions {
+  regions?: DetectionRegion[];
+  matchMode?: MatchMode;
+  strategy?: DetectionStrategy;
+  classifierModel?: string | null; // Registry id; null disables the classifier
+  calibration?: CalibrationProfile[]; // Override published profiles per key
+  explain?: boolean; // Return the winning hit's response map
+}
+
+export interface DetectionOutput {
+  match: BadgeHit | null; // Strongest hit, null below threshold
+  hits: BadgeHit[]; // Every hit above threshold after suppression
+  regions: RegionBadgeMatch[];
+  matchMode: MatchMode;
+  strategy: MatchStrategy; // Strategy behind the winning hit, or the last run
+  classifier?: { modelId: string; version: number }; // Set when fused
+  explanation?: DetectionExplanation; // Set when requested and flagged
+}
+
+export type DetectionWorkerAPI = {
+  initialize(): Promise<void>;
+  detectBadge(
+    imageData: ImageData,
+    options?: DetectionOptions
+  ): Promise<DetectionOutput>;
+  getTemplates(): TemplateInfo[];
+  isInitialized(): boolean;
+  cleanup(): void;
+};
@@ -0,0 +1,178 @@
+import {
+  C2PA_CONFIG,
+  C2PA_EXPORT_STATUS,
+  DISCLOSURE_CONFIG,
+  DISCLOSURE_SCOPES,
+  FILE_STATUS,
+} from './constants';
+import { decodeImageBitmap } from './file-utils';
+import { extractMetadataBlocks } from './metadata/containers';
+import { preserveMetadata, stripMetadata } from './metadata/preserve';
+import { setXmpProperties } from './metadata/xmp';
+import { writeXmp } from './metadata/writer';
+import { extractManifestStore } from './provenance/jumbf';
+import type {
+  C2paExportStatus,
+  DisclosureOptions,
+  MetadataStripField,
+  ProcessedFile,
+} from './schemas';
+
+export const DEFAULT_DISCLOSURE_OPTIONS: DisclosureOptions = {
+  enabled: false,
+  scope: DISCLOSURE_SCOPES.AI_GENERATED,
+  note: DISCLOSURE_CONFIG.DEFAULT_NOTE,
+  caption: false,
+  captionText: DISCLOSURE_CONFIG.DEFAULT_CAPTION,
+};
+
+export interface DisclosureTarget {
+  sourceType?: string; // IPTC digital source type code
+  source?: Blob; // File the image was re-encoded from, if any
+  strip?: MetadataStripField[];
+}
+
+export interface DisclosedImage {
+  blob: Blob;
+  captioned: boolean;
+  c2pa: C2paExportStatus;
+}
+
+function isAiGenerated(file: ProcessedFile): boolean {
+  const c2pa = file.provenance?.c2pa;
+  const active = c2pa?.manifests.find(
+    (manifest) => manifest.label === c2pa.activeManifest
+  );
+  return (
+    !!file.detectionResult?.provenanceSignals?.aiGenerated ||
+    !!file.metadata?.signals.aiGenerated ||
+    !!active?.aiGenerated
+  );
+}
+
+/**
+ * What an exported file carries of its source's C2PA manifest store. A
+ * store in `rewritten` bytes no longer matches its hash binding, so
+ * verifiers report it as tampered.
+ */
+export function c2paExportStatus(
+  bytes: Uint8Array,
+  rewritten: boolean
+): C2paExportStatus {
+  if (extractManifestStore(bytes) === null) return C2PA_EXPORT_STATUS.NONE;
+  return rewritten
+    ? C2PA_EXPORT_STATUS.INVALIDATED
+    : C2PA_EXPORT_STATUS.UNCHANGED;
+}
+
+/**
+ * Whether an exported file gets labeled. Resolved files had an AI badge;
+ * others need AI signals in their metadata or Content Credentials.
+ */
+export function needsDisclosure(
+  file: ProcessedFile,
+  options: DisclosureOptions
+): boolean {
+  if (!options.enabled) return false;
+  if (options.scope === DISCLOSURE_SCOPES.ALL) return true;
+  return (
+    file.status === FILE_STATUS.RESOLVED ||
+    isAiGenerated(file) ||
+    (!!file.replacementFile && isAiGenerated(file.replacementFile))
+  );
+}
+
+/**
+ * IPTC digital source type code for a file: its own when it already
+ * declares a generative one, the configured default otherwise
+ */
+export function disclosureSourceType(file: ProcessedFile): string {
+  const declared = file.metadata?.digitalSourceType;
+  const aiSourceTypes: readonly string[] = C2PA_CONFIG.AI_SOURCE_TYPES;
+  return declared && aiSourceTypes.includes(declared)
+    ? declared
+    : DISCLOSURE_CONFIG.DEFAULT_SOURCE_TYPE;
+}
+
+/**
+ * The image with a caption strip appended below it, in the same format
+ */
+async function renderCaption(image: Blob, text: string): Promise<Blob> {
+  // Keep the source color space; its ICC profile is carried over
+  const bitmap = await decodeImageBitmap(image);
+  const strip = Math.max(
+    DISCLOSURE_CONFIG.MIN_CAPTION_HEIGHT,
+    Math.round(bitmap.height * DISCLOSURE_CONFIG.CAPTION_HEIGHT)
+  );
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height + strip);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  ctx.fillStyle = DISCLOSURE_CONFIG.CAPTION_BACKGROUND;
+  ctx.fillRect(0, canvas.height - strip, canvas.width, strip);
+  ctx.fillStyle = DISCLOSURE_CONFIG.CAPTION_COLOR;
+  ctx.font = `${Math.round(strip * 0.5)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(
+    text,
+    canvas.width / 2,
+    canvas.height - strip / 2,
+    canvas.width - strip
+  );
+
+  return canvas.convertToBlob({
+    type: image.type || 'image/png',
+    quality: 0.95,
+  });
+}
+
+/**
+ * Label an image as AI-generated: IPTC DigitalSourceType and a disclosure
+ * note in its XMP, plus an optional visible caption. When the pixels were
+ * re-encoded, the metadata of `source` (the image itself by default) is
+ * carried over, C2PA manifest store included; `strip` fields are removed.
+ * Writing the label rewrites the file, so a carried store is invalidated.
+ * Throws UnsupportedFormatError for formats other than JPEG, PNG and WebP.
+ */
+export async function applyDisclosure(
+  image: Blob,
+  options: DisclosureOptions,
+  {
+    sourceType = DISCLOSURE_CONFIG.DEFAULT_SOURCE_TYPE,
+    source = image,
+    strip = [],
+  }: DisclosureTarget = {}
+): Promise<DisclosedImage> {
+  const original = new Uint8Array(await source.arrayBuffer());
+  const encoded = options.caption
+    ? await renderCaption(image, options.captionText)
+    : image;
+  let bytes =
+    encoded === source
+      ? await stripMetadata(original, strip)
+      : await preserveMetadata(
+          original,
+          new Uint8Array(await encoded.arrayBuffer()),
+          strip
+        );
+  const [xmp = null] = (await extractMetadataBlocks(bytes)).xmp;
+  bytes = writeXmp(
+    bytes,
+    setXmpProperties(xmp, {
+      'Iptc4xmpExt:DigitalSourceType': `${DISCLOSURE_CONFIG.SOURCE_TYPE_VOCABULARY}${sourceType}`,
+      'photoshop:Instructions': options.note,
+    })
+  );
+
+  return {
+    blob: new Blob([new Uint8Array(bytes)], { type: encoded.type }),
+    captioned: options.caption,
+    c2pa: c2paExportStatus(bytes, true),
+  };
+}
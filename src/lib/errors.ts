@@ -22,6 +22,13 @@ export class DetectionError extends Error {
   }
 }
 
+export class DetectionCancelledError extends DetectionError {
+  constructor(message = 'Detection cancelled') {
+    super(message);
+    this.name = 'DetectionCancelledError';
+  }
+}
+
 export class UnsupportedFormatError extends Error {
   constructor(
     message: string,
@@ -31,3 +38,17 @@ export class UnsupportedFormatError extends Error {
     this.name = 'UnsupportedFormatError';
   }
 }
+
+export class ProvenanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProvenanceError';
+  }
+}
+
+export class MetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataError';
+  }
+}
@@ -1,6 +1,10 @@
 import { SUPPORTED_FORMATS, FILE_LIMITS } from './constants';
 import { logger } from './logger';
 import { ValidationError } from './errors';
+import { extractMetadataBlocks } from './metadata/containers';
+import { isRgbProfile } from './metadata/icc';
+import { readImageMetadata } from './metadata/metadata';
+import type { ImageMetadata } from './schemas';
 
 export interface FileValidationResult {
   valid: boolean;
@@ -155,6 +159,67 @@ export async function generateThumbnail(
   });
 }
 
+/**
+ * Decode an image into RGBA pixels, downscaled so its longer side is at
+ * most `maxSide`
+ */
+export async function readImagePixels(
+  file: Blob,
+  maxSide: number
+): Promise<ImageData> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const objectUrl = URL.createObjectURL(file);
+
+    img.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      const scale = Math.min(
+        maxSide / Math.max(img.naturalWidth, img.naturalHeight),
+        1
+      );
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(Math.round(img.naturalWidth * scale), 1);
+      canvas.height = Math.max(Math.round(img.naturalHeight * scale), 1);
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new ValidationError('Failed to load image'));
+    };
+
+    img.src = objectUrl;
+  });
+}
+
+/**
+ * Decode an image for processing in its own color space. Pixels of images
+ * with an RGB profile are left unconverted, as the profile is re-attached
+ * on output; others are converted to sRGB, since theirs cannot be.
+ */
+export async function decodeImageBitmap(image: Blob): Promise<ImageBitmap> {
+  let keepColors = true;
+  try {
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    const [icc] = (await extractMetadataBlocks(bytes)).icc;
+    keepColors = !icc || isRgbProfile(icc);
+  } catch (error) {
+    // Metadata is not carried over either, so convert to sRGB
+    logger.debug('Decoding unreadable image metadata as sRGB', { error });
+    keepColors = false;
+  }
+  return createImageBitmap(image, {
+    colorSpaceConversion: keepColors ? 'none' : 'default',
+  });
+}
+
 /**
  * Process a file: validate, get dimensions, generate thumbnail
  */
@@ -165,6 +230,7 @@ export async function processImageFile(file: File): Promise<{
   size: number;
   dimensions: ImageDimensions;
   thumbnailUrl: string;
+  metadata: ImageMetadata;
 }> {
   // Validate file
   const validation = validateFile(file);
@@ -175,10 +241,11 @@ export async function processImageFile(file: File): Promise<{
   // Generate unique ID
   const id = generateFileId();
 
-  // Get dimensions and thumbnail in parallel
-  const [dimensions, thumbnailUrl] = await Promise.all([
+  // Get dimensions, thumbnail and metadata in parallel
+  const [dimensions, thumbnailUrl, metadata] = await Promise.all([
     getImageDimensions(file),
     generateThumbnail(file),
+    readImageMetadata(file),
   ]);
 
   logger.debug('Processed file', {
@@ -186,6 +253,8 @@ export async function processImageFile(file: File): Promise<{
     name: file.name,
     size: file.size,
     dimensions,
+    software: metadata.software,
+    aiGenerated: metadata.signals.aiGenerated,
   });
 
   return {
@@ -195,6 +264,7 @@ export async function processImageFile(file: File): Promise<{
     size: file.size,
     dimensions,
     thumbnailUrl,
+    metadata,
   };
 }
 
@@ -208,3 +278,31 @@ export function cleanupObjectUrl(url: string): void {
     logger.warn('Failed to revoke object URL', { url, error });
   }
 }
+
+/**
+ * SHA-256 of a file's bytes as lowercase hex
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    await file.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Save a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
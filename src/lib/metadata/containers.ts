@@ -0,0 +1,351 @@
+import { MetadataError } from '@/lib/errors';
+
+/**
+ * Locate the raw metadata blocks each container format carries: EXIF (TIFF
+ * streams), XMP packets, IPTC resources, ICC profiles, PNG text chunks and
+ * JPEG comments
+ */
+
+export interface TextChunk {
+  keyword: string;
+  text: string;
+}
+
+export interface MetadataBlocks {
+  exif: Uint8Array[]; // TIFF header onwards
+  xmp: string[];
+  iptc: Uint8Array[]; // Photoshop image resource blocks
+  icc: Uint8Array[]; // Embedded color profiles, reassembled and inflated
+  text: TextChunk[];
+  comments: string[];
+}
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+const utf8 = new TextDecoder();
+const latin1 = new TextDecoder('latin1');
+
+function emptyBlocks(): MetadataBlocks {
+  return { exif: [], xmp: [], iptc: [], icc: [], text: [], comments: [] };
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function fourCC(bytes: Uint8Array, at: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(at, at + 4)));
+}
+
+function startsWith(bytes: Uint8Array, prefix: string, at = 0): boolean {
+  if (at + prefix.length > bytes.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[at + i] !== prefix.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+// Some writers prefix EXIF chunks with the JPEG APP1 header
+function stripExifHeader(bytes: Uint8Array): Uint8Array {
+  return startsWith(bytes, EXIF_HEADER)
+    ? bytes.subarray(EXIF_HEADER.length)
+    : bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  if (parts.length === 1) return parts[0];
+  const joined = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let at = 0;
+  for (const part of parts) {
+    joined.set(part, at);
+    at += part.length;
+  }
+  return joined;
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(bytes)])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function readJpeg(bytes: Uint8Array): MetadataBlocks {
+  const blocks = emptyBlocks();
+  const data = view(bytes);
+  const iccChunks: { sequence: number; chunk: Uint8Array }[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xd9 || marker === 0xda) break; // End of image, scan data
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    const length = data.getUint16(offset + 2);
+    const segment = bytes.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && startsWith(segment, EXIF_HEADER)) {
+      blocks.exif.push(segment.subarray(EXIF_HEADER.length));
+    } else if (marker === 0xe1 && startsWith(segment, XMP_HEADER)) {
+      blocks.xmp.push(utf8.decode(segment.subarray(XMP_HEADER.length)));
+    } else if (marker === 0xed && startsWith(segment, PHOTOSHOP_HEADER)) {
+      blocks.iptc.push(segment.subarray(PHOTOSHOP_HEADER.length));
+    } else if (marker === 0xe2 && startsWith(segment, ICC_HEADER)) {
+      // Sequence number and chunk count precede each part of the profile
+      iccChunks.push({
+        sequence: segment[ICC_HEADER.length],
+        chunk: segment.subarray(ICC_HEADER.length + 2),
+      });
+    } else if (marker === 0xfe) {
+      blocks.comments.push(utf8.decode(segment));
+    }
+    offset += 2 + length;
+  }
+
+  if (iccChunks.length > 0) {
+    blocks.icc.push(
+      concat(
+        iccChunks
+          .sort((a, b) => a.sequence - b.sequence)
+          .map(({ chunk }) => chunk)
+      )
+    );
+  }
+  return blocks;
+}
+
+async function readPng(bytes: Uint8Array): Promise<MetadataBlocks> {
+  const blocks = emptyBlocks();
+  const data = view(bytes);
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = data.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IEND') break;
+
+    if (type === 'eXIf') {
+      blocks.exif.push(stripExifHeader(chunk));
+    } else if (type === 'iCCP') {
+      // Profile name, compression method byte, then zlib data
+      const separator = chunk.indexOf(0);
+      if (separator > 0) {
+        blocks.icc.push(await inflate(chunk.subarray(separator + 2)));
+      }
+    } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      const text = await readTextChunk(type, chunk);
+      if (text?.keyword === PNG_XMP_KEYWORD) {
+        blocks.xmp.push(text.text);
+      } else if (text) {
+        blocks.text.push(text);
+      }
+    }
+    offset += 12 + length;
+  }
+  return blocks;
+}
+
+async function readTextChunk(
+  type: string,
+  chunk: Uint8Array
+): Promise<TextChunk | null> {
+  const separator = chunk.indexOf(0);
+  if (separator <= 0) return null;
+  const keyword = latin1.decode(chunk.subarray(0, separator));
+  const rest = chunk.subarray(separator + 1);
+
+  if (type === 'tEXt') return { keyword, text: latin1.decode(rest) };
+  if (type === 'zTXt') {
+    // Compression method byte, then zlib data
+    return { keyword, text: latin1.decode(await inflate(rest.subarray(1))) };
+  }
+
+  // iTXt: compression flag and method, language tag, translated keyword
+  const compressed = rest[0] === 1;
+  const languageEnd = rest.indexOf(0, 2);
+  const translatedEnd =
+    languageEnd === -1 ? -1 : rest.indexOf(0, languageEnd + 1);
+  if (translatedEnd === -1) return null;
+  const body = rest.subarray(translatedEnd + 1);
+  return {
+    keyword,
+    text: utf8.decode(compressed ? await inflate(body) : body),
+  };
+}
+
+function readWebp(bytes: Uint8Array): MetadataBlocks {
+  const blocks = emptyBlocks();
+  const data = view(bytes);
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const length = data.getUint32(offset + 4, true);
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'EXIF') {
+      blocks.exif.push(stripExifHeader(chunk));
+    } else if (type === 'XMP ') {
+      blocks.xmp.push(utf8.decode(chunk));
+    } else if (type === 'ICCP') {
+      blocks.icc.push(chunk);
+    }
+    offset += 8 + length + (length & 1);
+  }
+  return blocks;
+}
+
+interface IsoBox {
+  type: string;
+  start: number; // Offset of the payload
+  end: number;
+}
+
+function readIsoBoxes(bytes: Uint8Array, start: number, end: number): IsoBox[] {
+  const data = view(bytes);
+  const boxes: IsoBox[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = data.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      size = Number(data.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) {
+      throw new MetadataError(`Truncated ${type} box`);
+    }
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * HEIC keeps EXIF and XMP as items of the `meta` box, located by `iloc`
+ */
+function readHeic(bytes: Uint8Array): MetadataBlocks {
+  const blocks = emptyBlocks();
+  const data = view(bytes);
+  const meta = readIsoBoxes(bytes, 0, bytes.length).find(
+    (box) => box.type === 'meta'
+  );
+  if (!meta) return blocks;
+
+  // Full box: version and flags precede the children
+  const children = readIsoBoxes(bytes, meta.start + 4, meta.end);
+  const iinf = children.find((box) => box.type === 'iinf');
+  const iloc = children.find((box) => box.type === 'iloc');
+  if (!iinf || !iloc) return blocks;
+
+  const items = new Map<number, { type: string; contentType?: string }>();
+  const infoVersion = bytes[iinf.start];
+  const entriesStart = iinf.start + 4 + (infoVersion === 0 ? 2 : 4);
+  for (const infe of readIsoBoxes(bytes, entriesStart, iinf.end)) {
+    if (infe.type !== 'infe' || bytes[infe.start] < 2) continue;
+    const version = bytes[infe.start];
+    let at = infe.start + 4;
+    const id = version === 2 ? data.getUint16(at) : data.getUint32(at);
+    at += (version === 2 ? 2 : 4) + 2; // Item id, protection index
+    const type = fourCC(bytes, at);
+    at += 4;
+    const nameEnd = bytes.indexOf(0, at);
+    let contentType: string | undefined;
+    if (type === 'mime' && nameEnd !== -1 && nameEnd < infe.end) {
+      const typeEnd = bytes.indexOf(0, nameEnd + 1);
+      contentType = latin1.decode(
+        bytes.subarray(nameEnd + 1, typeEnd === -1 ? infe.end : typeEnd)
+      );
+    }
+    items.set(id, { type, contentType });
+  }
+
+  const version = bytes[iloc.start];
+  let at = iloc.start + 4;
+  const offsetSize = bytes[at] >> 4;
+  const lengthSize = bytes[at] & 0x0f;
+  const baseOffsetSize = bytes[at + 1] >> 4;
+  const indexSize = version > 0 ? bytes[at + 1] & 0x0f : 0;
+  at += 2;
+  const readSized = (size: number): number => {
+    const value =
+      size === 8
+        ? Number(data.getBigUint64(at))
+        : size === 4
+          ? data.getUint32(at)
+          : size === 2
+            ? data.getUint16(at)
+            : 0;
+    at += size;
+    return value;
+  };
+  const itemCount = readSized(version < 2 ? 2 : 4);
+
+  for (let i = 0; i < itemCount && at < iloc.end; i++) {
+    const id = readSized(version < 2 ? 2 : 4);
+    const method = version > 0 ? readSized(2) & 0x0f : 0;
+    at += 2; // Data reference index
+    const baseOffset = readSized(baseOffsetSize);
+    const extentCount = readSized(2);
+    const extents: Uint8Array[] = [];
+    for (let e = 0; e < extentCount; e++) {
+      readSized(indexSize);
+      const offset = baseOffset + readSized(offsetSize);
+      const length = readSized(lengthSize);
+      extents.push(bytes.subarray(offset, offset + length));
+    }
+
+    // Only items stored in the file itself, not in idat or other items
+    const item = items.get(id);
+    if (!item || method !== 0 || extents.length === 0) continue;
+    const content = concat(extents);
+
+    if (item.type === 'Exif' && content.length > 4) {
+      // Offset from the end of this field to the TIFF header
+      const tiffOffset = view(content).getUint32(0);
+      blocks.exif.push(content.subarray(4 + tiffOffset));
+    } else if (
+      item.type === 'mime' &&
+      item.contentType === 'application/rdf+xml'
+    ) {
+      blocks.xmp.push(utf8.decode(content));
+    }
+  }
+  return blocks;
+}
+
+function isHeic(bytes: Uint8Array): boolean {
+  if (fourCC(bytes, 4) !== 'ftyp') return false;
+  const brand = fourCC(bytes, 8);
+  return ['heic', 'heix', 'heim', 'heis', 'hevc', 'mif1', 'msf1'].includes(
+    brand
+  );
+}
+
+/**
+ * Raw metadata blocks of a JPEG, PNG, WebP or HEIC file; other formats
+ * yield no blocks
+ */
+export async function extractMetadataBlocks(
+  bytes: Uint8Array
+): Promise<MetadataBlocks> {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpeg(bytes);
+  if (bytes[0] === 0x89 && startsWith(bytes, 'PNG', 1)) return readPng(bytes);
+  if (fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WEBP') {
+    return readWebp(bytes);
+  }
+  if (isHeic(bytes)) return readHeic(bytes);
+  return emptyBlocks();
+}
@@ -0,0 +1,249 @@
+import { METADATA_SOURCES } from '@/lib/constants';
+import { MetadataError } from '@/lib/errors';
+import type { MetadataField } from '@/lib/schemas';
+
+/**
+ * EXIF text tags from a TIFF stream: IFD0 and the Exif sub-IFD. Also edits
+ * streams in place for re-encoded images.
+ */
+
+const IFD0_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+};
+
+const EXIF_IFD_TAGS: Record<number, string> = {
+  0x9003: 'DateTimeOriginal',
+  0x9286: 'UserComment',
+  0xa430: 'CameraOwnerName',
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const ORIENTATION_TAG = 0x0112;
+const PIXEL_X_DIMENSION_TAG = 0xa002;
+const PIXEL_Y_DIMENSION_TAG = 0xa003;
+const THUMBNAIL_OFFSET_TAG = 0x0201;
+const THUMBNAIL_LENGTH_TAG = 0x0202;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_UNDEFINED = 7;
+const MAX_ENTRIES = 512; // Guards against corrupt entry counts
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8,
+};
+
+// UserComment starts with an 8-byte character code
+const USER_COMMENT_CODES: Record<string, string> = {
+  'ASCII\0\0\0': 'latin1',
+  'UNICODE\0': 'utf-16',
+  '\0\0\0\0\0\0\0\0': 'utf-8',
+};
+
+function decodeUserComment(bytes: Uint8Array, littleEndian: boolean): string {
+  const code = String.fromCharCode(...Array.from(bytes.subarray(0, 8)));
+  let encoding = USER_COMMENT_CODES[code] ?? 'utf-8';
+  // UNICODE follows the TIFF byte order
+  if (encoding === 'utf-16') encoding = littleEndian ? 'utf-16le' : 'utf-16be';
+  return new TextDecoder(encoding).decode(bytes.subarray(8));
+}
+
+function byteOrder(tiff: Uint8Array, data: DataView): boolean {
+  if (tiff.length < 8) throw new MetadataError('Truncated EXIF');
+  const order = String.fromCharCode(tiff[0], tiff[1]);
+  if (order !== 'II' && order !== 'MM') {
+    throw new MetadataError('Invalid EXIF byte order');
+  }
+  const littleEndian = order === 'II';
+  if (data.getUint16(2, littleEndian) !== 42) {
+    throw new MetadataError('Invalid TIFF header');
+  }
+  return littleEndian;
+}
+
+function clean(text: string): string {
+  return text.replace(/\0+$/, '').trim();
+}
+
+/**
+ * Read the EXIF text tags provenance cares about
+ */
+export function parseExif(tiff: Uint8Array): MetadataField[] {
+  const data = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const littleEndian = byteOrder(tiff, data);
+
+  const fields: MetadataField[] = [];
+  const readIfd = (offset: number, tags: Record<number, string>): number[] => {
+    if (offset + 2 > tiff.length) throw new MetadataError('Truncated IFD');
+    const count = Math.min(data.getUint16(offset, littleEndian), MAX_ENTRIES);
+    const pointers: number[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) break;
+      const tag = data.getUint16(entry, littleEndian);
+      const type = data.getUint16(entry + 2, littleEndian);
+      const length = data.getUint32(entry + 4, littleEndian);
+
+      if (tag === EXIF_IFD_POINTER && type === TYPE_LONG) {
+        pointers.push(data.getUint32(entry + 8, littleEndian));
+        continue;
+      }
+      const name = tags[tag];
+      if (!name || (type !== TYPE_ASCII && type !== TYPE_UNDEFINED)) continue;
+
+      // Values over four bytes live at an offset
+      const start =
+        length > 4 ? data.getUint32(entry + 8, littleEndian) : entry + 8;
+      if (start + length > tiff.length) continue;
+      const bytes = tiff.subarray(start, start + length);
+      const value = clean(
+        name === 'UserComment'
+          ? decodeUserComment(bytes, littleEndian)
+          : new TextDecoder().decode(bytes)
+      );
+      if (value) fields.push({ source: METADATA_SOURCES.EXIF, name, value });
+    }
+    return pointers;
+  };
+
+  const [exifIfd] = readIfd(data.getUint32(4, littleEndian), IFD0_TAGS);
+  if (exifIfd !== undefined) readIfd(exifIfd, EXIF_IFD_TAGS);
+  return fields;
+}
+
+export interface ExifEdit {
+  remove: number[]; // Tags dropped from IFD0 and the Exif IFD
+  removeGps: boolean;
+  removeThumbnail: boolean; // IFD1, stale once the pixels change
+  orientation?: number;
+  size?: { width: number; height: number }; // Updates PixelX/YDimension
+}
+
+/**
+ * A copy of a TIFF stream with tags removed or updated. Offsets are kept,
+ * so nothing moves; the bytes of removed values are zeroed rather than
+ * left behind.
+ */
+export function editExif(source: Uint8Array, edit: ExifEdit): Uint8Array {
+  const tiff = source.slice();
+  const data = new DataView(tiff.buffer);
+  const littleEndian = byteOrder(tiff, data);
+  const remove = new Set(edit.remove);
+
+  const entryCount = (offset: number): number => {
+    if (offset + 2 > tiff.length) throw new MetadataError('Truncated IFD');
+    return Math.min(
+      data.getUint16(offset, littleEndian),
+      Math.floor((tiff.length - offset - 2) / 12),
+      MAX_ENTRIES
+    );
+  };
+  const zero = (start: number, length: number) => {
+    if (start < tiff.length) tiff.fill(0, start, start + length);
+  };
+  // Out-of-line value bytes of an entry
+  const zeroValue = (entry: number) => {
+    const type = data.getUint16(entry + 2, littleEndian);
+    const length =
+      (TYPE_SIZES[type] ?? 1) * data.getUint32(entry + 4, littleEndian);
+    if (length > 4) zero(data.getUint32(entry + 8, littleEndian), length);
+  };
+  // A whole IFD, its values and, for IFD1, the thumbnail it points to
+  const zeroIfd = (offset: number) => {
+    const count = entryCount(offset);
+    let thumbnail = 0;
+    let thumbnailLength = 0;
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = data.getUint16(entry, littleEndian);
+      if (tag === THUMBNAIL_OFFSET_TAG) {
+        thumbnail = data.getUint32(entry + 8, littleEndian);
+      } else if (tag === THUMBNAIL_LENGTH_TAG) {
+        thumbnailLength = data.getUint32(entry + 8, littleEndian);
+      }
+      zeroValue(entry);
+    }
+    if (thumbnailLength > 0) zero(thumbnail, thumbnailLength);
+    zero(offset, 2 + count * 12 + 4);
+  };
+  const setNumber = (entry: number, value: number) => {
+    const type = data.getUint16(entry + 2, littleEndian);
+    if (type === TYPE_SHORT) {
+      data.setUint16(entry + 8, Math.min(value, 0xffff), littleEndian);
+    } else if (type === TYPE_LONG) {
+      data.setUint32(entry + 8, value, littleEndian);
+    }
+  };
+
+  const editIfd = (offset: number, isIfd0: boolean) => {
+    const count = entryCount(offset);
+    const kept: Uint8Array[] = [];
+    let exifIfd: number | undefined;
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = data.getUint16(entry, littleEndian);
+      if (
+        remove.has(tag) ||
+        (tag === GPS_IFD_POINTER && isIfd0 && edit.removeGps)
+      ) {
+        if (tag === GPS_IFD_POINTER) {
+          zeroIfd(data.getUint32(entry + 8, littleEndian));
+        } else {
+          zeroValue(entry);
+        }
+        continue;
+      }
+
+      if (tag === EXIF_IFD_POINTER && isIfd0) {
+        exifIfd = data.getUint32(entry + 8, littleEndian);
+      } else if (tag === ORIENTATION_TAG && edit.orientation !== undefined) {
+        setNumber(entry, edit.orientation);
+      } else if (tag === PIXEL_X_DIMENSION_TAG && edit.size) {
+        setNumber(entry, edit.size.width);
+      } else if (tag === PIXEL_Y_DIMENSION_TAG && edit.size) {
+        setNumber(entry, edit.size.height);
+      }
+      kept.push(tiff.slice(entry, entry + 12));
+    }
+
+    // Compact the table; the freed entries before the next-IFD link are zero
+    const linkAt = offset + 2 + count * 12;
+    let next =
+      linkAt + 4 <= tiff.length ? data.getUint32(linkAt, littleEndian) : 0;
+    if (isIfd0 && edit.removeThumbnail && next !== 0) {
+      zeroIfd(next);
+      next = 0;
+    }
+    zero(offset, 2 + count * 12 + 4);
+    data.setUint16(offset, kept.length, littleEndian);
+    kept.forEach((entry, i) => tiff.set(entry, offset + 2 + i * 12));
+    const link = offset + 2 + kept.length * 12;
+    if (link + 4 <= tiff.length) data.setUint32(link, next, littleEndian);
+
+    if (exifIfd !== undefined) editIfd(exifIfd, false);
+  };
+
+  editIfd(data.getUint32(4, littleEndian), true);
+  return tiff;
+}
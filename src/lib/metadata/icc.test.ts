@@ -0,0 +1,124 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { MetadataError } from '@/lib/errors';
+import { isRgbProfile, parseIccProfile } from './icc';
+
+type Xyz = [number, number, number];
+
+function ascii(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function u32(value: number): number[] {
+  return [
+    value >>> 24,
+    (value >> 16) & 0xff,
+    (value >> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+function xyzTag([x, y, z]: Xyz): number[] {
+  return [
+    ...ascii('XYZ '),
+    ...u32(0),
+    ...[x, y, z].flatMap((value) => u32(Math.round(value * 65536))),
+  ];
+}
+
+function descTag(text: string): number[] {
+  return [
+    ...ascii('desc'),
+    ...u32(0),
+    ...u32(text.length + 1),
+    ...ascii(text),
+    0,
+  ];
+}
+
+function mlucTag(text: string): number[] {
+  const utf16 = Array.from(text).flatMap((char) => [0, char.charCodeAt(0)]);
+  return [
+    ...ascii('mluc'),
+    ...u32(0),
+    ...u32(1),
+    ...u32(12),
+    ...ascii('enUS'),
+    ...u32(utf16.length),
+    ...u32(28),
+    ...utf16,
+  ];
+}
+
+function profile(
+  colorSpace: string,
+  tags: Record<string, number[]>
+): Uint8Array {
+  const entries = Object.entries(tags);
+  const header = new Array<number>(128).fill(0);
+  header.splice(16, 4, ...ascii(colorSpace));
+  header.splice(36, 4, ...ascii('acsp'));
+
+  const table: number[] = [...u32(entries.length)];
+  const data: number[] = [];
+  let offset = 128 + 4 + entries.length * 12;
+  for (const [signature, tag] of entries) {
+    table.push(...ascii(signature), ...u32(offset), ...u32(tag.length));
+    data.push(...tag);
+    offset += tag.length;
+  }
+  return Uint8Array.from([...header, ...table, ...data]);
+}
+
+function colorants(r: Xyz, g: Xyz, b: Xyz): Record<string, number[]> {
+  return { rXYZ: xyzTag(r), gXYZ: xyzTag(g), bXYZ: xyzTag(b) };
+}
+
+describe('parseIccProfile', () => {
+  it('tells wide-gamut primaries from sRGB ones', () => {
+    const srgb = profile('RGB ', {
+      desc: descTag('sRGB IEC61966-2.1'),
+      ...colorants(
+        [0.4361, 0.2225, 0.0139],
+        [0.3851, 0.7169, 0.0971],
+        [0.1431, 0.0606, 0.7141]
+      ),
+    });
+    expect(parseIccProfile(srgb)).toEqual({
+      colorSpace: 'RGB',
+      description: 'sRGB IEC61966-2.1',
+      wideGamut: false,
+    });
+
+    const displayP3 = profile('RGB ', {
+      desc: mlucTag('Display P3'),
+      ...colorants(
+        [0.5151, 0.2412, -0.0011],
+        [0.2919, 0.6922, 0.0419],
+        [0.1571, 0.0666, 0.7841]
+      ),
+    });
+    expect(parseIccProfile(displayP3)).toEqual({
+      colorSpace: 'RGB',
+      description: 'Display P3',
+      wideGamut: true,
+    });
+    expect(isRgbProfile(displayP3)).toBe(true);
+  });
+
+  it('falls back on the description without colorant tags', () => {
+    const adobe = profile('RGB ', { desc: descTag('Adobe RGB (1998)') });
+    expect(parseIccProfile(adobe).wideGamut).toBe(true);
+
+    const cmyk = profile('CMYK', { desc: descTag('Coated FOGRA39') });
+    expect(parseIccProfile(cmyk)).toMatchObject({
+      colorSpace: 'CMYK',
+      wideGamut: false,
+    });
+    expect(isRgbProfile(cmyk)).toBe(false);
+  });
+
+  it('rejects data without a profile signature', () => {
+    expect(() => parseIccProfile(new Uint8Array(200))).toThrow(MetadataError);
+  });
+});
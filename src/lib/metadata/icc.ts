@@ -0,0 +1,144 @@
+import { ICC_CONFIG } from '@/lib/constants';
+import { MetadataError } from '@/lib/errors';
+import type { ColorProfile } from '@/lib/schemas';
+
+/**
+ * ICC profile headers: color space, description and how wide the gamut of
+ * an RGB profile's primaries is
+ */
+
+const HEADER_SIZE = 128;
+const TAG_ENTRY_SIZE = 12;
+const MAX_TAGS = 256; // Guards against corrupt tag counts
+
+// sRGB primaries adapted to D50, as ICC colorant tags store them
+const SRGB_COLORANTS: Colorants = [
+  [0.4361, 0.2225, 0.0139],
+  [0.3851, 0.7169, 0.0971],
+  [0.1431, 0.0606, 0.7141],
+];
+
+type Xyz = [number, number, number];
+type Colorants = [Xyz, Xyz, Xyz];
+
+function signature(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+}
+
+function readTags(bytes: Uint8Array, view: DataView): Map<string, Uint8Array> {
+  const count = view.getUint32(HEADER_SIZE);
+  if (count > MAX_TAGS) throw new MetadataError('Too many ICC tags');
+  if (HEADER_SIZE + 4 + count * TAG_ENTRY_SIZE > bytes.length) {
+    throw new MetadataError('Truncated ICC tag table');
+  }
+
+  const tags = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    const entry = HEADER_SIZE + 4 + i * TAG_ENTRY_SIZE;
+    const offset = view.getUint32(entry + 4);
+    const size = view.getUint32(entry + 8);
+    // Tags past the end are skipped rather than failing the whole profile
+    if (offset + size > bytes.length) continue;
+    tags.set(signature(bytes, entry), bytes.subarray(offset, offset + size));
+  }
+  return tags;
+}
+
+// textDescriptionType (v2) or multiLocalizedUnicodeType (v4)
+function readDescription(tag: Uint8Array): string | undefined {
+  const view = new DataView(tag.buffer, tag.byteOffset, tag.byteLength);
+  const type = signature(tag, 0);
+
+  if (type === 'desc' && tag.length >= 12) {
+    const length = Math.min(view.getUint32(8), tag.length - 12);
+    const text = new TextDecoder('latin1').decode(
+      tag.subarray(12, 12 + length)
+    );
+    return text.replace(/\0[\s\S]*$/, '').trim() || undefined;
+  }
+
+  if (type === 'mluc' && tag.length >= 16) {
+    const records = view.getUint32(8);
+    const recordSize = view.getUint32(12);
+    if (records === 0 || 16 + recordSize > tag.length) return undefined;
+    // The first record; profiles list English first by convention
+    const length = view.getUint32(16 + 4);
+    const offset = view.getUint32(16 + 8);
+    if (offset + length > tag.length) return undefined;
+    let text = '';
+    for (let at = offset; at + 1 < offset + length; at += 2) {
+      text += String.fromCharCode(view.getUint16(at));
+    }
+    return text.replace(/\0[\s\S]*$/, '').trim() || undefined;
+  }
+
+  return undefined;
+}
+
+// XYZType holding one s15Fixed16 triple
+function readXyz(tag: Uint8Array | undefined): Xyz | undefined {
+  if (!tag || tag.length < 20 || signature(tag, 0) !== 'XYZ ') {
+    return undefined;
+  }
+  const view = new DataView(tag.buffer, tag.byteOffset, tag.byteLength);
+  return [0, 1, 2].map((i) => view.getInt32(8 + i * 4) / 65536) as Xyz;
+}
+
+// Area of the triangle the primaries span on the xy chromaticity diagram
+function chromaticityArea(colorants: Colorants): number {
+  const [[x1, y1], [x2, y2], [x3, y3]] = colorants.map(([x, y, z]) => {
+    const sum = x + y + z || 1;
+    return [x / sum, y / sum];
+  });
+  return Math.abs((x2 - x1) * (y3 - y1) - (x3 - x1) * (y2 - y1)) / 2;
+}
+
+/**
+ * Gamut of an RGB profile's primaries relative to sRGB, by chromaticity
+ * area; undefined for LUT-based profiles without colorant tags
+ */
+function gamutArea(tags: Map<string, Uint8Array>): number | undefined {
+  const colorants = ['rXYZ', 'gXYZ', 'bXYZ'].map((tag) =>
+    readXyz(tags.get(tag))
+  );
+  if (colorants.some((xyz) => xyz === undefined)) return undefined;
+  return (
+    chromaticityArea(colorants as Colorants) / chromaticityArea(SRGB_COLORANTS)
+  );
+}
+
+/**
+ * Parse an ICC profile. Wide gamut is judged by the primaries when the
+ * profile has colorant tags, by its description otherwise.
+ */
+export function parseIccProfile(bytes: Uint8Array): ColorProfile {
+  if (bytes.length < HEADER_SIZE + 4 || signature(bytes, 36) !== 'acsp') {
+    throw new MetadataError('Invalid ICC profile');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tags = readTags(bytes, view);
+  const colorSpace = signature(bytes, 16).trim();
+  const descriptionTag = tags.get('desc');
+  const description = descriptionTag && readDescription(descriptionTag);
+
+  let wideGamut = false;
+  if (colorSpace === 'RGB') {
+    const area = gamutArea(tags);
+    wideGamut =
+      area !== undefined
+        ? area > ICC_CONFIG.WIDE_GAMUT_AREA
+        : ICC_CONFIG.WIDE_GAMUT_NAMES.some((pattern) =>
+            pattern.test(description ?? '')
+          );
+  }
+
+  return { colorSpace, description, wideGamut };
+}
+
+/**
+ * Whether a re-encoded canvas can carry the profile over: canvases hold
+ * RGB, so only RGB profiles describe their pixels
+ */
+export function isRgbProfile(bytes: Uint8Array): boolean {
+  return bytes.length >= 20 && signature(bytes, 16) === 'RGB ';
+}
@@ -0,0 +1,114 @@
+import { METADATA_SOURCES } from '@/lib/constants';
+import type { MetadataField } from '@/lib/schemas';
+
+/**
+ * IPTC-IIM datasets from Photoshop image resources (JPEG APP13)
+ */
+
+const IPTC_RESOURCE_ID = 0x0404;
+const IIM_MARKER = 0x1c;
+const APPLICATION_RECORD = 2;
+
+const DATASETS: Record<number, string> = {
+  55: 'DateCreated',
+  65: 'OriginatingProgram',
+  70: 'ProgramVersion',
+  80: 'By-line',
+  110: 'Credit',
+  115: 'Source',
+  116: 'CopyrightNotice',
+  120: 'Caption-Abstract',
+};
+
+interface ResourceBlock {
+  id: number;
+  block: Uint8Array; // The whole 8BIM block, padding included
+  payload: Uint8Array;
+}
+
+function resourceBlocks(resources: Uint8Array): ResourceBlock[] {
+  const data = new DataView(
+    resources.buffer,
+    resources.byteOffset,
+    resources.byteLength
+  );
+  const blocks: ResourceBlock[] = [];
+  let offset = 0;
+
+  while (offset + 12 <= resources.length) {
+    if (
+      String.fromCharCode(
+        ...Array.from(resources.subarray(offset, offset + 4))
+      ) !== '8BIM'
+    ) {
+      break;
+    }
+    const id = data.getUint16(offset + 4);
+    // Pascal name, padded to an even length including the length byte
+    const nameLength = resources[offset + 6];
+    let at = offset + 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    if (at + 4 > resources.length) break;
+    const size = data.getUint32(at);
+    at += 4;
+    const end = Math.min(at + size + (size % 2), resources.length);
+    blocks.push({
+      id,
+      block: resources.subarray(offset, end),
+      payload: resources.subarray(at, Math.min(at + size, resources.length)),
+    });
+    offset = at + size + (size % 2);
+  }
+  return blocks;
+}
+
+/**
+ * The image resources without the given resource ids, e.g. thumbnails
+ */
+export function removeResources(
+  resources: Uint8Array,
+  ids: number[]
+): Uint8Array {
+  const kept = resourceBlocks(resources)
+    .filter((resource) => !ids.includes(resource.id))
+    .map((resource) => resource.block);
+  const joined = new Uint8Array(
+    kept.reduce((total, block) => total + block.length, 0)
+  );
+  let at = 0;
+  for (const block of kept) {
+    joined.set(block, at);
+    at += block.length;
+  }
+  return joined;
+}
+
+/**
+ * Read the application-record datasets provenance cares about
+ */
+export function parseIptc(resources: Uint8Array): MetadataField[] {
+  const fields: MetadataField[] = [];
+  const decoder = new TextDecoder();
+
+  const iptc = resourceBlocks(resources).filter(
+    (resource) => resource.id === IPTC_RESOURCE_ID
+  );
+  for (const { payload: iim } of iptc) {
+    const data = new DataView(iim.buffer, iim.byteOffset, iim.byteLength);
+    let offset = 0;
+    while (offset + 5 <= iim.length && iim[offset] === IIM_MARKER) {
+      const record = iim[offset + 1];
+      const dataset = iim[offset + 2];
+      const size = data.getUint16(offset + 3);
+      // Extended-length datasets are binary; none of ours use them
+      if (size & 0x8000) break;
+      const start = offset + 5;
+      const name = DATASETS[dataset];
+      if (record === APPLICATION_RECORD && name && start + size <= iim.length) {
+        const value = decoder.decode(iim.subarray(start, start + size)).trim();
+        if (value) fields.push({ source: METADATA_SOURCES.IPTC, name, value });
+      }
+      offset = start + size;
+    }
+  }
+  return fields;
+}
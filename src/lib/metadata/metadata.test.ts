@@ -0,0 +1,303 @@
+// @vitest-environment node
+import { deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { METADATA_SOURCES, PROVENANCE_SIGNAL_KINDS } from '@/lib/constants';
+import { encodeJpeg, encodePng } from '@/lib/detection/node';
+import { readMetadata } from './metadata';
+
+const image = {
+  data: new Uint8ClampedArray(8 * 8 * 4).fill(180),
+  width: 8,
+  height: 8,
+};
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let at = 0;
+  for (const part of parts) {
+    joined.set(part, at);
+    at += part.length;
+  }
+  return joined;
+}
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function u16(value: number): Uint8Array {
+  return Uint8Array.of(value >> 8, value & 0xff);
+}
+
+function u32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number; // 2 ASCII, 4 LONG, 7 UNDEFINED
+  value: Uint8Array;
+}
+
+// Little-endian IFD at `offset`; values over four bytes follow the table
+function ifd(entries: IfdEntry[], offset: number): Uint8Array {
+  const table = new Uint8Array(2 + entries.length * 12 + 4);
+  const view = new DataView(table.buffer);
+  const values: Uint8Array[] = [];
+  let valueAt = offset + table.length;
+
+  view.setUint16(0, entries.length, true);
+  entries.forEach((entry, index) => {
+    const at = 2 + index * 12;
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(
+      at + 4,
+      entry.type === 4 ? entry.value.length / 4 : entry.value.length,
+      true
+    );
+    if (entry.value.length <= 4) {
+      table.set(entry.value, at + 8);
+    } else {
+      view.setUint32(at + 8, valueAt, true);
+      values.push(entry.value);
+      valueAt += entry.value.length;
+    }
+  });
+  return concat(table, ...values);
+}
+
+function tiff(tags: Record<number, string>, userComment?: string): Uint8Array {
+  const header = concat(ascii('II'), Uint8Array.of(42, 0, 8, 0, 0, 0));
+  const entries: IfdEntry[] = Object.entries(tags).map(([tag, text]) => ({
+    tag: Number(tag),
+    type: 2,
+    value: ascii(`${text}\0`),
+  }));
+  if (userComment === undefined) return concat(header, ifd(entries, 8));
+
+  // The Exif IFD pointer needs IFD0's size, which the pointer doesn't change
+  const pointer = (offset: number): IfdEntry => ({
+    tag: 0x8769,
+    type: 4,
+    value: Uint8Array.of(offset & 0xff, offset >> 8, 0, 0),
+  });
+  const exifAt = 8 + ifd([...entries, pointer(0)], 8).length;
+  return concat(
+    header,
+    ifd([...entries, pointer(exifAt)], 8),
+    ifd(
+      [
+        {
+          tag: 0x9286,
+          type: 7,
+          value: concat(ascii('ASCII\0\0\0'), ascii(userComment)),
+        },
+      ],
+      exifAt
+    )
+  );
+}
+
+function jpegWith(...segments: [number, Uint8Array][]): Uint8Array {
+  const jpeg = encodeJpeg(image, 90);
+  return concat(
+    jpeg.subarray(0, 2),
+    ...segments.map(([marker, payload]) =>
+      concat(Uint8Array.of(0xff, marker), u16(payload.length + 2), payload)
+    ),
+    jpeg.subarray(2)
+  );
+}
+
+function pngWith(...chunks: [string, Uint8Array][]): Uint8Array {
+  const png = encodePng(image);
+  return concat(
+    png.subarray(0, 33), // Signature and IHDR
+    ...chunks.map(([type, data]) =>
+      concat(u32(data.length), ascii(type), data, u32(0))
+    ),
+    png.subarray(33)
+  );
+}
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const body = concat(...payload);
+  return concat(u32(8 + body.length), ascii(type), body);
+}
+
+const XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description
+  xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:ext="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+  xmp:CreatorTool="Studio &amp; Co 2.1">
+  <dc:creator><rdf:Seq><rdf:li>Ada</rdf:li><rdf:li>Grace</rdf:li></rdf:Seq></dc:creator>
+  <ext:DigitalSourceType rdf:resource="http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia"/>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>`;
+
+describe('readMetadata', () => {
+  it('merges EXIF, XMP and IPTC from a JPEG and flags AI sources', async () => {
+    const iim = concat(Uint8Array.of(0x1c, 2, 80), u16(4), ascii('Lin '));
+    const resources = concat(
+      ascii('8BIM'),
+      u16(0x0404),
+      Uint8Array.of(0, 0), // Empty, padded resource name
+      u32(iim.length),
+      iim,
+      new Uint8Array(iim.length % 2)
+    );
+    const jpeg = jpegWith(
+      [
+        0xe1,
+        concat(
+          ascii('Exif\0\0'),
+          tiff(
+            { 0x0131: 'ImageTool', 0x013b: 'Ada' },
+            'a castle, Steps: 30, Sampler: Euler a, CFG scale: 7'
+          )
+        ),
+      ],
+      [0xe1, concat(ascii('http://ns.adobe.com/xap/1.0/\0'), ascii(XMP))],
+      [0xed, concat(ascii('Photoshop 3.0\0'), resources)]
+    );
+
+    const metadata = await readMetadata(jpeg);
+    expect(metadata).toMatchObject({
+      software: 'Studio & Co 2.1', // XMP wins over EXIF
+      creator: 'Ada, Grace',
+      digitalSourceType: 'trainedAlgorithmicMedia',
+    });
+    expect(metadata.fields).toContainEqual({
+      source: METADATA_SOURCES.IPTC,
+      name: 'By-line',
+      value: 'Lin',
+    });
+    expect(metadata.signals).toMatchObject({
+      aiGenerated: true,
+      digitalSourceType: 'trainedAlgorithmicMedia',
+      generators: ['Stable Diffusion web UI'],
+    });
+    expect(metadata.signals.signals).toContainEqual({
+      kind: PROVENANCE_SIGNAL_KINDS.GENERATOR,
+      source: METADATA_SOURCES.EXIF,
+      field: 'UserComment',
+      value: 'Stable Diffusion web UI',
+    });
+  });
+
+  it('reads PNG text chunks, compressed or not', async () => {
+    const png = pngWith(
+      ['tEXt', ascii('parameters\0a castle\nSteps: 20')],
+      [
+        'zTXt',
+        concat(
+          ascii('Software\0'),
+          Uint8Array.of(0),
+          deflateSync('Midjourney v6')
+        ),
+      ],
+      ['iTXt', concat(ascii('XML:com.adobe.xmp\0\0\0\0\0'), ascii(XMP))]
+    );
+
+    const metadata = await readMetadata(png);
+    expect(metadata.software).toBe('Studio & Co 2.1');
+    expect(metadata.signals.generators).toEqual([
+      'Stable Diffusion web UI',
+      'Midjourney',
+    ]);
+    expect(metadata.fields).toContainEqual({
+      source: METADATA_SOURCES.PNG_TEXT,
+      name: 'parameters',
+      value: 'a castle Steps: 20',
+    });
+  });
+
+  it('finds EXIF in WebP and HEIC containers', async () => {
+    const exif = tiff({ 0x0131: 'DALL-E 3' });
+    const little = (value: number) => Uint8Array.of(value, value >> 8, 0, 0);
+    const chunks = concat(
+      ascii('VP8L'),
+      little(2),
+      Uint8Array.of(0, 0),
+      ascii('EXIF'),
+      little(exif.length + 6),
+      ascii('Exif\0\0'),
+      exif
+    );
+    const webp = concat(
+      ascii('RIFF'),
+      little(4 + chunks.length),
+      ascii('WEBP'),
+      chunks
+    );
+    expect((await readMetadata(webp)).signals.generators).toEqual(['DALL·E']);
+
+    // ftyp, meta with one Exif item located by iloc, then mdat
+    const item = concat(u32(6), ascii('Exif\0\0'), exif);
+    const ftyp = box('ftyp', ascii('heic'), u32(0), ascii('mif1heic'));
+    const meta = (offset: number) =>
+      box(
+        'meta',
+        u32(0),
+        box(
+          'iinf',
+          u32(0),
+          u16(1),
+          box(
+            'infe',
+            Uint8Array.of(2, 0, 0, 0),
+            u16(1),
+            u16(0),
+            ascii('Exif\0')
+          )
+        ),
+        box(
+          'iloc',
+          u32(0),
+          Uint8Array.of(0x44, 0x00), // 4-byte offsets and lengths, no base
+          u16(1),
+          u16(1),
+          u16(0),
+          u16(1),
+          u32(offset),
+          u32(item.length)
+        )
+      );
+    const mdatAt = ftyp.length + meta(0).length;
+    const heic = concat(ftyp, meta(mdatAt + 8), box('mdat', item));
+
+    const metadata = await readMetadata(heic);
+    expect(metadata.software).toBe('DALL-E 3');
+    expect(metadata.signals.aiGenerated).toBe(true);
+  });
+
+  it('leaves ordinary camera metadata unflagged', async () => {
+    const jpeg = jpegWith([
+      0xe1,
+      concat(
+        ascii('Exif\0\0'),
+        tiff({
+          0x010f: 'Canon',
+          0x0110: 'Canon EOS R5',
+          0x0131: 'Adobe Photoshop 25.0',
+        })
+      ),
+    ]);
+
+    const metadata = await readMetadata(jpeg);
+    expect(metadata).toMatchObject({
+      camera: 'Canon EOS R5',
+      software: 'Adobe Photoshop 25.0',
+      signals: { aiGenerated: false, generators: [], signals: [] },
+    });
+    expect((await readMetadata(encodePng(image))).fields).toEqual([]);
+  });
+});
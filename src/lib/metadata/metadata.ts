@@ -0,0 +1,264 @@
+import {
+  C2PA_CONFIG,
+  METADATA_CONFIG,
+  METADATA_SOURCES,
+  PROVENANCE_SIGNAL_KINDS,
+} from '@/lib/constants';
+import { logger } from '@/lib/logger';
+import type {
+  ColorProfile,
+  ImageMetadata,
+  MetadataField,
+  MetadataSource,
+  ProvenanceSignal,
+  ProvenanceSignals,
+} from '@/lib/schemas';
+import { extractMetadataBlocks, type MetadataBlocks } from './containers';
+import { parseExif } from './exif';
+import { parseIccProfile } from './icc';
+import { parseIptc } from './iptc';
+import { parseXmp } from './xmp';
+
+type FieldKey = [MetadataSource, string];
+
+// Where each normalized field comes from, most authoritative first
+const SOFTWARE_FIELDS: FieldKey[] = [
+  [METADATA_SOURCES.XMP, 'xmp:CreatorTool'],
+  [METADATA_SOURCES.EXIF, 'Software'],
+  [METADATA_SOURCES.IPTC, 'OriginatingProgram'],
+  [METADATA_SOURCES.PNG_TEXT, 'Software'],
+];
+const CREATOR_FIELDS: FieldKey[] = [
+  [METADATA_SOURCES.XMP, 'dc:creator'],
+  [METADATA_SOURCES.EXIF, 'Artist'],
+  [METADATA_SOURCES.IPTC, 'By-line'],
+  [METADATA_SOURCES.PNG_TEXT, 'Author'],
+];
+const COPYRIGHT_FIELDS: FieldKey[] = [
+  [METADATA_SOURCES.XMP, 'dc:rights'],
+  [METADATA_SOURCES.EXIF, 'Copyright'],
+  [METADATA_SOURCES.IPTC, 'CopyrightNotice'],
+  [METADATA_SOURCES.PNG_TEXT, 'Copyright'],
+];
+const CREATED_FIELDS: FieldKey[] = [
+  [METADATA_SOURCES.XMP, 'xmp:CreateDate'],
+  [METADATA_SOURCES.EXIF, 'DateTimeOriginal'],
+  [METADATA_SOURCES.EXIF, 'DateTime'],
+  [METADATA_SOURCES.IPTC, 'DateCreated'],
+  [METADATA_SOURCES.PNG_TEXT, 'Creation Time'],
+];
+const DIGITAL_SOURCE_TYPE_FIELD = 'Iptc4xmpExt:DigitalSourceType';
+
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARS = /[\u0000-\u001f\u007f]+/g;
+
+function normalize(text: string): string {
+  return text.replace(CONTROL_CHARS, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string): string {
+  return text.length > METADATA_CONFIG.MAX_VALUE_LENGTH
+    ? `${text.slice(0, METADATA_CONFIG.MAX_VALUE_LENGTH)}…`
+    : text;
+}
+
+function values(fields: MetadataField[], [source, name]: FieldKey): string[] {
+  return fields
+    .filter((field) => field.source === source && field.name === name)
+    .map((field) => normalize(field.value))
+    .filter(Boolean);
+}
+
+// All values of the first field present, joined
+function pick(fields: MetadataField[], keys: FieldKey[]): string | undefined {
+  for (const key of keys) {
+    const found = values(fields, key);
+    if (found.length > 0) return Array.from(new Set(found)).join(', ');
+  }
+  return undefined;
+}
+
+function pickSoftware(fields: MetadataField[]): string | undefined {
+  for (const key of SOFTWARE_FIELDS) {
+    const [program] = values(fields, key);
+    if (!program) continue;
+    // IIM keeps the version in a dataset of its own
+    const [version] =
+      key[0] === METADATA_SOURCES.IPTC
+        ? values(fields, [METADATA_SOURCES.IPTC, 'ProgramVersion'])
+        : [];
+    return version ? `${program} ${version}` : program;
+  }
+  return undefined;
+}
+
+// "http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia"
+function sourceTypeCode(value: string): string {
+  return value.trim().split('/').pop() ?? value;
+}
+
+function collectFields(blocks: MetadataBlocks): MetadataField[] {
+  const fields: MetadataField[] = [];
+  const attempt = (kind: string, parse: () => MetadataField[]) => {
+    try {
+      fields.push(...parse());
+    } catch (error) {
+      logger.debug('Skipping unreadable metadata block', { kind, error });
+    }
+  };
+
+  blocks.exif.forEach((tiff) => attempt('exif', () => parseExif(tiff)));
+  blocks.xmp.forEach((xml) => attempt('xmp', () => parseXmp(xml)));
+  blocks.iptc.forEach((iptc) => attempt('iptc', () => parseIptc(iptc)));
+  for (const { keyword, text } of blocks.text) {
+    if (text.trim()) {
+      fields.push({
+        source: METADATA_SOURCES.PNG_TEXT,
+        name: keyword,
+        value: text,
+      });
+    }
+  }
+  for (const comment of blocks.comments) {
+    if (comment.trim()) {
+      fields.push({
+        source: METADATA_SOURCES.COMMENT,
+        name: 'Comment',
+        value: comment,
+      });
+    }
+  }
+  return fields;
+}
+
+function readColorProfile(blocks: MetadataBlocks): ColorProfile | undefined {
+  const [icc] = blocks.icc;
+  if (!icc) return undefined;
+  try {
+    return parseIccProfile(icc);
+  } catch (error) {
+    logger.debug('Skipping unreadable metadata block', { kind: 'icc', error });
+    return undefined;
+  }
+}
+
+/**
+ * AI-disclosure signals: IPTC digital source types for generative output
+ * and known generator tools named anywhere in the metadata
+ */
+export function provenanceSignals(fields: MetadataField[]): ProvenanceSignals {
+  const signals: ProvenanceSignal[] = [];
+  const seen = new Set<string>();
+  const add = (signal: ProvenanceSignal) => {
+    const key = [signal.kind, signal.source, signal.field, signal.value].join(
+      '\n'
+    );
+    if (seen.has(key)) return;
+    seen.add(key);
+    signals.push(signal);
+  };
+  const aiSourceTypes: readonly string[] = C2PA_CONFIG.AI_SOURCE_TYPES;
+
+  for (const field of fields) {
+    if (field.name === DIGITAL_SOURCE_TYPE_FIELD) {
+      const code = sourceTypeCode(field.value);
+      if (aiSourceTypes.includes(code)) {
+        add({
+          kind: PROVENANCE_SIGNAL_KINDS.DIGITAL_SOURCE_TYPE,
+          source: field.source,
+          field: field.name,
+          value: code,
+        });
+      }
+      continue;
+    }
+
+    const keyed =
+      field.source === METADATA_SOURCES.PNG_TEXT
+        ? METADATA_CONFIG.GENERATOR_TEXT_KEYS[field.name]
+        : undefined;
+    if (keyed) {
+      add({
+        kind: PROVENANCE_SIGNAL_KINDS.GENERATOR,
+        source: field.source,
+        field: field.name,
+        value: keyed,
+      });
+    }
+    for (const generator of METADATA_CONFIG.GENERATORS) {
+      if (generator.pattern.test(field.value)) {
+        add({
+          kind: PROVENANCE_SIGNAL_KINDS.GENERATOR,
+          source: field.source,
+          field: field.name,
+          value: generator.label,
+        });
+      }
+    }
+  }
+
+  return {
+    aiGenerated: signals.length > 0,
+    digitalSourceType: signals.find(
+      (signal) => signal.kind === PROVENANCE_SIGNAL_KINDS.DIGITAL_SOURCE_TYPE
+    )?.value,
+    generators: Array.from(
+      new Set(
+        signals
+          .filter((signal) => signal.kind === PROVENANCE_SIGNAL_KINDS.GENERATOR)
+          .map((signal) => signal.value)
+      )
+    ),
+    signals,
+  };
+}
+
+/**
+ * Parse and normalize the EXIF, XMP, IPTC and PNG text metadata of a JPEG,
+ * PNG, WebP or HEIC file, and its ICC profile. Unreadable blocks are
+ * skipped, never thrown.
+ */
+export async function readMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+  let fields: MetadataField[] = [];
+  let colorProfile: ColorProfile | undefined;
+  try {
+    const blocks = await extractMetadataBlocks(bytes);
+    fields = collectFields(blocks);
+    colorProfile = readColorProfile(blocks);
+  } catch (error) {
+    logger.debug('Skipping unreadable metadata', { error });
+  }
+
+  const [make, model] = [
+    pick(fields, [[METADATA_SOURCES.EXIF, 'Make']]),
+    pick(fields, [[METADATA_SOURCES.EXIF, 'Model']]),
+  ];
+  const [sourceType] = values(fields, [
+    METADATA_SOURCES.XMP,
+    DIGITAL_SOURCE_TYPE_FIELD,
+  ]);
+  return {
+    software: pickSoftware(fields),
+    creator: pick(fields, CREATOR_FIELDS),
+    copyright: pick(fields, COPYRIGHT_FIELDS),
+    createdAt: pick(fields, CREATED_FIELDS),
+    camera:
+      make && model && !model.startsWith(make)
+        ? `${make} ${model}`
+        : (model ?? make),
+    digitalSourceType: sourceType && sourceTypeCode(sourceType),
+    colorProfile,
+    fields: fields.map((field) => ({
+      ...field,
+      value: truncate(normalize(field.value)),
+    })),
+    signals: provenanceSignals(fields),
+  };
+}
+
+/**
+ * Metadata of an image file
+ */
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+  return readMetadata(new Uint8Array(await file.arrayBuffer()));
+}
@@ -0,0 +1,223 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { METADATA_STRIP_FIELDS } from '@/lib/constants';
+import { decodeImage, encodeJpeg, encodePng } from '@/lib/detection/node';
+import { extractManifestStore } from '@/lib/provenance/jumbf';
+import { extractMetadataBlocks } from './containers';
+import { readMetadata } from './metadata';
+import { preserveMetadata, stripMetadata } from './preserve';
+import { writeManifestStore } from './writer';
+
+function pixels(width: number, height: number) {
+  return {
+    data: new Uint8ClampedArray(width * height * 4).fill(120),
+    width,
+    height,
+  };
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let at = 0;
+  for (const part of parts) {
+    joined.set(part, at);
+    at += part.length;
+  }
+  return joined;
+}
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function le(value: number, bytes: 2 | 4): Uint8Array {
+  const out = new Uint8Array(bytes);
+  for (let i = 0; i < bytes; i++) out[i] = (value >> (8 * i)) & 0xff;
+  return out;
+}
+
+interface IfdEntry {
+  tag: number;
+  type: number; // 2 ASCII, 3 SHORT, 4 LONG, 7 UNDEFINED
+  value: Uint8Array;
+}
+
+const SIZES: Record<number, number> = { 2: 1, 3: 2, 4: 4, 7: 1 };
+
+// Little-endian IFD at `offset`; values over four bytes follow the table
+function ifd(entries: IfdEntry[], offset: number): Uint8Array {
+  const table = new Uint8Array(2 + entries.length * 12 + 4);
+  const view = new DataView(table.buffer);
+  const values: Uint8Array[] = [];
+  let valueAt = offset + table.length;
+
+  view.setUint16(0, entries.length, true);
+  entries.forEach((entry, index) => {
+    const at = 2 + index * 12;
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(at + 4, entry.value.length / SIZES[entry.type], true);
+    if (entry.value.length <= 4) {
+      table.set(entry.value, at + 8);
+    } else {
+      view.setUint32(at + 8, valueAt, true);
+      values.push(entry.value);
+      valueAt += entry.value.length;
+    }
+  });
+  return concat(table, ...values);
+}
+
+// IFD0 with camera, rights and orientation, an Exif IFD and a GPS IFD
+function tiff(): Uint8Array {
+  const ifd0 = (exifAt: number, gpsAt: number): IfdEntry[] => [
+    { tag: 0x010f, type: 2, value: ascii('Canon\0') },
+    { tag: 0x0110, type: 2, value: ascii('EOS R5\0') },
+    { tag: 0x0112, type: 3, value: le(6, 2) },
+    { tag: 0x8298, type: 2, value: ascii('ACME Corp\0') },
+    { tag: 0x8769, type: 4, value: le(exifAt, 4) },
+    { tag: 0x8825, type: 4, value: le(gpsAt, 4) },
+  ];
+  const exif: IfdEntry[] = [
+    { tag: 0xa002, type: 4, value: le(8, 4) },
+    { tag: 0xa003, type: 4, value: le(8, 4) },
+  ];
+  const gps: IfdEntry[] = [
+    { tag: 0x0001, type: 2, value: ascii('N\0') },
+    { tag: 0x001b, type: 7, value: ascii('ASCII\0\0\0SECRET-PLACE') },
+  ];
+
+  const exifAt = 8 + ifd(ifd0(0, 0), 8).length;
+  const exifBytes = ifd(exif, exifAt);
+  const gpsAt = exifAt + exifBytes.length;
+  return concat(
+    ascii('II'),
+    Uint8Array.of(42, 0, 8, 0, 0, 0),
+    ifd(ifd0(exifAt, gpsAt), 8),
+    exifBytes,
+    ifd(gps, gpsAt)
+  );
+}
+
+// Value of a SHORT or LONG entry in the IFD at `offset`
+function tagValue(tiff: Uint8Array, tag: number, offset?: number): number {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const start = offset ?? view.getUint32(4, true);
+  for (let i = 0; i < view.getUint16(start, true); i++) {
+    const entry = start + 2 + i * 12;
+    if (view.getUint16(entry, true) !== tag) continue;
+    return view.getUint16(entry + 2, true) === 3
+      ? view.getUint16(entry + 8, true)
+      : view.getUint32(entry + 8, true);
+  }
+  return -1;
+}
+
+const XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about=""
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:tiff="http://ns.adobe.com/tiff/1.0/"
+  xmlns:exif="http://ns.adobe.com/exif/1.0/"
+  tiff:Orientation="6"
+  exif:PixelXDimension="8"
+  exif:GPSLatitude="48,51.5N">
+  <dc:rights><rdf:Alt><rdf:li xml:lang="x-default">© ACME Corp</rdf:li></rdf:Alt></dc:rights>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>`;
+
+// Opaque apart from the RGB color space, which lets it survive re-encodes
+const ICC = new Uint8Array(300).map((_, i) => (i * 7) % 256);
+ICC.set(ascii('RGB '), 16);
+const STORE = concat(Uint8Array.of(0, 0, 0, 12), ascii('jumb'), ascii('c2pa'));
+
+function original(): Uint8Array {
+  const jpeg = encodeJpeg(pixels(8, 8), 90);
+  const segment = (marker: number, payload: Uint8Array) =>
+    concat(
+      Uint8Array.of(0xff, marker, (payload.length + 2) >> 8),
+      Uint8Array.of((payload.length + 2) & 0xff),
+      payload
+    );
+  return writeManifestStore(
+    concat(
+      jpeg.subarray(0, 2),
+      segment(0xe1, concat(ascii('Exif\0\0'), tiff())),
+      segment(
+        0xe1,
+        concat(ascii('http://ns.adobe.com/xap/1.0/\0'), ascii(XMP))
+      ),
+      segment(0xe2, concat(ascii('ICC_PROFILE\0'), Uint8Array.of(1, 1), ICC)),
+      jpeg.subarray(2)
+    ),
+    STORE
+  );
+}
+
+function contains(bytes: Uint8Array, text: string): boolean {
+  return Buffer.from(bytes).includes(text);
+}
+
+describe('preserveMetadata', () => {
+  it('carries metadata over to a re-encoded JPEG, minus GPS', async () => {
+    const source = original();
+    const encoded = encodeJpeg(pixels(16, 4), 90);
+
+    const output = await preserveMetadata(source, encoded, [
+      METADATA_STRIP_FIELDS.GPS,
+    ]);
+    expect(decodeImage(output)).toMatchObject({ width: 16, height: 4 });
+    expect(extractManifestStore(output)?.jumbf).toEqual(STORE);
+
+    const blocks = await extractMetadataBlocks(output);
+    expect(blocks.icc).toEqual([ICC]);
+    const [exif] = blocks.exif;
+    expect(tagValue(exif, 0x0112)).toBe(1); // Pixels are already upright
+    expect(tagValue(exif, 0x8825)).toBe(-1);
+    const exifIfd = tagValue(exif, 0x8769);
+    expect(tagValue(exif, 0xa002, exifIfd)).toBe(16);
+    expect(tagValue(exif, 0xa003, exifIfd)).toBe(4);
+
+    expect(contains(output, 'SECRET-PLACE')).toBe(false);
+    expect(contains(output, 'GPSLatitude')).toBe(false);
+    expect(blocks.xmp[0]).toContain('<tiff:Orientation>1</tiff:Orientation>');
+    expect(await readMetadata(output)).toMatchObject({
+      camera: 'Canon EOS R5',
+      copyright: '© ACME Corp',
+    });
+  });
+
+  it('moves metadata across formats and strips camera details', async () => {
+    const output = await preserveMetadata(original(), encodePng(pixels(8, 8)), [
+      METADATA_STRIP_FIELDS.CAMERA,
+    ]);
+
+    expect(decodeImage(output).width).toBe(8); // Chunk CRCs hold
+    expect((await extractMetadataBlocks(output)).icc).toEqual([ICC]);
+    expect(extractManifestStore(output)?.jumbf).toEqual(STORE);
+    const metadata = await readMetadata(output);
+    expect(metadata.camera).toBeUndefined();
+    expect(metadata.fields).toContainEqual({
+      source: 'exif',
+      name: 'Copyright',
+      value: 'ACME Corp',
+    });
+  });
+});
+
+describe('stripMetadata', () => {
+  it('removes fields without touching orientation or dimensions', async () => {
+    const source = original();
+    expect(await stripMetadata(source, [])).toBe(source);
+
+    const output = await stripMetadata(source, [METADATA_STRIP_FIELDS.GPS]);
+    expect(contains(output, 'SECRET-PLACE')).toBe(false);
+    const [exif] = (await extractMetadataBlocks(output)).exif;
+    expect(tagValue(exif, 0x0112)).toBe(6);
+    expect(tagValue(exif, 0xa002, tagValue(exif, 0x8769))).toBe(8);
+    expect((await readMetadata(output)).copyright).toBe('© ACME Corp');
+  });
+});
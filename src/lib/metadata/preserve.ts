@@ -0,0 +1,211 @@
+import { METADATA_STRIP_FIELDS } from '@/lib/constants';
+import { extractManifestStore } from '@/lib/provenance/jumbf';
+import type { MetadataStripField } from '@/lib/schemas';
+import { extractMetadataBlocks } from './containers';
+import { editExif } from './exif';
+import { isRgbProfile } from './icc';
+import { removeResources } from './iptc';
+import { imageSize, replaceMetadata, type EmbeddedMetadata } from './writer';
+import { hasXmpProperty, removeXmpProperties, setXmpProperties } from './xmp';
+
+/**
+ * Carry metadata across canvas re-encodes, which drop all of it, and strip
+ * selected fields. Rights, credit and creator fields are never removed.
+ */
+
+// EXIF tags per strippable field; GPS is a sub-IFD of its own
+const STRIP_EXIF_TAGS: Record<MetadataStripField, number[]> = {
+  [METADATA_STRIP_FIELDS.GPS]: [],
+  [METADATA_STRIP_FIELDS.CAMERA]: [
+    0x010f, // Make
+    0x0110, // Model
+    0xa430, // CameraOwnerName
+    0xa431, // BodySerialNumber
+    0xa432, // LensSpecification
+    0xa433, // LensMake
+    0xa434, // LensModel
+    0xa435, // LensSerialNumber
+  ],
+  [METADATA_STRIP_FIELDS.HISTORY]: [],
+};
+
+const GPS_XMP_PROPERTIES = [
+  'GPSVersionID',
+  'GPSLatitude',
+  'GPSLongitude',
+  'GPSAltitudeRef',
+  'GPSAltitude',
+  'GPSTimeStamp',
+  'GPSSatellites',
+  'GPSStatus',
+  'GPSMeasureMode',
+  'GPSDOP',
+  'GPSSpeedRef',
+  'GPSSpeed',
+  'GPSTrackRef',
+  'GPSTrack',
+  'GPSImgDirectionRef',
+  'GPSImgDirection',
+  'GPSMapDatum',
+  'GPSDestLatitude',
+  'GPSDestLongitude',
+  'GPSDestBearingRef',
+  'GPSDestBearing',
+  'GPSDestDistanceRef',
+  'GPSDestDistance',
+  'GPSProcessingMethod',
+  'GPSAreaInformation',
+  'GPSDifferential',
+  'GPSHPositioningError',
+].map((name) => `exif:${name}`);
+
+const STRIP_XMP_PROPERTIES: Record<MetadataStripField, string[]> = {
+  [METADATA_STRIP_FIELDS.GPS]: GPS_XMP_PROPERTIES,
+  [METADATA_STRIP_FIELDS.CAMERA]: [
+    'tiff:Make',
+    'tiff:Model',
+    'exifEX:CameraOwnerName',
+    'exifEX:BodySerialNumber',
+    'exifEX:LensSpecification',
+    'exifEX:LensMake',
+    'exifEX:LensModel',
+    'exifEX:LensSerialNumber',
+    'aux:SerialNumber',
+    'aux:OwnerName',
+    'aux:Lens',
+    'aux:LensInfo',
+    'aux:LensID',
+    'aux:LensSerialNumber',
+  ],
+  [METADATA_STRIP_FIELDS.HISTORY]: [
+    'xmpMM:History',
+    'xmpMM:DerivedFrom',
+    'xmpMM:Ingredients',
+    'xmpMM:Pantry',
+    'photoshop:DocumentAncestors',
+  ],
+};
+
+// Photoshop resources holding a preview of the original pixels
+const THUMBNAIL_RESOURCES = [0x0409, 0x040c];
+
+interface RewriteOptions {
+  strip: MetadataStripField[];
+  size?: { width: number; height: number }; // Set when the pixels changed
+}
+
+function xmpSizeProperties(size: {
+  width: number;
+  height: number;
+}): Record<string, string> {
+  return {
+    'tiff:Orientation': '1',
+    'tiff:ImageWidth': String(size.width),
+    'tiff:ImageLength': String(size.height),
+    'exif:PixelXDimension': String(size.width),
+    'exif:PixelYDimension': String(size.height),
+  };
+}
+
+function rewrite(
+  metadata: EmbeddedMetadata,
+  { strip, size }: RewriteOptions
+): EmbeddedMetadata {
+  const reencoded = size !== undefined;
+  const exif =
+    metadata.exif &&
+    (reencoded || strip.length > 0
+      ? editExif(metadata.exif, {
+          remove: strip.flatMap((field) => STRIP_EXIF_TAGS[field]),
+          removeGps: strip.includes(METADATA_STRIP_FIELDS.GPS),
+          removeThumbnail: reencoded,
+          // Decoding applied the orientation to the pixels
+          orientation: reencoded ? 1 : undefined,
+          size,
+        })
+      : metadata.exif);
+
+  let xmp = metadata.xmp;
+  if (xmp !== null) {
+    const stripped = removeXmpProperties(
+      xmp,
+      strip.flatMap((field) => STRIP_XMP_PROPERTIES[field])
+    );
+    // Only properties the packet already has are updated
+    const updates = Object.entries(size ? xmpSizeProperties(size) : {}).filter(
+      ([name]) => hasXmpProperty(stripped, name)
+    );
+    xmp =
+      updates.length > 0
+        ? setXmpProperties(stripped, Object.fromEntries(updates))
+        : stripped;
+  }
+
+  return {
+    ...metadata,
+    exif,
+    xmp,
+    // Canvases encode RGB; CMYK and gray profiles no longer apply
+    icc:
+      metadata.icc && reencoded && !isRgbProfile(metadata.icc)
+        ? null
+        : metadata.icc,
+    iptc:
+      metadata.iptc && reencoded
+        ? removeResources(metadata.iptc, THUMBNAIL_RESOURCES)
+        : metadata.iptc,
+  };
+}
+
+/**
+ * The metadata blocks of a JPEG, PNG or WebP file, as `replaceMetadata`
+ * takes them
+ */
+export async function readEmbeddedMetadata(
+  bytes: Uint8Array
+): Promise<EmbeddedMetadata> {
+  const blocks = await extractMetadataBlocks(bytes);
+  return {
+    exif: blocks.exif[0] ?? null,
+    xmp: blocks.xmp[0] ?? null,
+    icc: blocks.icc[0] ?? null,
+    iptc: blocks.iptc[0] ?? null,
+    c2pa: extractManifestStore(bytes)?.jumbf ?? null,
+    text: blocks.text,
+    comments: blocks.comments,
+  };
+}
+
+/**
+ * Re-attach the metadata of `original` to a re-encoded copy: EXIF with the
+ * orientation reset and dimensions updated, XMP, an RGB ICC profile, IPTC
+ * and the C2PA manifest store, minus the `strip` fields. Stale thumbnails are
+ * dropped. The manifest store is kept byte-for-byte, but its hash binding
+ * no longer matches; exports report it as invalidated (`c2paExportStatus`).
+ */
+export async function preserveMetadata(
+  original: Uint8Array,
+  encoded: Uint8Array,
+  strip: MetadataStripField[] = []
+): Promise<Uint8Array> {
+  const metadata = await readEmbeddedMetadata(original);
+  return replaceMetadata(
+    encoded,
+    rewrite(metadata, { strip, size: imageSize(encoded) })
+  );
+}
+
+/**
+ * Remove the `strip` fields from a file without re-encoding it
+ */
+export async function stripMetadata(
+  bytes: Uint8Array,
+  strip: MetadataStripField[]
+): Promise<Uint8Array> {
+  if (strip.length === 0) return bytes;
+  const metadata = await readEmbeddedMetadata(bytes);
+  const { exif, xmp, iptc } = metadata;
+  // Nothing to strip, which also covers formats it cannot write
+  if (!exif && xmp === null && !iptc) return bytes;
+  return replaceMetadata(bytes, rewrite(metadata, { strip }));
+}
@@ -0,0 +1,120 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { decodeImage, encodeJpeg, encodePng } from '@/lib/detection/node';
+import { UnsupportedFormatError } from '@/lib/errors';
+import { extractManifestStore } from '@/lib/provenance/jumbf';
+import { readMetadata } from './metadata';
+import { writeManifestStore, writeXmp } from './writer';
+import { setXmpProperties } from './xmp';
+
+const image = {
+  data: new Uint8ClampedArray(8 * 8 * 4).fill(180),
+  width: 8,
+  height: 8,
+};
+
+const DISCLOSURE = {
+  'Iptc4xmpExt:DigitalSourceType':
+    'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
+  'photoshop:Instructions': 'Made with <AI> & care',
+};
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+// A manifest-store superbox too large for one JPEG segment
+function manifestStore(size: number): Uint8Array {
+  const store = new Uint8Array(size).map((_, i) => i % 251);
+  new DataView(store.buffer).setUint32(0, size);
+  store.set(ascii('jumb'), 4);
+  return store;
+}
+
+describe('metadata writer', () => {
+  it('round-trips a multi-segment manifest store and XMP in JPEG', async () => {
+    const jpeg = encodeJpeg(image, 90);
+    const store = manifestStore(150_000);
+
+    const labeled = writeXmp(
+      writeManifestStore(jpeg, store),
+      setXmpProperties(null, DISCLOSURE)
+    );
+    expect(extractManifestStore(labeled)?.jumbf).toEqual(store);
+    expect(decodeImage(labeled).width).toBe(8);
+
+    const metadata = await readMetadata(labeled);
+    expect(metadata.signals.aiGenerated).toBe(true);
+    expect(metadata.fields).toContainEqual({
+      source: 'xmp',
+      name: 'photoshop:Instructions',
+      value: 'Made with <AI> & care',
+    });
+
+    // Writing again replaces the earlier store rather than adding one
+    const smaller = manifestStore(64);
+    expect(
+      extractManifestStore(writeManifestStore(labeled, smaller))?.jumbf
+    ).toEqual(smaller);
+  });
+
+  it('replaces XMP properties in a PNG, keeping the rest', async () => {
+    const existing = setXmpProperties(null, {
+      'xmp:CreatorTool': 'Studio 2',
+      'Iptc4xmpExt:DigitalSourceType':
+        'http://cv.iptc.org/newscodes/digitalsourcetype/digitalCapture',
+    });
+    const png = writeXmp(encodePng(image), existing);
+    const labeled = writeXmp(png, setXmpProperties(existing, DISCLOSURE));
+
+    expect(decodeImage(labeled).height).toBe(8); // Chunk CRCs hold
+    const metadata = await readMetadata(labeled);
+    expect(metadata).toMatchObject({
+      software: 'Studio 2',
+      digitalSourceType: 'trainedAlgorithmicMedia',
+    });
+    expect(
+      metadata.fields.filter((field) => field.name.endsWith('SourceType'))
+    ).toHaveLength(1);
+  });
+
+  it('adds an extended header to simple WebP files', async () => {
+    // Lossless 3x2 image with alpha
+    const bitstream = Uint8Array.of(0x2f, 2, 0x40, 0, 0x10, 0, 0);
+    const chunk = [
+      ...Array.from(ascii('VP8L')),
+      bitstream.length,
+      0,
+      0,
+      0,
+      ...Array.from(bitstream),
+    ];
+    const webp = Uint8Array.from([
+      ...Array.from(ascii('RIFF')),
+      4 + chunk.length + 1,
+      0,
+      0,
+      0,
+      ...Array.from(ascii('WEBP')),
+      ...chunk,
+      0,
+    ]);
+
+    const labeled = writeXmp(webp, setXmpProperties(null, DISCLOSURE));
+    const data = new DataView(labeled.buffer);
+    expect(String.fromCharCode(...Array.from(labeled.subarray(12, 16)))).toBe(
+      'VP8X'
+    );
+    expect(labeled[20]).toBe(0x14); // XMP and alpha flags
+    expect(data.getUint16(24, true) + 1).toBe(3);
+    expect(data.getUint16(27, true) + 1).toBe(2);
+    expect(data.getUint32(4, true)).toBe(labeled.length - 8);
+    expect((await readMetadata(labeled)).signals.aiGenerated).toBe(true);
+  });
+
+  it('rejects formats it cannot write', () => {
+    expect(() => writeXmp(ascii('GIF89a'), '<x/>')).toThrow(
+      UnsupportedFormatError
+    );
+  });
+});
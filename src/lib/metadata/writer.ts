@@ -0,0 +1,613 @@
+import { MetadataError, UnsupportedFormatError } from '@/lib/errors';
+import type { TextChunk } from './containers';
+
+/**
+ * Splice metadata into JPEG, PNG and WebP files without touching the
+ * compressed image data: XMP packets, C2PA manifest stores, or a whole set
+ * of EXIF, XMP, ICC, IPTC and C2PA blocks carried over from another file
+ */
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+const PNG_ICC_NAME = 'ICC profile';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2; // JPEG segment length counts itself
+const MAX_ICC_CHUNKS = 255;
+
+// APP11 box instance used for the manifest store
+const JUMBF_INSTANCE = 1;
+
+// WebP VP8X feature flags
+const WEBP_XMP_FLAG = 0x04;
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_ALPHA_FLAG = 0x10;
+const WEBP_ICC_FLAG = 0x20;
+const WEBP_IMAGE_CHUNKS = ['VP8 ', 'VP8L', 'ALPH', 'ANIM', 'ANMF', 'EXIF'];
+
+const encoder = new TextEncoder();
+
+/**
+ * Metadata blocks as `replaceMetadata` writes them. Null entries are left
+ * out of the file.
+ */
+export interface EmbeddedMetadata {
+  exif: Uint8Array | null; // TIFF stream
+  xmp: string | null;
+  icc: Uint8Array | null;
+  iptc: Uint8Array | null; // Photoshop image resources; JPEG only
+  c2pa: Uint8Array | null; // JUMBF manifest store
+  text: TextChunk[]; // PNG only
+  comments: string[]; // JPEG only
+}
+
+interface Chunk {
+  type: string; // JPEG: marker as two hex digits; PNG and WebP: fourCC
+  data: Uint8Array;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let at = 0;
+  for (const part of parts) {
+    joined.set(part, at);
+    at += part.length;
+  }
+  return joined;
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function fourCC(bytes: Uint8Array, at: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(at, at + 4)));
+}
+
+function startsWith(bytes: Uint8Array, prefix: string): boolean {
+  if (prefix.length > bytes.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[i] !== prefix.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+function u16(value: number): Uint8Array {
+  return Uint8Array.of(value >> 8, value & 0xff);
+}
+
+function u32(value: number, littleEndian = false): Uint8Array {
+  const bytes = new Uint8Array(4);
+  view(bytes).setUint32(0, value, littleEndian);
+  return bytes;
+}
+
+type Container = 'jpeg' | 'png' | 'webp';
+
+function containerOf(bytes: Uint8Array): Container {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return 'png';
+  if (fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WEBP') return 'webp';
+  throw new UnsupportedFormatError(
+    'Metadata can only be written to JPEG, PNG and WebP files'
+  );
+}
+
+// JPEG: the segments before the scan, and everything from the scan on
+function readJpeg(bytes: Uint8Array): { segments: Chunk[]; rest: Uint8Array } {
+  const data = view(bytes);
+  const segments: Chunk[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = data.getUint16(offset + 2);
+    if (offset + 2 + length > bytes.length) {
+      throw new MetadataError('Truncated JPEG segment');
+    }
+    segments.push({
+      type: marker.toString(16),
+      data: bytes.subarray(offset + 4, offset + 2 + length),
+    });
+    offset += 2 + length;
+  }
+  return { segments, rest: bytes.subarray(offset) };
+}
+
+function writeJpeg(segments: Chunk[], rest: Uint8Array): Uint8Array {
+  return concat([
+    Uint8Array.of(0xff, 0xd8),
+    ...segments.flatMap((segment) => [
+      Uint8Array.of(0xff, parseInt(segment.type, 16)),
+      u16(segment.data.length + 2),
+      segment.data,
+    ]),
+    rest,
+  ]);
+}
+
+// After the last APPn segment, so JFIF and Exif stay first
+function jpegInsertAt(segments: Chunk[]): number {
+  let at = 0;
+  segments.forEach((segment, index) => {
+    const marker = parseInt(segment.type, 16);
+    if (marker >= 0xe0 && marker <= 0xef) at = index + 1;
+  });
+  return at;
+}
+
+function isJumbfSegment(segment: Chunk): boolean {
+  return segment.type === 'eb' && startsWith(segment.data, 'JP');
+}
+
+/**
+ * APP11 segments for a JUMBF box. Continuations repeat the box header,
+ * as ISO 19566-5 requires.
+ */
+function jumbfSegments(jumbf: Uint8Array): Chunk[] {
+  const headerLength = view(jumbf).getUint32(0) === 1 ? 16 : 8;
+  const header = jumbf.subarray(0, headerLength);
+  const segments: Chunk[] = [];
+  let offset = 0;
+
+  for (let sequence = 1; offset < jumbf.length; sequence++) {
+    const prefix = concat([
+      encoder.encode('JP'),
+      u16(JUMBF_INSTANCE),
+      u32(sequence),
+      sequence === 1 ? new Uint8Array(0) : header,
+    ]);
+    const size = Math.min(
+      MAX_SEGMENT_PAYLOAD - prefix.length,
+      jumbf.length - offset
+    );
+    segments.push({
+      type: 'eb',
+      data: concat([prefix, jumbf.subarray(offset, offset + size)]),
+    });
+    offset += size;
+  }
+  return segments;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(parts: Uint8Array[]): number {
+  let crc = 0xffffffff;
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) {
+      crc = CRC_TABLE[(crc ^ part[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readPng(bytes: Uint8Array): Chunk[] {
+  const data = view(bytes);
+  const chunks: Chunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length = data.getUint32(offset);
+    if (offset + 12 + length > bytes.length) {
+      throw new MetadataError('Truncated PNG chunk');
+    }
+    const type = fourCC(bytes, offset + 4);
+    chunks.push({
+      type,
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function writePng(chunks: Chunk[]): Uint8Array {
+  return concat([
+    Uint8Array.from(PNG_SIGNATURE),
+    ...chunks.flatMap((chunk) => {
+      const type = encoder.encode(chunk.type);
+      return [
+        u32(chunk.data.length),
+        type,
+        chunk.data,
+        u32(crc32([type, chunk.data])),
+      ];
+    }),
+  ]);
+}
+
+function isPngXmp(chunk: Chunk): boolean {
+  return (
+    chunk.type === 'iTXt' && startsWith(chunk.data, `${PNG_XMP_KEYWORD}\0`)
+  );
+}
+
+function readWebp(bytes: Uint8Array): Chunk[] {
+  const data = view(bytes);
+  const chunks: Chunk[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const length = data.getUint32(offset + 4, true);
+    if (offset + 8 + length > bytes.length) {
+      throw new MetadataError('Truncated WebP chunk');
+    }
+    chunks.push({
+      type,
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += 8 + length + (length & 1);
+  }
+  return chunks;
+}
+
+function writeWebp(chunks: Chunk[]): Uint8Array {
+  const body = concat(
+    chunks.flatMap((chunk) => [
+      encoder.encode(chunk.type),
+      u32(chunk.data.length, true),
+      chunk.data,
+      new Uint8Array(chunk.data.length & 1),
+    ])
+  );
+  return concat([
+    encoder.encode('RIFF'),
+    u32(4 + body.length, true),
+    encoder.encode('WEBP'),
+    body,
+  ]);
+}
+
+function uint24(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+}
+
+interface WebpCanvas {
+  width: number;
+  height: number;
+  alpha: boolean;
+}
+
+// Canvas size of a WebP file, from VP8X or the bitstream header
+function webpCanvas(chunks: Chunk[]): WebpCanvas {
+  const extended = chunks.find((chunk) => chunk.type === 'VP8X');
+  if (extended) {
+    const data = extended.data;
+    const readUint24 = (at: number) =>
+      data[at] | (data[at + 1] << 8) | (data[at + 2] << 16);
+    return {
+      width: readUint24(4) + 1,
+      height: readUint24(7) + 1,
+      alpha: (data[0] & WEBP_ALPHA_FLAG) !== 0,
+    };
+  }
+
+  const image = chunks.find(
+    (chunk) => chunk.type === 'VP8 ' || chunk.type === 'VP8L'
+  );
+  if (!image) throw new MetadataError('WebP without image data');
+  const bits = view(image.data);
+  if (image.type === 'VP8L') {
+    const header = bits.getUint32(1, true);
+    return {
+      width: (header & 0x3fff) + 1,
+      height: ((header >> 14) & 0x3fff) + 1,
+      alpha: ((header >> 28) & 1) === 1,
+    };
+  }
+  return {
+    width: bits.getUint16(6, true) & 0x3fff,
+    height: bits.getUint16(8, true) & 0x3fff,
+    alpha: false,
+  };
+}
+
+/**
+ * Simple (lossy or lossless) WebP files have no VP8X header, which
+ * metadata chunks require; derive one from the bitstream. Flags in `clear`
+ * are unset first.
+ */
+function withExtendedHeader(
+  chunks: Chunk[],
+  flags: number,
+  clear = 0
+): Chunk[] {
+  const existing = chunks.find((chunk) => chunk.type === 'VP8X');
+  if (existing) {
+    const data = existing.data.slice();
+    data[0] = (data[0] & ~clear) | flags;
+    return chunks.map((chunk) =>
+      chunk === existing ? { ...chunk, data } : chunk
+    );
+  }
+
+  const { width, height, alpha } = webpCanvas(chunks);
+
+  const header: Chunk = {
+    type: 'VP8X',
+    data: Uint8Array.from([
+      flags | (alpha ? WEBP_ALPHA_FLAG : 0),
+      0,
+      0,
+      0,
+      ...uint24(width - 1),
+      ...uint24(height - 1),
+    ]),
+  };
+  return [header, ...chunks];
+}
+
+/**
+ * Replace the file's XMP packet, or add one
+ */
+export function writeXmp(bytes: Uint8Array, xml: string): Uint8Array {
+  const packet = encoder.encode(xml);
+
+  switch (containerOf(bytes)) {
+    case 'jpeg': {
+      const payload = concat([encoder.encode(XMP_HEADER), packet]);
+      if (payload.length > MAX_SEGMENT_PAYLOAD) {
+        throw new MetadataError('XMP packet too large for a JPEG segment');
+      }
+      const { segments, rest } = readJpeg(bytes);
+      const kept = segments.filter(
+        (segment) =>
+          !(segment.type === 'e1' && startsWith(segment.data, XMP_HEADER))
+      );
+      kept.splice(jpegInsertAt(kept), 0, { type: 'e1', data: payload });
+      return writeJpeg(kept, rest);
+    }
+    case 'png': {
+      const chunks = readPng(bytes).filter((chunk) => !isPngXmp(chunk));
+      // Uncompressed iTXt with empty language and translated keyword
+      chunks.splice(1, 0, {
+        type: 'iTXt',
+        data: concat([
+          encoder.encode(`${PNG_XMP_KEYWORD}\0`),
+          Uint8Array.of(0, 0, 0, 0),
+          packet,
+        ]),
+      });
+      return writePng(chunks);
+    }
+    case 'webp': {
+      const chunks = withExtendedHeader(
+        readWebp(bytes).filter((chunk) => chunk.type !== 'XMP '),
+        WEBP_XMP_FLAG
+      );
+      let at = chunks.length;
+      while (at > 0 && !WEBP_IMAGE_CHUNKS.includes(chunks[at - 1].type)) at--;
+      chunks.splice(at, 0, { type: 'XMP ', data: packet });
+      return writeWebp(chunks);
+    }
+  }
+}
+
+/**
+ * Embed a C2PA manifest store (a JUMBF superbox) byte-for-byte, replacing
+ * any store already in the file
+ */
+export function writeManifestStore(
+  bytes: Uint8Array,
+  jumbf: Uint8Array
+): Uint8Array {
+  switch (containerOf(bytes)) {
+    case 'jpeg': {
+      const { segments, rest } = readJpeg(bytes);
+      const kept = segments.filter((segment) => !isJumbfSegment(segment));
+      kept.splice(jpegInsertAt(kept), 0, ...jumbfSegments(jumbf));
+      return writeJpeg(kept, rest);
+    }
+    case 'png': {
+      const chunks = readPng(bytes).filter((chunk) => chunk.type !== 'caBX');
+      chunks.splice(1, 0, { type: 'caBX', data: jumbf });
+      return writePng(chunks);
+    }
+    case 'webp': {
+      const chunks = withExtendedHeader(
+        readWebp(bytes).filter((chunk) => chunk.type !== 'C2PA'),
+        0
+      );
+      return writeWebp([...chunks, { type: 'C2PA', data: jumbf }]);
+    }
+  }
+}
+
+/**
+ * Pixel dimensions of a JPEG, PNG or WebP file
+ */
+export function imageSize(bytes: Uint8Array): {
+  width: number;
+  height: number;
+} {
+  switch (containerOf(bytes)) {
+    case 'jpeg': {
+      // Start of frame: precision, then height and width
+      const frame = readJpeg(bytes).segments.find((segment) => {
+        const marker = parseInt(segment.type, 16);
+        return (
+          marker >= 0xc0 &&
+          marker <= 0xcf &&
+          marker !== 0xc4 &&
+          marker !== 0xc8 &&
+          marker !== 0xcc
+        );
+      });
+      if (!frame || frame.data.length < 5) {
+        throw new MetadataError('JPEG without a frame header');
+      }
+      const data = view(frame.data);
+      return { width: data.getUint16(3), height: data.getUint16(1) };
+    }
+    case 'png': {
+      const header = readPng(bytes)[0];
+      if (header?.type !== 'IHDR' || header.data.length < 8) {
+        throw new MetadataError('PNG without a header chunk');
+      }
+      const data = view(header.data);
+      return { width: data.getUint32(0), height: data.getUint32(4) };
+    }
+    case 'webp': {
+      const { width, height } = webpCanvas(readWebp(bytes));
+      return { width, height };
+    }
+  }
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(bytes)])
+    .stream()
+    .pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function jpegSegment(type: string, header: string, payload: Uint8Array): Chunk {
+  const data = concat([encoder.encode(header), payload]);
+  if (data.length > MAX_SEGMENT_PAYLOAD) {
+    throw new MetadataError('Metadata block too large for a JPEG segment');
+  }
+  return { type, data };
+}
+
+// ICC profiles over one segment are split, each part numbered
+function iccSegments(icc: Uint8Array): Chunk[] {
+  const size = MAX_SEGMENT_PAYLOAD - ICC_HEADER.length - 2;
+  const count = Math.ceil(icc.length / size);
+  if (count > MAX_ICC_CHUNKS) {
+    throw new MetadataError('ICC profile too large for JPEG');
+  }
+  return Array.from({ length: count }, (_, i) => ({
+    type: 'e2',
+    data: concat([
+      encoder.encode(ICC_HEADER),
+      Uint8Array.of(i + 1, count),
+      icc.subarray(i * size, (i + 1) * size),
+    ]),
+  }));
+}
+
+function isJpegMetadata(segment: Chunk): boolean {
+  return (
+    (segment.type === 'e1' &&
+      (startsWith(segment.data, EXIF_HEADER) ||
+        startsWith(segment.data, XMP_HEADER))) ||
+    (segment.type === 'e2' && startsWith(segment.data, ICC_HEADER)) ||
+    (segment.type === 'ed' && startsWith(segment.data, PHOTOSHOP_HEADER)) ||
+    isJumbfSegment(segment) ||
+    segment.type === 'fe'
+  );
+}
+
+// PNG chunk types `replaceMetadata` owns; sRGB conflicts with iCCP
+const PNG_METADATA_CHUNKS = ['eXIf', 'iCCP', 'tEXt', 'zTXt', 'iTXt', 'caBX'];
+
+function pngTextChunk(keyword: string, text: string): Chunk {
+  // Uncompressed iTXt with empty language and translated keyword
+  return {
+    type: 'iTXt',
+    data: concat([
+      encoder.encode(`${keyword}\0`),
+      Uint8Array.of(0, 0, 0, 0),
+      encoder.encode(text),
+    ]),
+  };
+}
+
+/**
+ * Swap every metadata block of a file (EXIF, XMP, ICC profile, IPTC,
+ * C2PA, PNG text and JPEG comments) for `metadata`, leaving the image data
+ * untouched. Blocks the format cannot carry are dropped.
+ */
+export async function replaceMetadata(
+  bytes: Uint8Array,
+  metadata: EmbeddedMetadata
+): Promise<Uint8Array> {
+  const { exif, xmp, icc, iptc, c2pa } = metadata;
+
+  switch (containerOf(bytes)) {
+    case 'jpeg': {
+      const { segments, rest } = readJpeg(bytes);
+      const kept = segments.filter((segment) => !isJpegMetadata(segment));
+      const added: Chunk[] = [
+        ...(exif ? [jpegSegment('e1', EXIF_HEADER, exif)] : []),
+        ...(xmp !== null
+          ? [jpegSegment('e1', XMP_HEADER, encoder.encode(xmp))]
+          : []),
+        ...(icc ? iccSegments(icc) : []),
+        ...(iptc ? [jpegSegment('ed', PHOTOSHOP_HEADER, iptc)] : []),
+        ...(c2pa ? jumbfSegments(c2pa) : []),
+        ...metadata.comments.map((comment) =>
+          jpegSegment('fe', '', encoder.encode(comment))
+        ),
+      ];
+      // After JFIF, which has to come first
+      let at = 0;
+      while (at < kept.length && kept[at].type === 'e0') at++;
+      kept.splice(at, 0, ...added);
+      return writeJpeg(kept, rest);
+    }
+    case 'png': {
+      const chunks = readPng(bytes).filter(
+        (chunk) =>
+          !PNG_METADATA_CHUNKS.includes(chunk.type) &&
+          !(icc && chunk.type === 'sRGB')
+      );
+      const added: Chunk[] = [
+        ...(icc
+          ? [
+              {
+                type: 'iCCP',
+                data: concat([
+                  encoder.encode(`${PNG_ICC_NAME}\0`),
+                  Uint8Array.of(0), // Deflate
+                  await deflate(icc),
+                ]),
+              },
+            ]
+          : []),
+        ...(exif ? [{ type: 'eXIf', data: exif }] : []),
+        ...(xmp !== null ? [pngTextChunk(PNG_XMP_KEYWORD, xmp)] : []),
+        ...metadata.text.map(({ keyword, text }) =>
+          pngTextChunk(keyword, text)
+        ),
+        ...(c2pa ? [{ type: 'caBX', data: c2pa }] : []),
+      ];
+      chunks.splice(1, 0, ...added);
+      return writePng(chunks);
+    }
+    case 'webp': {
+      const chunks = readWebp(bytes).filter(
+        (chunk) => !['ICCP', 'EXIF', 'XMP ', 'C2PA'].includes(chunk.type)
+      );
+      const flags =
+        (icc ? WEBP_ICC_FLAG : 0) |
+        (exif ? WEBP_EXIF_FLAG : 0) |
+        (xmp !== null ? WEBP_XMP_FLAG : 0);
+      const extended = withExtendedHeader(
+        chunks,
+        flags,
+        WEBP_ICC_FLAG | WEBP_EXIF_FLAG | WEBP_XMP_FLAG
+      );
+      // ICCP follows VP8X; EXIF and XMP follow the image data
+      if (icc) extended.splice(1, 0, { type: 'ICCP', data: icc });
+      if (exif) extended.push({ type: 'EXIF', data: exif });
+      if (xmp !== null) {
+        extended.push({ type: 'XMP ', data: encoder.encode(xmp) });
+      }
+      if (c2pa) extended.push({ type: 'C2PA', data: c2pa });
+      return writeWebp(extended);
+    }
+  }
+}
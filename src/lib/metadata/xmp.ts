@@ -0,0 +1,221 @@
+import { METADATA_SOURCES } from '@/lib/constants';
+import type { MetadataField } from '@/lib/schemas';
+
+/**
+ * XMP properties from an RDF/XML packet. Pattern-based rather than a full
+ * XML parse, so it also runs in workers and Node where DOMParser is absent.
+ */
+
+// Conventional prefix for each namespace this module reads or writes
+const NAMESPACES: Record<string, string> = {
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/',
+  Iptc4xmpExt: 'http://iptc.org/std/Iptc4xmpExt/2008-02-29/',
+  stEvt: 'http://ns.adobe.com/xap/1.0/sType/ResourceEvent#',
+  xmpMM: 'http://ns.adobe.com/xap/1.0/mm/',
+  tiff: 'http://ns.adobe.com/tiff/1.0/',
+  exif: 'http://ns.adobe.com/exif/1.0/',
+  exifEX: 'http://cipa.jp/exif/1.0/',
+  aux: 'http://ns.adobe.com/exif/1.0/aux/',
+};
+
+const PROPERTIES = [
+  'xmp:CreatorTool',
+  'xmp:CreateDate',
+  'dc:creator',
+  'dc:rights',
+  'dc:description',
+  'photoshop:Credit',
+  'photoshop:Instructions',
+  'Iptc4xmpExt:DigitalSourceType',
+  'stEvt:softwareAgent', // Each step of xmpMM:History
+];
+
+const RDF_NAMESPACE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return ENTITIES[code] ?? entity;
+    const point =
+      code[1].toLowerCase() === 'x'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+    return String.fromCodePoint(point);
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Prefixes bound to each namespace URI anywhere in the packet
+function namespacePrefixes(xml: string): Map<string, Set<string>> {
+  const prefixes = new Map<string, Set<string>>();
+  for (const match of Array.from(
+    xml.matchAll(/xmlns:([\w.-]+)\s*=\s*["']([^"']*)["']/g)
+  )) {
+    const bound = prefixes.get(match[2]) ?? new Set<string>();
+    bound.add(match[1]);
+    prefixes.set(match[2], bound);
+  }
+  return prefixes;
+}
+
+function textContent(inner: string): string[] {
+  const items = Array.from(
+    inner.matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)
+  ).map((match) => match[1]);
+  return (items.length > 0 ? items : [inner])
+    .map((item) => decodeEntities(item.replace(/<[^>]*>/g, '')).trim())
+    .filter(Boolean);
+}
+
+function propertyValues(xml: string, qualified: string): string[] {
+  const name = escapeRegExp(qualified);
+  const values: string[] = [];
+
+  // Attribute form: <rdf:Description xmp:CreatorTool="...">
+  for (const match of Array.from(
+    xml.matchAll(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'g'))
+  )) {
+    values.push(decodeEntities(match[1] ?? match[2]).trim());
+  }
+  // Resource form: <Iptc4xmpExt:DigitalSourceType rdf:resource="..."/>
+  for (const match of Array.from(
+    xml.matchAll(
+      new RegExp(`<${name}\\s[^>]*rdf:resource\\s*=\\s*"([^"]*)"[^>]*/>`, 'g')
+    )
+  )) {
+    values.push(decodeEntities(match[1]).trim());
+  }
+  // Element form, possibly wrapping an rdf:Seq, rdf:Bag or rdf:Alt
+  for (const match of Array.from(
+    xml.matchAll(
+      new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'g')
+    )
+  )) {
+    values.push(...textContent(match[1]));
+  }
+  return values.filter(Boolean);
+}
+
+// A property under every prefix the packet binds to its namespace
+function boundNames(
+  prefixes: Map<string, Set<string>>,
+  name: string
+): string[] {
+  const [prefix, local] = name.split(':');
+  return Array.from(prefixes.get(NAMESPACES[prefix]) ?? []).map(
+    (bound) => `${bound}:${local}`
+  );
+}
+
+/**
+ * Read the XMP properties provenance cares about. Array values yield one
+ * field per item.
+ */
+export function parseXmp(xml: string): MetadataField[] {
+  const prefixes = namespacePrefixes(xml);
+  const fields: MetadataField[] = [];
+
+  for (const name of PROPERTIES) {
+    const seen = new Set<string>();
+    for (const qualified of boundNames(prefixes, name)) {
+      for (const value of propertyValues(xml, qualified)) {
+        if (seen.has(value)) continue;
+        seen.add(value);
+        fields.push({ source: METADATA_SOURCES.XMP, name, value });
+      }
+    }
+  }
+  return fields;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Remove properties in attribute, empty-element and element form, under
+ * whatever prefix the packet binds to their namespace
+ */
+export function removeXmpProperties(xml: string, names: string[]): string {
+  let packet = xml;
+  const bound = namespacePrefixes(xml);
+  for (const name of names) {
+    for (const qualified of boundNames(bound, name)) {
+      const pattern = escapeRegExp(qualified);
+      packet = packet
+        .replace(
+          new RegExp(`\\s${pattern}\\s*=\\s*(?:"[^"]*"|'[^']*')`, 'g'),
+          ''
+        )
+        .replace(new RegExp(`<${pattern}(?:\\s[^>]*)?/>`, 'g'), '')
+        .replace(
+          new RegExp(`<${pattern}(?:\\s[^>]*)?>[\\s\\S]*?</${pattern}>`, 'g'),
+          ''
+        );
+    }
+  }
+  return packet;
+}
+
+/**
+ * Whether the packet sets a property, under any bound prefix
+ */
+export function hasXmpProperty(xml: string, name: string): boolean {
+  return boundNames(namespacePrefixes(xml), name).some(
+    (qualified) => propertyValues(xml, qualified).length > 0
+  );
+}
+
+/**
+ * Set simple XMP properties, e.g. `Iptc4xmpExt:DigitalSourceType`, in an
+ * existing packet or a new one. Earlier values of those properties are
+ * removed; everything else in the packet is kept as is.
+ */
+export function setXmpProperties(
+  xml: string | null,
+  properties: Record<string, string>
+): string {
+  const names = Object.keys(properties);
+  const prefixes = Array.from(new Set(names.map((name) => name.split(':')[0])));
+  const description = [
+    `<rdf:Description rdf:about=""`,
+    ...prefixes.map(
+      (prefix) => ` xmlns:${prefix}="${escapeXml(NAMESPACES[prefix])}"`
+    ),
+    '>',
+    ...names.map((name) => `<${name}>${escapeXml(properties[name])}</${name}>`),
+    '</rdf:Description>',
+  ].join('');
+
+  if (xml === null || !xml.includes('</rdf:RDF>')) {
+    return [
+      '<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+      `<rdf:RDF xmlns:rdf="${RDF_NAMESPACE}">`,
+      description,
+      '</rdf:RDF>',
+      '</x:xmpmeta>',
+      '<?xpacket end="w"?>',
+    ].join('\n');
+  }
+
+  const packet = removeXmpProperties(xml, names);
+  const end = packet.lastIndexOf('</rdf:RDF>');
+  return `${packet.slice(0, end)}${description}\n${packet.slice(end)}`;
+}
@@ -0,0 +1,450 @@
+// @vitest-environment node
+import { beforeAll, describe, expect, it } from 'vitest';
+import { C2PA_VALIDATION } from '@/lib/constants';
+import { encodeJpeg, encodePng } from '@/lib/detection/node';
+import { CborTag, encodeCbor } from './cbor';
+import { readC2pa } from './c2pa';
+import { extractManifestStore } from './jumbf';
+
+const AI_SOURCE =
+  'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let at = 0;
+  for (const part of parts) {
+    joined.set(part, at);
+    at += part.length;
+  }
+  return joined;
+}
+
+function u32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+function ascii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function box(type: string, payload: Uint8Array): Uint8Array {
+  return concat(u32(8 + payload.length), ascii(type), payload);
+}
+
+/**
+ * JUMBF superbox; returns the payload too, which assertion hashes cover
+ */
+function superbox(
+  label: string,
+  children: Uint8Array[]
+): { bytes: Uint8Array; payload: Uint8Array } {
+  const description = box(
+    'jumd',
+    concat(
+      new Uint8Array(16),
+      Uint8Array.of(0x03),
+      ascii(label),
+      Uint8Array.of(0)
+    )
+  );
+  const payload = concat(description, ...children);
+  return { bytes: box('jumb', payload), payload };
+}
+
+// DER, just enough for a certificate the reader can parse
+function der(tag: number, ...content: Uint8Array[]): Uint8Array {
+  const body = concat(...content);
+  const length =
+    body.length < 0x80
+      ? Uint8Array.of(body.length)
+      : Uint8Array.of(0x82, body.length >> 8, body.length & 0xff);
+  return concat(Uint8Array.of(tag), length, body);
+}
+
+function name(commonName: string, organization: string): Uint8Array {
+  const attribute = (oid: number, value: string) =>
+    der(
+      0x31,
+      der(
+        0x30,
+        der(0x06, Uint8Array.of(0x55, 0x04, oid)),
+        der(0x0c, ascii(value))
+      )
+    );
+  return der(0x30, attribute(0x03, commonName), attribute(0x0a, organization));
+}
+
+async function certificate(publicKey: CryptoKey): Promise<Uint8Array> {
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', publicKey));
+  // ecdsa-with-SHA256
+  const algorithm = der(
+    0x30,
+    der(0x06, Uint8Array.of(0x2a, 0x86, 0x48, 0xce, 0x3d, 0x04, 0x03, 0x02))
+  );
+  const tbs = der(
+    0x30,
+    der(0xa0, der(0x02, Uint8Array.of(2))),
+    der(0x02, Uint8Array.of(1)),
+    algorithm,
+    name('Test CA', 'Example CA'),
+    der(
+      0x30,
+      der(0x17, ascii('250101000000Z')),
+      der(0x17, ascii('350101000000Z'))
+    ),
+    name('Test Signer', 'Example Org'),
+    spki
+  );
+  return der(0x30, tbs, algorithm, der(0x03, Uint8Array.of(0)));
+}
+
+interface ManifestOptions {
+  exclusion: { start: number; length: number };
+  assetHash: Uint8Array; // SHA-256 of the asset outside the exclusion
+  signingKey: CryptoKey;
+  certificate: Uint8Array;
+  forgedHash?: Uint8Array; // Adds a binding the claim does not reference
+  attachedPayload?: Uint8Array; // Signed and attached in place of the claim
+  injected?: Uint8Array[]; // Assertion boxes the claim does not reference
+}
+
+type ManifestTweaks = Pick<
+  ManifestOptions,
+  'forgedHash' | 'attachedPayload' | 'injected'
+>;
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.digest('SHA-256', new Uint8Array(bytes))
+  );
+}
+
+async function manifestStore(options: ManifestOptions): Promise<Uint8Array> {
+  const actions = superbox('c2pa.actions.v2', [
+    box(
+      'cbor',
+      encodeCbor({
+        actions: [
+          {
+            action: 'c2pa.created',
+            digitalSourceType: AI_SOURCE,
+            softwareAgent: { name: 'Image Model' },
+          },
+        ],
+      })
+    ),
+  ]);
+  const binding = (label: string, hash: Uint8Array) =>
+    superbox(label, [
+      box(
+        'cbor',
+        encodeCbor({
+          exclusions: [options.exclusion],
+          name: 'jumbf manifest',
+          alg: 'sha256',
+          hash,
+        })
+      ),
+    ]);
+  const hashData = binding('c2pa.hash.data', options.assetHash);
+  const assertions = superbox('c2pa.assertions', [
+    actions.bytes,
+    // Ahead of the real binding, where a first-match lookup would pick it
+    ...(options.forgedHash
+      ? [binding('c2pa.hash.data__1', options.forgedHash).bytes]
+      : []),
+    hashData.bytes,
+    ...(options.injected ?? []),
+  ]);
+
+  const claimBytes = encodeCbor({
+    instanceID: 'xmp:iid:test',
+    claim_generator_info: { name: 'Test Generator', version: '1.0' },
+    signature: 'self#jumbf=c2pa.signature',
+    created_assertions: [
+      {
+        url: 'self#jumbf=c2pa.assertions/c2pa.actions.v2',
+        hash: await sha256(actions.payload),
+      },
+      {
+        url: 'self#jumbf=c2pa.assertions/c2pa.hash.data',
+        hash: await sha256(hashData.payload),
+      },
+    ],
+    alg: 'sha256',
+    'dc:title': 'generated.png',
+  });
+  const claim = superbox('c2pa.claim.v2', [box('cbor', claimBytes)]);
+
+  const protectedHeader = encodeCbor(
+    new Map<number, unknown>([
+      [1, -7],
+      [33, options.certificate],
+    ])
+  );
+  const signature = new Uint8Array(
+    await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      options.signingKey,
+      new Uint8Array(
+        encodeCbor([
+          'Signature1',
+          protectedHeader,
+          new Uint8Array(0),
+          options.attachedPayload ?? claimBytes,
+        ])
+      )
+    )
+  );
+  const cose = encodeCbor(
+    new CborTag(18, [
+      protectedHeader,
+      {},
+      options.attachedPayload ?? null,
+      signature,
+    ])
+  );
+  const signatureBox = superbox('c2pa.signature', [box('cbor', cose)]);
+
+  const manifest = superbox('urn:uuid:00000000-0000-4000-8000-000000000001', [
+    assertions.bytes,
+    claim.bytes,
+    signatureBox.bytes,
+  ]);
+  return superbox('c2pa', [manifest.bytes]).bytes;
+}
+
+// Signature + IHDR; the manifest goes right after
+const PNG_INSERT_AT = 33;
+
+/**
+ * Embed a signed manifest store in a PNG caBX chunk, excluding the chunk
+ * from the hash binding
+ */
+async function signedPng(
+  png: Uint8Array,
+  signingKey: CryptoKey,
+  cert: Uint8Array,
+  tweaks: ManifestTweaks = {}
+): Promise<Uint8Array> {
+  const assetHash = await sha256(png);
+  // The exclusion length depends on the store size; iterate until stable
+  let length = 0;
+  let store: Uint8Array = new Uint8Array(0);
+  while (store.length + 12 !== length) {
+    length = store.length + 12;
+    store = await manifestStore({
+      exclusion: { start: PNG_INSERT_AT, length },
+      assetHash,
+      signingKey,
+      certificate: cert,
+      ...tweaks,
+    });
+  }
+
+  const chunk = concat(u32(store.length), ascii('caBX'), store, u32(0));
+  return concat(
+    png.subarray(0, PNG_INSERT_AT),
+    chunk,
+    png.subarray(PNG_INSERT_AT)
+  );
+}
+
+describe('readC2pa', () => {
+  const image = {
+    data: new Uint8ClampedArray(8 * 8 * 4).fill(200),
+    width: 8,
+    height: 8,
+  };
+  let keys: CryptoKeyPair;
+  let cert: Uint8Array;
+  let png: Uint8Array;
+
+  beforeAll(async () => {
+    keys = (await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    )) as CryptoKeyPair;
+    cert = await certificate(keys.publicKey);
+    png = await signedPng(encodePng(image), keys.privateKey, cert);
+  });
+
+  it('verifies a signed manifest and reads its claims', async () => {
+    const report = await readC2pa(png);
+    expect(report?.errors).toEqual([]);
+    expect(report?.carrier).toBe('png');
+
+    const [manifest] = report!.manifests;
+    expect(report!.activeManifest).toBe(manifest.label);
+    expect(manifest.validation).toEqual({
+      signature: C2PA_VALIDATION.VALID,
+      assertions: C2PA_VALIDATION.VALID,
+      hashBinding: C2PA_VALIDATION.VALID,
+    });
+    expect(manifest).toMatchObject({
+      claimGenerator: 'Test Generator 1.0',
+      title: 'generated.png',
+      signatureAlgorithm: 'ES256',
+      aiGenerated: true,
+      signer: {
+        commonName: 'Test Signer',
+        organization: 'Example Org',
+        issuer: 'Example CA',
+        notAfter: '2035-01-01T00:00:00.000Z',
+      },
+      actions: [
+        {
+          action: 'c2pa.created',
+          digitalSourceType: AI_SOURCE,
+          softwareAgent: 'Image Model',
+        },
+      ],
+    });
+  });
+
+  it('flags edited pixels and foreign signatures', async () => {
+    const edited = png.slice();
+    edited[edited.length - 20] ^= 0xff; // Inside IDAT, past the manifest
+    const [tampered] = (await readC2pa(edited))!.manifests;
+    expect(tampered.validation.hashBinding).toBe(C2PA_VALIDATION.INVALID);
+    expect(tampered.validation.signature).toBe(C2PA_VALIDATION.VALID);
+
+    const other = (await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    )) as CryptoKeyPair;
+    const forged = await signedPng(encodePng(image), other.privateKey, cert);
+    const [manifest] = (await readC2pa(forged))!.manifests;
+    expect(manifest.validation.signature).toBe(C2PA_VALIDATION.INVALID);
+  });
+
+  it('rejects signatures over an attached payload', async () => {
+    // A genuine signature, but over other bytes than this claim
+    const reused = await signedPng(encodePng(image), keys.privateKey, cert, {
+      attachedPayload: encodeCbor({ instanceID: 'xmp:iid:other' }),
+    });
+    const [manifest] = (await readC2pa(reused))!.manifests;
+    expect(manifest.validation.signature).toBe(C2PA_VALIDATION.INVALID);
+    expect(manifest.errors).toContain('Payload is not detached');
+  });
+
+  it('ignores hash bindings the claim does not reference', async () => {
+    // An unreferenced binding matching the file as edited after signing
+    const original = encodePng(image);
+    const edit = (bytes: Uint8Array) => {
+      const edited = new Uint8Array(bytes); // Buffer#slice would share memory
+      edited[edited.length - 20] ^= 0xff;
+      return edited;
+    };
+    const signed = await signedPng(original, keys.privateKey, cert, {
+      forgedHash: await sha256(edit(original)),
+    });
+
+    const [intact] = (await readC2pa(signed))!.manifests;
+    expect(intact.validation.hashBinding).toBe(C2PA_VALIDATION.VALID);
+    const [tampered] = (await readC2pa(edit(signed)))!.manifests;
+    expect(tampered.validation.hashBinding).toBe(C2PA_VALIDATION.INVALID);
+  });
+
+  it('reads actions and ingredients from referenced assertions only', async () => {
+    const injected = [
+      superbox('c2pa.actions__1', [
+        box(
+          'cbor',
+          encodeCbor({
+            actions: [{ action: 'c2pa.edited', digitalSourceType: AI_SOURCE }],
+          })
+        ),
+      ]).bytes,
+      superbox('c2pa.ingredient.v3', [
+        box('cbor', encodeCbor({ title: 'source.png' })),
+      ]).bytes,
+    ];
+    const signed = await signedPng(encodePng(image), keys.privateKey, cert, {
+      injected,
+    });
+
+    const [manifest] = (await readC2pa(signed))!.manifests;
+    expect(manifest.validation.assertions).toBe(C2PA_VALIDATION.VALID);
+    expect(manifest.actions.map(({ action }) => action)).toEqual([
+      'c2pa.created',
+    ]);
+    expect(manifest.ingredients).toBe(0);
+  });
+
+  it('returns null without Content Credentials', async () => {
+    expect(await readC2pa(encodePng(image))).toBeNull();
+  });
+});
+
+describe('extractManifestStore', () => {
+  const store = concat(
+    box('jumb', concat(box('jumd', new Uint8Array(17)), new Uint8Array(40)))
+  );
+
+  it('reassembles JPEG APP11 segments', () => {
+    // Split after 30 bytes; the continuation repeats the box header
+    const segment = (sequence: number, body: Uint8Array) => {
+      const payload = concat(
+        ascii('JP'),
+        Uint8Array.of(0, 1),
+        u32(sequence),
+        body
+      );
+      return concat(
+        Uint8Array.of(
+          0xff,
+          0xeb,
+          (payload.length + 2) >> 8,
+          payload.length + 2
+        ),
+        payload
+      );
+    };
+    const jpeg = encodeJpeg(
+      { data: new Uint8ClampedArray(64).fill(128), width: 4, height: 4 },
+      90
+    );
+    const embedded = concat(
+      jpeg.subarray(0, 2),
+      segment(1, store.subarray(0, 30)),
+      segment(2, concat(store.subarray(0, 8), store.subarray(30))),
+      jpeg.subarray(2)
+    );
+
+    expect(extractManifestStore(embedded)).toEqual({
+      carrier: 'jpeg',
+      jumbf: store,
+    });
+  });
+
+  it('reads the WebP C2PA chunk', () => {
+    const little = (value: number) => {
+      const bytes = new Uint8Array(4);
+      new DataView(bytes.buffer).setUint32(0, value, true);
+      return bytes;
+    };
+    const chunks = concat(
+      ascii('VP8L'),
+      little(3),
+      Uint8Array.of(1, 2, 3, 0), // Odd sizes are padded
+      ascii('C2PA'),
+      little(store.length),
+      store
+    );
+    const webp = concat(
+      ascii('RIFF'),
+      little(4 + chunks.length),
+      ascii('WEBP'),
+      chunks
+    );
+
+    expect(extractManifestStore(webp)?.jumbf).toEqual(store);
+  });
+});
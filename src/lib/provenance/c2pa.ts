@@ -0,0 +1,384 @@
+import { C2PA_CONFIG, C2PA_VALIDATION } from '@/lib/constants';
+import { ProvenanceError } from '@/lib/errors';
+import type {
+  C2paAction,
+  C2paManifest,
+  C2paReport,
+  C2paValidationStatus,
+} from '@/lib/schemas';
+import { decodeCbor, type CborValue } from './cbor';
+import { verifyCoseSign1, type CoseVerification } from './cose';
+import {
+  childBox,
+  contentBox,
+  extractManifestStore,
+  parseJumbf,
+  type JumbfSuperBox,
+} from './jumbf';
+
+/**
+ * C2PA Content Credentials: locate the manifest store, verify each claim's
+ * signature and assertion hashes, check the active manifest's hash binding
+ * against the file, and extract what it says about how the asset was made
+ */
+
+const MANIFEST_STORE_LABEL = 'c2pa';
+const ASSERTION_STORE_LABEL = 'c2pa.assertions';
+const SIGNATURE_LABEL = 'c2pa.signature';
+const CLAIM_LABELS = ['c2pa.claim.v2', 'c2pa.claim'];
+
+// Assertion labels may carry an instance suffix such as "__1"
+const ACTIONS_LABEL = /^c2pa\.actions(\.v2)?(__\d+)?$/;
+const INGREDIENT_LABEL = /^c2pa\.ingredient(\.v\d)?(__\d+)?$/;
+const DATA_HASH_LABEL = /^c2pa\.hash\.data(__\d+)?$/;
+const OTHER_HASH_LABEL = /^c2pa\.hash\.(bmff|boxes|collection)/;
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+type CborMap = Record<string, CborValue>;
+
+// A claim's assertion reference, with the box it resolved to
+interface CheckedAssertion {
+  box?: JumbfSuperBox;
+  status: C2paValidationStatus;
+}
+
+function asMap(value: CborValue | undefined): CborMap | null {
+  return value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Uint8Array)
+    ? (value as CborMap)
+    : null;
+}
+
+function asString(value: CborValue | undefined): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asArray(value: CborValue | undefined): CborValue[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+async function digest(
+  alg: string,
+  parts: Uint8Array[]
+): Promise<Uint8Array | null> {
+  const name = HASH_ALGORITHMS[alg];
+  if (!name) return null;
+
+  const joined = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let at = 0;
+  for (const part of parts) {
+    joined.set(part, at);
+    at += part.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest(name, joined));
+}
+
+/**
+ * Worst status wins: invalid, then unsupported, then missing
+ */
+function combine(statuses: C2paValidationStatus[]): C2paValidationStatus {
+  for (const status of [
+    C2PA_VALIDATION.INVALID,
+    C2PA_VALIDATION.UNSUPPORTED,
+    C2PA_VALIDATION.MISSING,
+  ]) {
+    if (statuses.includes(status)) return status;
+  }
+  return statuses.length > 0 ? C2PA_VALIDATION.VALID : C2PA_VALIDATION.MISSING;
+}
+
+/**
+ * Resolve a `self#jumbf=` URI, absolute from the store or relative to the
+ * manifest
+ */
+function resolveUri(
+  url: string,
+  store: JumbfSuperBox,
+  manifest: JumbfSuperBox
+): JumbfSuperBox | undefined {
+  const path = url.replace(/^self#jumbf=/, '');
+  const segments = path.split('/').filter(Boolean);
+
+  let box: JumbfSuperBox | undefined = manifest;
+  if (path.startsWith('/')) {
+    if (segments.shift() !== store.label) return undefined;
+    box = store;
+  }
+  for (const segment of segments) {
+    box = box && childBox(box, segment);
+  }
+  return box;
+}
+
+function assertionData(box: JumbfSuperBox): CborValue {
+  const content = contentBox(box);
+  if (content?.type === 'cbor') return decodeCbor(content.data);
+  if (content?.type === 'json') {
+    return JSON.parse(new TextDecoder().decode(content.data));
+  }
+  return null;
+}
+
+function claimGenerator(claim: CborMap): string | undefined {
+  const legacy = asString(claim.claim_generator);
+  if (legacy) return legacy;
+
+  const info = claim.claim_generator_info;
+  const first = asMap(Array.isArray(info) ? info[0] : info);
+  if (!first) return undefined;
+  return [asString(first.name), asString(first.version)]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function readActions(assertions: JumbfSuperBox[]): C2paAction[] {
+  return assertions
+    .filter((box) => ACTIONS_LABEL.test(box.label ?? ''))
+    .flatMap((box) => asArray(asMap(assertionData(box))?.actions))
+    .flatMap((entry) => {
+      const action = asMap(entry);
+      const name = asString(action?.action);
+      if (!action || !name) return [];
+
+      const agent = action.softwareAgent;
+      return [
+        {
+          action: name,
+          digitalSourceType: asString(action.digitalSourceType),
+          softwareAgent: asString(agent) ?? asString(asMap(agent)?.name),
+          when: asString(action.when),
+        },
+      ];
+    });
+}
+
+function isAiSourceType(uri: string | undefined): boolean {
+  const type = uri?.split('/').pop();
+  return (C2PA_CONFIG.AI_SOURCE_TYPES as readonly string[]).includes(
+    type ?? ''
+  );
+}
+
+/**
+ * Check the claim's hash binding against the file bytes outside the
+ * exclusion ranges (which hold the manifest itself). Only a binding the
+ * signed claim references, with a verified assertion hash, counts; any box
+ * could otherwise be slipped into the assertion store.
+ */
+async function verifyHashBinding(
+  assertions: JumbfSuperBox[],
+  verified: JumbfSuperBox[],
+  bytes: Uint8Array,
+  errors: string[]
+): Promise<C2paValidationStatus> {
+  const binding = verified.find((box) => DATA_HASH_LABEL.test(box.label ?? ''));
+  if (!binding) {
+    if (assertions.some((box) => DATA_HASH_LABEL.test(box.label ?? ''))) {
+      errors.push('Hash binding is not a verified assertion of the claim');
+      return C2PA_VALIDATION.INVALID;
+    }
+    return assertions.some((box) => OTHER_HASH_LABEL.test(box.label ?? ''))
+      ? C2PA_VALIDATION.UNSUPPORTED
+      : C2PA_VALIDATION.MISSING;
+  }
+
+  const data = asMap(assertionData(binding));
+  const expected = data?.hash;
+  if (!(expected instanceof Uint8Array)) {
+    errors.push('Hash binding has no hash');
+    return C2PA_VALIDATION.INVALID;
+  }
+
+  const exclusions = asArray(data?.exclusions)
+    .map((entry) => asMap(entry))
+    .map((entry) => ({
+      start: Number(entry?.start),
+      length: Number(entry?.length),
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const parts: Uint8Array[] = [];
+  let at = 0;
+  for (const { start, length } of exclusions) {
+    if (!(start >= at && start + length <= bytes.length)) {
+      errors.push('Hash binding exclusions fall outside the file');
+      return C2PA_VALIDATION.INVALID;
+    }
+    parts.push(bytes.subarray(at, start));
+    at = start + length;
+  }
+  parts.push(bytes.subarray(at));
+
+  const actual = await digest(asString(data?.alg) ?? 'sha256', parts);
+  if (!actual) return C2PA_VALIDATION.UNSUPPORTED;
+  if (!equalBytes(actual, expected)) {
+    errors.push('File bytes do not match the hash binding');
+    return C2PA_VALIDATION.INVALID;
+  }
+  return C2PA_VALIDATION.VALID;
+}
+
+async function readManifest(
+  manifest: JumbfSuperBox,
+  store: JumbfSuperBox,
+  bytes: Uint8Array,
+  active: boolean
+): Promise<C2paManifest> {
+  const errors: string[] = [];
+  const assertionStore = childBox(manifest, ASSERTION_STORE_LABEL);
+  const assertions = (assertionStore?.children ?? []).filter(
+    (child): child is JumbfSuperBox => child.type === 'jumb'
+  );
+
+  const claimBox = CLAIM_LABELS.map((label) => childBox(manifest, label)).find(
+    Boolean
+  );
+  const claimBytes = claimBox && contentBox(claimBox, 'cbor')?.data;
+  const claim = claimBytes ? asMap(decodeCbor(claimBytes)) : null;
+  if (!claimBytes || !claim) {
+    throw new ProvenanceError(`Manifest ${manifest.label} has no claim`);
+  }
+
+  // Every assertion the claim lists must hash to what it recorded
+  const alg = asString(claim.alg) ?? 'sha256';
+  const references = [
+    ...asArray(claim.assertions),
+    ...asArray(claim.created_assertions),
+    ...asArray(claim.gathered_assertions),
+  ];
+  const checked = await Promise.all(
+    references.map(async (entry): Promise<CheckedAssertion> => {
+      const reference = asMap(entry);
+      const url = asString(reference?.url);
+      const expected = reference?.hash;
+      const box = url ? resolveUri(url, store, manifest) : undefined;
+      if (!box || !(expected instanceof Uint8Array)) {
+        errors.push(`Missing assertion ${url ?? '(no url)'}`);
+        return { status: C2PA_VALIDATION.INVALID };
+      }
+      const actual = await digest(asString(reference?.alg) ?? alg, [
+        box.payload,
+      ]);
+      if (!actual) return { box, status: C2PA_VALIDATION.UNSUPPORTED };
+      if (!equalBytes(actual, expected)) {
+        errors.push(`Assertion ${box.label} does not match its hash`);
+        return { box, status: C2PA_VALIDATION.INVALID };
+      }
+      return { box, status: C2PA_VALIDATION.VALID };
+    })
+  );
+  const verified = checked.flatMap(({ box, status }) =>
+    box && status === C2PA_VALIDATION.VALID ? [box] : []
+  );
+
+  const signatureBox = childBox(manifest, SIGNATURE_LABEL);
+  const cose = signatureBox && contentBox(signatureBox, 'cbor')?.data;
+  const signature: CoseVerification = cose
+    ? await verifyCoseSign1(cose, claimBytes)
+    : { status: C2PA_VALIDATION.MISSING };
+  if (signature.error) {
+    errors.push(signature.error);
+  } else if (signature.status === C2PA_VALIDATION.INVALID) {
+    errors.push('Claim signature does not verify');
+  }
+
+  // What the manifest says is read from the signed assertions only
+  const { certificate } = signature;
+  const actions = readActions(verified);
+
+  return {
+    label: manifest.label ?? '',
+    claimGenerator: claimGenerator(claim),
+    title: asString(claim['dc:title']),
+    format: asString(claim['dc:format']),
+    signer: certificate
+      ? {
+          commonName: certificate.subject.commonName,
+          organization: certificate.subject.organization,
+          issuer:
+            certificate.issuer.organization ?? certificate.issuer.commonName,
+          notBefore: certificate.notBefore,
+          notAfter: certificate.notAfter,
+        }
+      : undefined,
+    signatureAlgorithm: signature.algorithm,
+    actions,
+    aiGenerated: actions.some((action) =>
+      isAiSourceType(action.digitalSourceType)
+    ),
+    ingredients: verified.filter((box) =>
+      INGREDIENT_LABEL.test(box.label ?? '')
+    ).length,
+    validation: {
+      signature: signature.status,
+      assertions: combine(checked.map(({ status }) => status)),
+      // An ingredient's binding refers to the ingredient's own bytes
+      hashBinding: active
+        ? await verifyHashBinding(assertions, verified, bytes, errors)
+        : C2PA_VALIDATION.SKIPPED,
+    },
+    errors,
+  };
+}
+
+/**
+ * Read and verify the C2PA manifest store embedded in an image, or null
+ * when there is none
+ */
+export async function readC2pa(bytes: Uint8Array): Promise<C2paReport | null> {
+  const embedded = extractManifestStore(bytes);
+  if (!embedded) return null;
+
+  const report: C2paReport = {
+    carrier: embedded.carrier,
+    manifests: [],
+    errors: [],
+  };
+
+  let store: JumbfSuperBox | undefined;
+  try {
+    store = parseJumbf(embedded.jumbf).find(
+      (box) => box.label === MANIFEST_STORE_LABEL
+    );
+  } catch (error) {
+    report.errors.push(error instanceof Error ? error.message : String(error));
+    return report;
+  }
+  if (!store) {
+    report.errors.push('No C2PA manifest store in the embedded JUMBF');
+    return report;
+  }
+
+  const manifests = store.children.filter(
+    (child): child is JumbfSuperBox => child.type === 'jumb'
+  );
+  // The last manifest in the store describes the asset itself
+  const active = manifests[manifests.length - 1];
+  report.activeManifest = active?.label ?? undefined;
+
+  for (const manifest of manifests) {
+    try {
+      report.manifests.push(
+        await readManifest(manifest, store, bytes, manifest === active)
+      );
+    } catch (error) {
+      report.errors.push(
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+  return report;
+}
@@ -0,0 +1,276 @@
+import { ProvenanceError } from '@/lib/errors';
+
+/**
+ * Minimal CBOR (RFC 8949) codec for C2PA claims, assertions and COSE
+ * structures. Maps decode to plain objects with stringified keys, so COSE
+ * header label 33 reads as `headers['33']`.
+ */
+
+export class CborTag {
+  constructor(
+    public readonly tag: number,
+    public readonly value: CborValue
+  ) {}
+}
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | { [key: string]: CborValue }
+  | CborTag;
+
+const BREAK = Symbol('break');
+
+class CborReader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  private need(count: number): void {
+    if (this.offset + count > this.bytes.length) {
+      throw new ProvenanceError('Truncated CBOR');
+    }
+  }
+
+  private uint(size: 1 | 2 | 4 | 8): number | bigint {
+    this.need(size);
+    const at = this.offset;
+    this.offset += size;
+    if (size === 1) return this.view.getUint8(at);
+    if (size === 2) return this.view.getUint16(at);
+    if (size === 4) return this.view.getUint32(at);
+    const value = this.view.getBigUint64(at);
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+  }
+
+  private argument(info: number): number | bigint | null {
+    if (info < 24) return info;
+    if (info === 24) return this.uint(1);
+    if (info === 25) return this.uint(2);
+    if (info === 26) return this.uint(4);
+    if (info === 27) return this.uint(8);
+    if (info === 31) return null; // Indefinite length
+    throw new ProvenanceError(`Invalid CBOR additional info ${info}`);
+  }
+
+  private length(info: number): number | null {
+    const value = this.argument(info);
+    if (typeof value === 'bigint') {
+      throw new ProvenanceError('CBOR length too large');
+    }
+    return value;
+  }
+
+  private take(count: number): Uint8Array {
+    this.need(count);
+    const slice = this.bytes.subarray(this.offset, this.offset + count);
+    this.offset += count;
+    return slice;
+  }
+
+  private chunks(major: number): Uint8Array {
+    const parts: Uint8Array[] = [];
+    for (;;) {
+      const item = this.item();
+      if (item === BREAK) break;
+      if (!(item instanceof Uint8Array) && typeof item !== 'string') {
+        throw new ProvenanceError('Invalid indefinite-length string');
+      }
+      parts.push(
+        major === 2
+          ? (item as Uint8Array)
+          : new TextEncoder().encode(item as string)
+      );
+    }
+    const joined = new Uint8Array(
+      parts.reduce((total, part) => total + part.length, 0)
+    );
+    let at = 0;
+    for (const part of parts) {
+      joined.set(part, at);
+      at += part.length;
+    }
+    return joined;
+  }
+
+  item(): CborValue | typeof BREAK {
+    this.need(1);
+    const initial = this.bytes[this.offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0: {
+        return this.argument(info) ?? invalid();
+      }
+      case 1: {
+        const value = this.argument(info) ?? invalid();
+        return typeof value === 'bigint' ? -BigInt(1) - value : -1 - value;
+      }
+      case 2:
+      case 3: {
+        const length = this.length(info);
+        const bytes = length === null ? this.chunks(major) : this.take(length);
+        return major === 2 ? bytes : new TextDecoder().decode(bytes);
+      }
+      case 4: {
+        const length = this.length(info);
+        const items: CborValue[] = [];
+        for (let i = 0; length === null || i < length; i++) {
+          const item = this.item();
+          if (item === BREAK) {
+            if (length === null) break;
+            invalid();
+          }
+          items.push(item as CborValue);
+        }
+        return items;
+      }
+      case 5: {
+        const length = this.length(info);
+        const map: { [key: string]: CborValue } = {};
+        for (let i = 0; length === null || i < length; i++) {
+          const key = this.item();
+          if (key === BREAK) {
+            if (length === null) break;
+            invalid();
+          }
+          const value = this.item();
+          if (value === BREAK) invalid();
+          map[String(key)] = value as CborValue;
+        }
+        return map;
+      }
+      case 6: {
+        const tag = this.argument(info) ?? invalid();
+        const value = this.item();
+        if (value === BREAK) invalid();
+        return new CborTag(Number(tag), value as CborValue);
+      }
+      default: {
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        if (info === 25) return halfToFloat(Number(this.uint(2)));
+        if (info === 26) {
+          this.need(4);
+          this.offset += 4;
+          return this.view.getFloat32(this.offset - 4);
+        }
+        if (info === 27) {
+          this.need(8);
+          this.offset += 8;
+          return this.view.getFloat64(this.offset - 8);
+        }
+        if (info === 31) return BREAK;
+        return Number(this.argument(info)); // Unassigned simple value
+      }
+    }
+  }
+}
+
+function invalid(): never {
+  throw new ProvenanceError('Malformed CBOR');
+}
+
+function halfToFloat(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 31) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Decode a single CBOR data item spanning all of `bytes`
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const reader = new CborReader(bytes);
+  const value = reader.item();
+  if (value === BREAK || !reader.done) invalid();
+  return value;
+}
+
+function head(major: number, value: number): number[] {
+  const type = major << 5;
+  if (value < 24) return [type | value];
+  if (value < 0x100) return [type | 24, value];
+  if (value < 0x10000) return [type | 25, value >> 8, value & 0xff];
+  if (value < 0x100000000) {
+    return [
+      type | 26,
+      (value >>> 24) & 0xff,
+      (value >> 16) & 0xff,
+      (value >> 8) & 0xff,
+      value & 0xff,
+    ];
+  }
+  throw new ProvenanceError('CBOR value too large to encode');
+}
+
+/**
+ * Encode integers, strings, byte strings, arrays, maps, booleans and null.
+ * Enough for COSE signature structures; Maps keep non-string keys.
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+  const out: number[] = [];
+  const push = (bytes: ArrayLike<number>) => {
+    for (let i = 0; i < bytes.length; i++) out.push(bytes[i]);
+  };
+
+  const encode = (item: unknown): void => {
+    if (item === null) {
+      out.push(0xf6);
+    } else if (typeof item === 'boolean') {
+      out.push(item ? 0xf5 : 0xf4);
+    } else if (typeof item === 'number' && Number.isInteger(item)) {
+      push(item >= 0 ? head(0, item) : head(1, -1 - item));
+    } else if (typeof item === 'string') {
+      const bytes = new TextEncoder().encode(item);
+      push(head(3, bytes.length));
+      push(bytes);
+    } else if (item instanceof Uint8Array) {
+      push(head(2, item.length));
+      push(item);
+    } else if (Array.isArray(item)) {
+      push(head(4, item.length));
+      item.forEach(encode);
+    } else if (item instanceof CborTag) {
+      push(head(6, item.tag));
+      encode(item.value);
+    } else if (item instanceof Map) {
+      push(head(5, item.size));
+      item.forEach((entry, key) => {
+        encode(key);
+        encode(entry);
+      });
+    } else if (typeof item === 'object') {
+      const entries = Object.entries(item as Record<string, unknown>);
+      push(head(5, entries.length));
+      for (const [key, entry] of entries) {
+        encode(key);
+        encode(entry);
+      }
+    } else {
+      throw new ProvenanceError(`Cannot encode ${typeof item} as CBOR`);
+    }
+  };
+
+  encode(value);
+  return Uint8Array.from(out);
+}
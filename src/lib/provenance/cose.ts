@@ -0,0 +1,162 @@
+import { C2PA_VALIDATION } from '@/lib/constants';
+import type { C2paValidationStatus } from '@/lib/schemas';
+import { CborTag, decodeCbor, encodeCbor, type CborValue } from './cbor';
+import { parseCertificate, type CertificateInfo } from './x509';
+
+/**
+ * COSE_Sign1 (RFC 9052) verification for C2PA claim signatures, with the
+ * signer's key taken from the x5chain header
+ */
+
+const COSE_SIGN1_TAG = 18;
+const HEADER_ALG = '1';
+const HEADER_X5CHAIN = '33';
+
+interface CoseAlgorithm {
+  name: string;
+  importParams: AlgorithmIdentifier | EcKeyImportParams | RsaHashedImportParams;
+  verifyParams: AlgorithmIdentifier | EcdsaParams | RsaPssParams;
+}
+
+// COSE algorithm identifiers C2PA allows
+const ALGORITHMS: Record<number, CoseAlgorithm> = {
+  [-7]: {
+    name: 'ES256',
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+  [-35]: {
+    name: 'ES384',
+    importParams: { name: 'ECDSA', namedCurve: 'P-384' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-384' },
+  },
+  [-36]: {
+    name: 'ES512',
+    importParams: { name: 'ECDSA', namedCurve: 'P-521' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-512' },
+  },
+  [-37]: {
+    name: 'PS256',
+    importParams: { name: 'RSA-PSS', hash: 'SHA-256' },
+    verifyParams: { name: 'RSA-PSS', saltLength: 32 },
+  },
+  [-38]: {
+    name: 'PS384',
+    importParams: { name: 'RSA-PSS', hash: 'SHA-384' },
+    verifyParams: { name: 'RSA-PSS', saltLength: 48 },
+  },
+  [-39]: {
+    name: 'PS512',
+    importParams: { name: 'RSA-PSS', hash: 'SHA-512' },
+    verifyParams: { name: 'RSA-PSS', saltLength: 64 },
+  },
+  [-8]: {
+    name: 'Ed25519',
+    importParams: { name: 'Ed25519' },
+    verifyParams: { name: 'Ed25519' },
+  },
+};
+
+export interface CoseVerification {
+  status: C2paValidationStatus;
+  algorithm?: string;
+  certificate?: CertificateInfo;
+  error?: string;
+}
+
+function asHeaders(value: CborValue): Record<string, CborValue> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, CborValue>)
+    : {};
+}
+
+/**
+ * Verify a COSE_Sign1 signature over a detached payload (the claim bytes)
+ */
+export async function verifyCoseSign1(
+  cose: Uint8Array,
+  payload: Uint8Array
+): Promise<CoseVerification> {
+  let message = decodeCbor(cose);
+  if (message instanceof CborTag && message.tag === COSE_SIGN1_TAG) {
+    message = message.value;
+  }
+  if (!Array.isArray(message) || message.length !== 4) {
+    return { status: C2PA_VALIDATION.INVALID, error: 'Not a COSE_Sign1' };
+  }
+
+  const [protectedBytes, unprotected, attached, signature] = message;
+  if (!(protectedBytes instanceof Uint8Array)) {
+    return { status: C2PA_VALIDATION.INVALID, error: 'Bad protected header' };
+  }
+  if (!(signature instanceof Uint8Array)) {
+    return { status: C2PA_VALIDATION.INVALID, error: 'Missing signature' };
+  }
+  // C2PA claim signatures are detached; an attached payload would be signed
+  // in place of the claim
+  if (attached !== null && attached !== undefined) {
+    return {
+      status: C2PA_VALIDATION.INVALID,
+      error: 'Payload is not detached',
+    };
+  }
+
+  const headers = {
+    ...asHeaders(unprotected),
+    ...(protectedBytes.length > 0 ? asHeaders(decodeCbor(protectedBytes)) : {}),
+  };
+  const chain = headers[HEADER_X5CHAIN];
+  const leaf = Array.isArray(chain) ? chain[0] : chain;
+  if (!(leaf instanceof Uint8Array)) {
+    return { status: C2PA_VALIDATION.INVALID, error: 'No signing certificate' };
+  }
+  const certificate = parseCertificate(leaf);
+
+  const algorithm = ALGORITHMS[Number(headers[HEADER_ALG])];
+  if (!algorithm) {
+    return {
+      status: C2PA_VALIDATION.UNSUPPORTED,
+      certificate,
+      error: `Unsupported signature algorithm ${String(headers[HEADER_ALG])}`,
+    };
+  }
+
+  // Sig_structure for a COSE_Sign1 with no external AAD
+  const signed = encodeCbor([
+    'Signature1',
+    protectedBytes,
+    new Uint8Array(0),
+    payload,
+  ]);
+
+  let key: CryptoKey;
+  try {
+    key = await crypto.subtle.importKey(
+      'spki',
+      new Uint8Array(certificate.spki),
+      algorithm.importParams,
+      false,
+      ['verify']
+    );
+  } catch (error) {
+    // Browsers without Ed25519 or with a mismatched curve land here
+    return {
+      status: C2PA_VALIDATION.UNSUPPORTED,
+      algorithm: algorithm.name,
+      certificate,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const valid = await crypto.subtle.verify(
+    algorithm.verifyParams,
+    key,
+    new Uint8Array(signature),
+    new Uint8Array(signed)
+  );
+  return {
+    status: valid ? C2PA_VALIDATION.VALID : C2PA_VALIDATION.INVALID,
+    algorithm: algorithm.name,
+    certificate,
+  };
+}
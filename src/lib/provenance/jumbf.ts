@@ -0,0 +1,241 @@
+import { ProvenanceError } from '@/lib/errors';
+
+/**
+ * JUMBF (ISO 19566-5) boxes, and the carriers C2PA uses to embed them:
+ * JPEG APP11 segments, the PNG caBX chunk and the WebP C2PA chunk
+ */
+
+export interface JumbfContentBox {
+  type: string; // Box type, e.g. "cbor" or "json"
+  data: Uint8Array;
+}
+
+export interface JumbfSuperBox {
+  type: 'jumb';
+  uuid: string; // Content type, lowercase hex
+  label: string | null;
+  payload: Uint8Array; // Description and content boxes, as C2PA hashes them
+  children: JumbfBox[];
+}
+
+export type JumbfBox = JumbfSuperBox | JumbfContentBox;
+
+export type ManifestCarrier = 'jpeg' | 'png' | 'webp';
+
+interface RawBox {
+  type: string;
+  data: Uint8Array;
+}
+
+const decoder = new TextDecoder();
+
+function fourCC(bytes: Uint8Array, at: number): string {
+  return String.fromCharCode(
+    bytes[at],
+    bytes[at + 1],
+    bytes[at + 2],
+    bytes[at + 3]
+  );
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+/**
+ * Split ISO BMFF-style boxes: 32-bit length, type, then payload
+ */
+function readBoxes(bytes: Uint8Array): RawBox[] {
+  const data = view(bytes);
+  const boxes: RawBox[] = [];
+  let offset = 0;
+
+  while (offset + 8 <= bytes.length) {
+    let size = data.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > bytes.length) break;
+      size = Number(data.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = bytes.length - offset; // Runs to the end
+    }
+    if (size < header || offset + size > bytes.length) {
+      throw new ProvenanceError(`Truncated JUMBF box ${type}`);
+    }
+    boxes.push({ type, data: bytes.subarray(offset + header, offset + size) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function parseSuperBox(payload: Uint8Array): JumbfSuperBox {
+  const [description, ...content] = readBoxes(payload);
+  if (description?.type !== 'jumd' || description.data.length < 17) {
+    throw new ProvenanceError('JUMBF superbox without a description box');
+  }
+
+  const { data } = description;
+  const uuid = Array.from(data.subarray(0, 16))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  const toggles = data[16];
+  let label: string | null = null;
+  if (toggles & 0x02) {
+    const end = data.indexOf(0, 17);
+    label = decoder.decode(data.subarray(17, end === -1 ? data.length : end));
+  }
+
+  return {
+    type: 'jumb',
+    uuid,
+    label,
+    payload,
+    children: content.map((box) =>
+      box.type === 'jumb' ? parseSuperBox(box.data) : box
+    ),
+  };
+}
+
+/**
+ * Parse the top-level superboxes of a JUMBF stream
+ */
+export function parseJumbf(bytes: Uint8Array): JumbfSuperBox[] {
+  return readBoxes(bytes)
+    .filter((box) => box.type === 'jumb')
+    .map((box) => parseSuperBox(box.data));
+}
+
+/**
+ * Child superbox by label
+ */
+export function childBox(
+  box: JumbfSuperBox,
+  label: string
+): JumbfSuperBox | undefined {
+  return box.children.find(
+    (child): child is JumbfSuperBox =>
+      child.type === 'jumb' && (child as JumbfSuperBox).label === label
+  );
+}
+
+/**
+ * First content box of a superbox, optionally of one type
+ */
+export function contentBox(
+  box: JumbfSuperBox,
+  type?: string
+): JumbfContentBox | undefined {
+  return box.children.find(
+    (child): child is JumbfContentBox =>
+      child.type !== 'jumb' && (type === undefined || child.type === type)
+  );
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let at = 0;
+  for (const part of parts) {
+    joined.set(part, at);
+    at += part.length;
+  }
+  return joined;
+}
+
+/**
+ * Reassemble JUMBF from APP11 segments. Each box instance may span
+ * several segments; continuations repeat the box header, which is dropped.
+ */
+function jpegManifestStore(bytes: Uint8Array): Uint8Array | null {
+  const data = view(bytes);
+  const instances = new Map<number, { sequence: number; part: Uint8Array }[]>();
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xd9 || marker === 0xda) break; // End of image, scan data
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    const length = data.getUint16(offset + 2);
+    const segment = bytes.subarray(offset + 4, offset + 2 + length);
+
+    // Common identifier "JP", box instance, packet sequence number
+    if (marker === 0xeb && segment.length >= 16 && segment[0] === 0x4a) {
+      const instance = data.getUint16(offset + 6);
+      const sequence = data.getUint32(offset + 8);
+      const box = segment.subarray(8);
+      const header = view(box).getUint32(0) === 1 ? 16 : 8;
+      const parts = instances.get(instance) ?? [];
+      parts.push({
+        sequence,
+        part: sequence === 1 ? box : box.subarray(header),
+      });
+      instances.set(instance, parts);
+    }
+    offset += 2 + length;
+  }
+
+  for (const parts of Array.from(instances.values())) {
+    const joined = concat(
+      parts.sort((a, b) => a.sequence - b.sequence).map(({ part }) => part)
+    );
+    if (fourCC(joined, 4) === 'jumb') return joined;
+  }
+  return null;
+}
+
+function pngManifestStore(bytes: Uint8Array): Uint8Array | null {
+  const data = view(bytes);
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = data.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    if (type === 'caBX') {
+      return bytes.subarray(offset + 8, offset + 8 + length);
+    }
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return null;
+}
+
+function webpManifestStore(bytes: Uint8Array): Uint8Array | null {
+  const data = view(bytes);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const length = data.getUint32(offset + 4, true);
+    if (type === 'C2PA') {
+      return bytes.subarray(offset + 8, offset + 8 + length);
+    }
+    offset += 8 + length + (length & 1);
+  }
+  return null;
+}
+
+/**
+ * Locate the embedded C2PA manifest store, or null when the format has
+ * none or is not a supported carrier
+ */
+export function extractManifestStore(
+  bytes: Uint8Array
+): { carrier: ManifestCarrier; jumbf: Uint8Array } | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const jumbf = jpegManifestStore(bytes);
+    return jumbf ? { carrier: 'jpeg', jumbf } : null;
+  }
+  if (bytes[0] === 0x89 && fourCC(bytes, 1).startsWith('PNG')) {
+    const jumbf = pngManifestStore(bytes);
+    return jumbf ? { carrier: 'png', jumbf } : null;
+  }
+  if (fourCC(bytes, 0) === 'RIFF' && fourCC(bytes, 8) === 'WEBP') {
+    const jumbf = webpManifestStore(bytes);
+    return jumbf ? { carrier: 'webp', jumbf } : null;
+  }
+  return null;
+}
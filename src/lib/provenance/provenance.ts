@@ -0,0 +1,10 @@
+import type { Provenance } from '@/lib/schemas';
+import { readC2pa } from './c2pa';
+
+/**
+ * Provenance signals embedded in an image file
+ */
+export async function readProvenance(file: Blob): Promise<Provenance> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return { c2pa: await readC2pa(bytes) };
+}
@@ -0,0 +1,163 @@
+import { ProvenanceError } from '@/lib/errors';
+
+/**
+ * Just enough DER to read the subject, issuer, validity and public key of
+ * a C2PA signing certificate. Chains are not validated.
+ */
+
+interface Der {
+  tag: number;
+  start: number; // Offset of the tag byte
+  contentStart: number;
+  end: number; // Offset past the content
+}
+
+export interface CertificateName {
+  commonName?: string;
+  organization?: string;
+}
+
+export interface CertificateInfo {
+  subject: CertificateName;
+  issuer: CertificateName;
+  notBefore?: string; // ISO timestamps
+  notAfter?: string;
+  spki: Uint8Array; // DER SubjectPublicKeyInfo, importable as "spki"
+}
+
+const OID_COMMON_NAME = '2.5.4.3';
+const OID_ORGANIZATION = '2.5.4.10';
+
+function readDer(bytes: Uint8Array, start: number): Der {
+  if (start + 2 > bytes.length) throw new ProvenanceError('Truncated DER');
+  const tag = bytes[start];
+  let length = bytes[start + 1];
+  let contentStart = start + 2;
+
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) {
+      throw new ProvenanceError('Unsupported DER length');
+    }
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + bytes[contentStart + i];
+    }
+    contentStart += count;
+  }
+
+  const end = contentStart + length;
+  if (end > bytes.length) throw new ProvenanceError('Truncated DER');
+  return { tag, start, contentStart, end };
+}
+
+function children(bytes: Uint8Array, parent: Der): Der[] {
+  const items: Der[] = [];
+  for (let at = parent.contentStart; at < parent.end;) {
+    const item = readDer(bytes, at);
+    items.push(item);
+    at = item.end;
+  }
+  return items;
+}
+
+function decodeOid(bytes: Uint8Array): string {
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+function decodeString(bytes: Uint8Array, item: Der): string | undefined {
+  const content = bytes.subarray(item.contentStart, item.end);
+  switch (item.tag) {
+    case 0x0c: // UTF8String
+      return new TextDecoder().decode(content);
+    case 0x13: // PrintableString
+    case 0x14: // TeletexString
+    case 0x16: // IA5String
+      return String.fromCharCode(...Array.from(content));
+    case 0x1e: {
+      // BMPString, UTF-16BE
+      let text = '';
+      for (let i = 0; i + 1 < content.length; i += 2) {
+        text += String.fromCharCode((content[i] << 8) | content[i + 1]);
+      }
+      return text;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function readName(bytes: Uint8Array, name: Der): CertificateName {
+  const result: CertificateName = {};
+  for (const set of children(bytes, name)) {
+    for (const attribute of children(bytes, set)) {
+      const [type, value] = children(bytes, attribute);
+      if (!type || !value) continue;
+      const oid = decodeOid(bytes.subarray(type.contentStart, type.end));
+      if (oid === OID_COMMON_NAME) {
+        result.commonName = decodeString(bytes, value);
+      } else if (oid === OID_ORGANIZATION) {
+        result.organization = decodeString(bytes, value);
+      }
+    }
+  }
+  return result;
+}
+
+function readTime(bytes: Uint8Array, item: Der): string | undefined {
+  const text = decodeString(bytes, { ...item, tag: 0x13 });
+  const match = text?.match(
+    /^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/
+  );
+  if (!match) return undefined;
+  let year = Number(match[1]);
+  if (match[1].length === 2) year += year < 50 ? 2000 : 1900; // UTCTime
+  return new Date(
+    Date.UTC(
+      year,
+      Number(match[2]) - 1,
+      Number(match[3]),
+      Number(match[4]),
+      Number(match[5]),
+      Number(match[6])
+    )
+  ).toISOString();
+}
+
+/**
+ * Read the fields C2PA reports from a DER X.509 certificate
+ */
+export function parseCertificate(der: Uint8Array): CertificateInfo {
+  const certificate = readDer(der, 0);
+  const [tbs] = children(der, certificate);
+  if (!tbs) throw new ProvenanceError('Empty certificate');
+
+  const fields = children(der, tbs);
+  // Skip the optional explicit [0] version
+  const offset = fields[0]?.tag === 0xa0 ? 1 : 0;
+  const issuer = fields[offset + 2];
+  const validity = fields[offset + 3];
+  const subject = fields[offset + 4];
+  const spki = fields[offset + 5];
+  if (!issuer || !validity || !subject || !spki) {
+    throw new ProvenanceError('Malformed certificate');
+  }
+
+  const [notBefore, notAfter] = children(der, validity);
+  return {
+    subject: readName(der, subject),
+    issuer: readName(der, issuer),
+    notBefore: notBefore && readTime(der, notBefore),
+    notAfter: notAfter && readTime(der, notAfter),
+    spki: der.subarray(spki.start, spki.end),
+  };
+}
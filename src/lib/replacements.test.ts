@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { FILE_STATUS } from './constants';
+import { fileStem, pairReplacements } from './replacements';
+import type { FileStatus, ProcessedFile } from './schemas';
+
+function original(
+  id: string,
+  name: string,
+  status: FileStatus = FILE_STATUS.BADGE_DETECTED
+): ProcessedFile {
+  return {
+    id,
+    originalFile: new File([], name),
+    name,
+    size: 0,
+    dimensions: { width: 100, height: 100 },
+    thumbnailUrl: '',
+    status,
+  };
+}
+
+describe('replacements', () => {
+  it('compares stems without extension or case', () => {
+    expect(fileStem('Hero.PNG')).toBe('hero');
+    expect(fileStem('hero.final.jpg')).toBe('hero.final');
+    expect(fileStem('.env')).toBe('.env');
+  });
+
+  it('pairs replacements with flagged originals by stem', () => {
+    const originals = [
+      original('a', 'hero.png'),
+      original('b', 'banner.png'),
+      original('c', 'footer.png', FILE_STATUS.CLEAN),
+    ];
+    const hero = new File([], 'HERO.jpg');
+    const footer = new File([], 'footer.jpg');
+    const unknown = new File([], 'logo.png');
+
+    const { paired, unpaired } = pairReplacements(originals, [
+      hero,
+      footer,
+      unknown,
+    ]);
+    expect(paired).toEqual([{ id: 'a', file: hero }]);
+    expect(unpaired).toEqual([footer, unknown]);
+  });
+
+  it('leaves ambiguous stems for manual pairing', () => {
+    const originals = [
+      original('a', 'hero.png'),
+      original('b', 'hero.webp'),
+      original('c', 'banner.png'),
+    ];
+    const hero = new File([], 'hero.jpg');
+    const banners = [new File([], 'banner.jpg'), new File([], 'banner.png')];
+
+    const { paired, unpaired } = pairReplacements(originals, [
+      hero,
+      ...banners,
+    ]);
+    expect(paired).toEqual([]);
+    expect(unpaired).toEqual([hero, ...banners]);
+  });
+});
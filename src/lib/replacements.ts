@@ -0,0 +1,72 @@
+import { FILE_STATUS } from './constants';
+import type { FileStatus, ProcessedFile } from './schemas';
+
+export interface ReplacementPairing {
+  paired: { id: string; file: File }[];
+  unpaired: File[]; // No single flagged original shares the stem
+}
+
+// Statuses whose files can take a replacement
+const REPLACEABLE_STATUSES: FileStatus[] = [
+  FILE_STATUS.BADGE_DETECTED,
+  FILE_STATUS.POSSIBLE_BADGE,
+  FILE_STATUS.CONFIRMED,
+  FILE_STATUS.NEEDS_REPLACEMENT,
+  FILE_STATUS.RESOLVED,
+];
+
+/**
+ * Whether a file was flagged and can be swapped for a clean copy
+ */
+export function isReplaceable(file: ProcessedFile): boolean {
+  return REPLACEABLE_STATUSES.includes(file.status);
+}
+
+/**
+ * A pair is resolved only once its replacement has scanned clean
+ */
+export function isReplacementClean(file: ProcessedFile): boolean {
+  return file.replacementFile?.status === FILE_STATUS.CLEAN;
+}
+
+/**
+ * Case-insensitive file name without its extension, so `Hero.PNG` pairs
+ * with `hero.jpg`
+ */
+export function fileStem(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return (dot > 0 ? name.slice(0, dot) : name).trim().toLowerCase();
+}
+
+/**
+ * Pair each replacement with the flagged original sharing its stem.
+ * Ambiguous or unknown stems are left for manual pairing.
+ */
+export function pairReplacements(
+  originals: ProcessedFile[],
+  replacements: File[]
+): ReplacementPairing {
+  const byStem = new Map<string, ProcessedFile[]>();
+  for (const original of originals.filter(isReplaceable)) {
+    const stem = fileStem(original.name);
+    byStem.set(stem, [...(byStem.get(stem) ?? []), original]);
+  }
+
+  const stemCounts = new Map<string, number>();
+  for (const file of replacements) {
+    const stem = fileStem(file.name);
+    stemCounts.set(stem, (stemCounts.get(stem) ?? 0) + 1);
+  }
+
+  const pairing: ReplacementPairing = { paired: [], unpaired: [] };
+  for (const file of replacements) {
+    const stem = fileStem(file.name);
+    const matches = byStem.get(stem) ?? [];
+    if (matches.length === 1 && stemCounts.get(stem) === 1) {
+      pairing.paired.push({ id: matches[0].id, file });
+    } else {
+      pairing.unpaired.push(file);
+    }
+  }
+  return pairing;
+}
@@ -0,0 +1,55 @@
+import { REVIEW_VERDICTS } from './constants';
+import type {
+  ProcessedFile,
+  ReviewDataset,
+  ReviewSample,
+  ReviewVerdict,
+} from './schemas';
+
+export const REVIEW_DATASET_VERSION = 1;
+
+/**
+ * Whether a verdict means the file carries a badge
+ */
+export function verdictHasBadge(verdict: ReviewVerdict): boolean {
+  return verdict !== REVIEW_VERDICTS.FALSE_POSITIVE;
+}
+
+/**
+ * Labeled sample for one reviewed file, or null if it has no review or
+ * has not been hashed yet
+ */
+export function toReviewSample(file: ProcessedFile): ReviewSample | null {
+  const { review, contentHash, detectionResult } = file;
+  if (!review || !contentHash) return null;
+
+  const [hit] = detectionResult?.hits ?? [];
+  return {
+    fileHash: contentHash,
+    fileName: file.name,
+    width: file.dimensions.width,
+    height: file.dimensions.height,
+    verdict: review.verdict,
+    badge: verdictHasBadge(review.verdict),
+    box: hit?.box,
+    confidence: detectionResult?.confidence ?? 0,
+    rawConfidence: hit?.rawConfidence,
+    templateId: hit?.templateId,
+    strategy: hit?.strategy,
+    scale: hit?.scale,
+    reason: review.reason,
+    reviewer: review.reviewer,
+    reviewedAt: review.reviewedAt,
+  };
+}
+
+/**
+ * Collect every reviewed file into an exportable dataset
+ */
+export function buildReviewDataset(files: ProcessedFile[]): ReviewDataset {
+  return {
+    version: REVIEW_DATASET_VERSION,
+    exportedAt: new Date().toISOString(),
+    samples: files.flatMap((file) => toReviewSample(file) ?? []),
+  };
+}
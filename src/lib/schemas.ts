@@ -1,5 +1,21 @@
 import { z } from 'zod';
-import { FILE_STATUS, DETECTION_STATUS, INPAINTING_STATUS } from './constants';
+import {
+  C2PA_EXPORT_STATUS,
+  C2PA_VALIDATION,
+  FILE_STATUS,
+  DETECTION_STATUS,
+  DETECTION_REGIONS,
+  DETECTION_STRATEGIES,
+  DISCLOSURE_CONFIG,
+  DISCLOSURE_SCOPES,
+  INPAINTING_STATUS,
+  MATCH_MODES,
+  METADATA_SOURCES,
+  METADATA_STRIP_FIELDS,
+  PROVENANCE_SIGNAL_KINDS,
+  REVIEW_VERDICTS,
+  SIMILARITY_VERDICTS,
+} from './constants';
 
 export const FileStatusSchema = z.enum([
   FILE_STATUS.PENDING,
@@ -7,6 +23,10 @@ export const FileStatusSchema = z.enum([
   FILE_STATUS.CLEAN,
   FILE_STATUS.BADGE_DETECTED,
   FILE_STATUS.POSSIBLE_BADGE,
+  FILE_STATUS.CONFIRMED,
+  FILE_STATUS.FALSE_POSITIVE,
+  FILE_STATUS.NEEDS_REPLACEMENT,
+  FILE_STATUS.RESOLVED,
   FILE_STATUS.ERROR,
 ]);
 
@@ -34,15 +54,346 @@ export const LocationSchema = z.object({
   y: z.number(),
 });
 
+export const BoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+});
+
+export const MatchModeSchema = z.enum([
+  MATCH_MODES.GRAY,
+  MATCH_MODES.MASKED,
+  MATCH_MODES.EDGES,
+]);
+
+// Strategy that produced a match
+export const MatchStrategySchema = z.enum([
+  DETECTION_STRATEGIES.TEMPLATE,
+  DETECTION_STRATEGIES.FEATURES,
+]);
+
+// Strategy requested for a scan
+export const DetectionStrategySchema = z.enum([
+  DETECTION_STRATEGIES.TEMPLATE,
+  DETECTION_STRATEGIES.FEATURES,
+  DETECTION_STRATEGIES.AUTO,
+]);
+
+export const RegionPresetSchema = z.enum([
+  DETECTION_REGIONS.TOP_LEFT,
+  DETECTION_REGIONS.TOP_RIGHT,
+  DETECTION_REGIONS.BOTTOM_LEFT,
+  DETECTION_REGIONS.BOTTOM_RIGHT,
+  DETECTION_REGIONS.FULL,
+]);
+
+// Custom rects in "percent" use fractions of the image size (0-1),
+// matching DETECTION_CONFIG.ROI_PERCENT
+export const RegionRectSchema = z.object({
+  x: z.number().nonnegative(),
+  y: z.number().nonnegative(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  unit: z.enum(['percent', 'px']),
+});
+
+export const DetectionRegionSchema = z.union([
+  RegionPresetSchema,
+  z.object({
+    name: z.string().min(1),
+    rect: RegionRectSchema,
+  }),
+]);
+
+export const TemplateEntrySchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  vendor: z.string().min(1), // Generator or service that applies the mark
+  basePath: z.string().min(1), // Image at `${basePath}.png`
+  sizes: z.array(z.number().int().positive()).optional(), // Native px sizes
+  sizedFiles: z.boolean().default(false), // `${basePath}-${size}.png` exist
+  maskPath: z.string().optional(), // White = badge; defaults to PNG alpha
+});
+
+export const TemplateManifestSchema = z.object({
+  version: z.number().int().positive(),
+  templates: z.array(TemplateEntrySchema).min(1),
+});
+
+// Logistic fusion of the match score and the classifier score
+export const FusionWeightsSchema = z.object({
+  bias: z.number().default(0),
+  matchWeight: z.number().default(1),
+  classifierWeight: z.number().default(1),
+});
+
+export const ClassifierModelSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  url: z.string().min(1), // ONNX weights
+  version: z.number().int().positive(),
+  inputSize: z.number().int().positive(), // Square crop side in pixels
+  layout: z.enum(['nchw', 'nhwc']).default('nchw'),
+  mean: z.tuple([z.number(), z.number(), z.number()]).default([0, 0, 0]),
+  std: z.tuple([z.number(), z.number(), z.number()]).default([1, 1, 1]),
+  inputName: z.string().optional(), // Defaults to the model's first input
+  outputName: z.string().optional(), // Defaults to the model's first output
+  output: z.enum(['sigmoid', 'softmax', 'probability']).default('sigmoid'),
+  positiveIndex: z.number().int().nonnegative().default(1), // Softmax class
+  fusion: FusionWeightsSchema.default({}),
+});
+
+export const ClassifierRegistrySchema = z.object({
+  version: z.number().int().positive(),
+  defaultModel: z.string().optional(), // Used when a scan names no model
+  models: z.array(ClassifierModelSchema),
+});
+
+// Maps a raw match score to the probability that the match is a badge
+export const PlattCalibratorSchema = z.object({
+  method: z.literal('platt'),
+  slope: z.number(),
+  intercept: z.number(),
+  scaleSlope: z.number().default(0), // Weight on log2 of the match scale
+});
+
+export const IsotonicCalibratorSchema = z
+  .object({
+    method: z.literal('isotonic'),
+    scores: z.array(z.number()).min(1), // Ascending raw scores
+    probabilities: z.array(z.number().min(0).max(1)).min(1), // Non-decreasing
+  })
+  .refine((value) => value.scores.length === value.probabilities.length, {
+    message: 'scores and probabilities must have the same length',
+  });
+
+export const CalibratorSchema = z.union([
+  PlattCalibratorSchema,
+  IsotonicCalibratorSchema,
+]);
+
+// One calibration per template, strategy and (for templates) match mode
+export const CalibrationProfileSchema = z.object({
+  templateId: z.string().min(1),
+  strategy: MatchStrategySchema,
+  matchMode: MatchModeSchema.optional(), // Unset for keypoint matches
+  calibrator: CalibratorSchema,
+  samples: z.number().int().nonnegative(), // Labeled samples it was fit on
+  positives: z.number().int().nonnegative(),
+  fittedAt: z.string(), // ISO timestamp
+});
+
+export const CalibrationProfileSetSchema = z.object({
+  version: z.number().int().positive(),
+  profiles: z.array(CalibrationProfileSchema),
+});
+
+export const RegionMatchSchema = z.object({
+  region: z.string(),
+  templateId: z.string().optional(),
+  confidence: z.number().min(0).max(1),
+  location: LocationSchema.optional(),
+});
+
+export const DetectionHitSchema = z.object({
+  box: BoxSchema, // Full-image pixel coordinates
+  scale: z.number().positive(),
+  templateId: z.string(),
+  confidence: z.number().min(0).max(1),
+  region: z.string(),
+  strategy: MatchStrategySchema,
+  rawConfidence: z.number().min(0).max(1).optional(), // Before calibration
+  matchConfidence: z.number().min(0).max(1).optional(), // Before fusion
+  classifierScore: z.number().min(0).max(1).optional(),
+});
+
+// matchTemplate response over the winning hit's region, max-pooled
+export const ResponseHeatmapSchema = z.object({
+  box: BoxSchema, // Full-image area covered, aligned to candidate box centres
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  values: z.array(z.number().min(0).max(1)), // Row-major scores
+});
+
+export const DetectionExplanationSchema = z.object({
+  box: BoxSchema, // Winning hit, full-image pixel coordinates
+  scale: z.number().positive(),
+  templateId: z.string(),
+  region: z.string(),
+  roi: BoxSchema, // Region that was searched
+  heatmap: ResponseHeatmapSchema.optional(), // Template matches only
+});
+
+export const MetadataSourceSchema = z.enum([
+  METADATA_SOURCES.EXIF,
+  METADATA_SOURCES.XMP,
+  METADATA_SOURCES.IPTC,
+  METADATA_SOURCES.PNG_TEXT,
+  METADATA_SOURCES.COMMENT,
+]);
+
+// Metadata removed from exported and re-encoded files on request
+export const MetadataStripFieldSchema = z.enum([
+  METADATA_STRIP_FIELDS.GPS,
+  METADATA_STRIP_FIELDS.CAMERA,
+  METADATA_STRIP_FIELDS.HISTORY,
+]);
+
+export const MetadataFieldSchema = z.object({
+  source: MetadataSourceSchema,
+  name: z.string(), // EXIF tag, qualified XMP property, IIM dataset or keyword
+  value: z.string(),
+});
+
+export const ProvenanceSignalSchema = z.object({
+  kind: z.enum([
+    PROVENANCE_SIGNAL_KINDS.DIGITAL_SOURCE_TYPE,
+    PROVENANCE_SIGNAL_KINDS.GENERATOR,
+  ]),
+  source: MetadataSourceSchema,
+  field: z.string(),
+  value: z.string(), // Source type code or generator label
+});
+
+// Metadata hints that an image was made with generative AI
+export const ProvenanceSignalsSchema = z.object({
+  aiGenerated: z.boolean(), // Disclosure likely needed
+  digitalSourceType: z.string().optional(),
+  generators: z.array(z.string()),
+  signals: z.array(ProvenanceSignalSchema),
+});
+
+export const ColorProfileSchema = z.object({
+  colorSpace: z.string(), // ICC data color space, e.g. RGB, CMYK or GRAY
+  description: z.string().optional(),
+  wideGamut: z.boolean(), // Colors beyond sRGB that conversions would clip
+});
+
+export const ImageMetadataSchema = z.object({
+  software: z.string().optional(),
+  creator: z.string().optional(),
+  copyright: z.string().optional(),
+  createdAt: z.string().optional(), // As recorded; formats vary by source
+  camera: z.string().optional(), // EXIF make and model
+  digitalSourceType: z.string().optional(), // IPTC code, without the URI
+  colorProfile: ColorProfileSchema.optional(), // Embedded ICC profile
+  fields: z.array(MetadataFieldSchema),
+  signals: ProvenanceSignalsSchema,
+});
+
 export const DetectionResultSchema = z.object({
   detected: z.boolean(),
   confidence: z.number().min(0).max(1),
   possibleDetection: z.boolean(),
-  location: LocationSchema.optional(),
+  location: LocationSchema.optional(), // Full-image pixel coordinates
+  region: z.string().optional(), // Region the winning match came from
+  templateId: z.string().optional(), // Template the winning match came from
+  templateLabel: z.string().optional(),
+  matchMode: MatchModeSchema.optional(),
+  strategy: MatchStrategySchema.optional(), // Strategy behind the winning hit
+  hits: z.array(DetectionHitSchema).optional(), // Strongest first
+  calibrated: z.boolean().optional(), // Confidence is a fitted probability
+  explanation: DetectionExplanationSchema.optional(),
+  classifier: z // Model whose score was fused into each hit
+    .object({
+      modelId: z.string(),
+      version: z.number().int().positive(),
+    })
+    .optional(),
+  regions: z.array(RegionMatchSchema).optional(),
+  provenanceSignals: ProvenanceSignalsSchema.optional(), // From file metadata
   status: DetectionStatusSchema,
 });
 
-export const ProcessedFileSchema: z.ZodType<{
+export const ReviewVerdictSchema = z.enum([
+  REVIEW_VERDICTS.CONFIRMED,
+  REVIEW_VERDICTS.FALSE_POSITIVE,
+  REVIEW_VERDICTS.NEEDS_REPLACEMENT,
+]);
+
+// Manual override of a detection result
+export const ReviewSchema = z.object({
+  verdict: ReviewVerdictSchema,
+  reason: z.string().trim().min(1),
+  reviewer: z.string().trim().min(1),
+  reviewedAt: z.string(), // ISO timestamp
+});
+
+export const SimilarityVerdictSchema = z.enum([
+  SIMILARITY_VERDICTS.MATCH,
+  SIMILARITY_VERDICTS.DIFFERENT_CROP,
+  SIMILARITY_VERDICTS.DIFFERENT_IMAGE,
+]);
+
+export const ImageSimilaritySchema = z.object({
+  score: z.number().min(0).max(1),
+  pHashDistance: z.number().int().min(0).max(64),
+  dHashDistance: z.number().int().min(0).max(64),
+  ssim: z.number(),
+  aspectRatioChange: z.number().min(0),
+  verdict: SimilarityVerdictSchema,
+});
+
+export const C2paValidationStatusSchema = z.enum([
+  C2PA_VALIDATION.VALID,
+  C2PA_VALIDATION.INVALID,
+  C2PA_VALIDATION.MISSING,
+  C2PA_VALIDATION.UNSUPPORTED,
+  C2PA_VALIDATION.SKIPPED,
+]);
+
+export const C2paExportStatusSchema = z.enum([
+  C2PA_EXPORT_STATUS.NONE,
+  C2PA_EXPORT_STATUS.UNCHANGED,
+  C2PA_EXPORT_STATUS.INVALIDATED,
+]);
+
+export const C2paActionSchema = z.object({
+  action: z.string(), // e.g. "c2pa.created", "c2pa.edited"
+  digitalSourceType: z.string().optional(), // IPTC source type URI
+  softwareAgent: z.string().optional(),
+  when: z.string().optional(),
+});
+
+export const C2paSignerSchema = z.object({
+  commonName: z.string().optional(),
+  organization: z.string().optional(),
+  issuer: z.string().optional(), // Issuing CA, organization or common name
+  notBefore: z.string().optional(),
+  notAfter: z.string().optional(),
+});
+
+export const C2paManifestSchema = z.object({
+  label: z.string(), // Usually a urn:uuid
+  claimGenerator: z.string().optional(),
+  title: z.string().optional(),
+  format: z.string().optional(),
+  signer: C2paSignerSchema.optional(),
+  signatureAlgorithm: z.string().optional(),
+  actions: z.array(C2paActionSchema),
+  aiGenerated: z.boolean(), // An action declares a generative AI source
+  ingredients: z.number().int().min(0),
+  validation: z.object({
+    signature: C2paValidationStatusSchema,
+    assertions: C2paValidationStatusSchema, // Hashes the claim lists
+    hashBinding: C2paValidationStatusSchema, // Claim bound to these bytes
+  }),
+  errors: z.array(z.string()),
+});
+
+export const C2paReportSchema = z.object({
+  carrier: z.enum(['jpeg', 'png', 'webp']),
+  activeManifest: z.string().optional(), // Label of the manifest for this file
+  manifests: z.array(C2paManifestSchema),
+  errors: z.array(z.string()),
+});
+
+export const ProvenanceSchema = z.object({
+  c2pa: C2paReportSchema.nullable(), // Null when no manifest is embedded
+});
+
+interface ProcessedFileShape {
   id: string;
   originalFile: File;
   name: string;
@@ -51,11 +402,18 @@ export const ProcessedFileSchema: z.ZodType<{
   thumbnailUrl: string;
   status: FileStatus;
   detectionResult?: DetectionResult;
-  replacementFile?: any; // Circular reference
+  review?: Review; // Overrides the detection status when set
+  contentHash?: string; // SHA-256 of the file bytes, hex
+  replacementFile?: ProcessedFileShape; // Clean copy swapped in when flagged
+  similarity?: ImageSimilarity; // Replacement compared with the original
+  provenance?: Provenance; // Embedded Content Credentials
+  metadata?: ImageMetadata; // EXIF, XMP, IPTC and PNG text
   inpaintedUrl?: string; // Object URL to inpainted version
   inpaintingStatus?: InpaintingStatus;
   errorMessage?: string;
-}> = z.object({
+}
+
+export const ProcessedFileSchema: z.ZodType<ProcessedFileShape> = z.object({
   id: z.string(),
   originalFile: z.instanceof(File),
   name: z.string(),
@@ -64,17 +422,115 @@ export const ProcessedFileSchema: z.ZodType<{
   thumbnailUrl: z.string(),
   status: FileStatusSchema,
   detectionResult: DetectionResultSchema.optional(),
+  review: ReviewSchema.optional(),
+  contentHash: z.string().optional(),
   replacementFile: z.lazy(() => ProcessedFileSchema).optional(),
+  similarity: ImageSimilaritySchema.optional(),
+  provenance: ProvenanceSchema.optional(),
+  metadata: ImageMetadataSchema.optional(),
   inpaintedUrl: z.string().optional(),
   inpaintingStatus: InpaintingStatusSchema.optional(),
   errorMessage: z.string().optional(),
 });
 
+// Reviewed files exported as a labeled dataset
+export const ReviewSampleSchema = z.object({
+  fileHash: z.string(), // SHA-256 of the file bytes, hex
+  fileName: z.string(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  verdict: ReviewVerdictSchema,
+  badge: z.boolean(), // Ground truth implied by the verdict
+  box: BoxSchema.optional(), // Strongest detected hit, when there was one
+  confidence: z.number().min(0).max(1), // Detector score at review time
+  rawConfidence: z.number().min(0).max(1).optional(), // Before calibration
+  templateId: z.string().optional(),
+  strategy: MatchStrategySchema.optional(),
+  scale: z.number().positive().optional(),
+  reason: z.string(),
+  reviewer: z.string(),
+  reviewedAt: z.string(),
+});
+
+export const ReviewDatasetSchema = z.object({
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  samples: z.array(ReviewSampleSchema),
+});
+
+// One batch file in a ZIP export's manifest.json
+export const ExportEntrySchema = z.object({
+  name: z.string(), // Original file name
+  path: z.string().nullable(), // Path inside the ZIP; null when not exported
+  status: FileStatusSchema,
+  detectionStatus: DetectionStatusSchema.nullable(),
+  confidence: z.number().min(0).max(1).nullable(),
+  reviewVerdict: ReviewVerdictSchema.nullable(),
+  replaced: z.boolean(),
+  replacementName: z.string().nullable(),
+  similarity: z.number().min(0).max(1).nullable(), // Replacement vs original
+  originalSha256: z.string(),
+  exportedSha256: z.string().nullable(),
+  disclosed: z.boolean(), // AI disclosure written to the exported file
+  captioned: z.boolean(), // Visible caption strip added
+  c2pa: C2paExportStatusSchema, // The source's C2PA manifest store
+});
+
+export const ExportManifestSchema = z.object({
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  files: z.array(ExportEntrySchema),
+});
+
+// AI-disclosure labeling applied to exported files
+export const DisclosureOptionsSchema = z.object({
+  enabled: z.boolean(),
+  scope: z.enum([DISCLOSURE_SCOPES.AI_GENERATED, DISCLOSURE_SCOPES.ALL]),
+  note: z.string().trim().min(1), // Written to XMP photoshop:Instructions
+  caption: z.boolean(), // Append a visible strip; re-encodes the image
+  captionText: z
+    .string()
+    .trim()
+    .min(1)
+    .max(DISCLOSURE_CONFIG.MAX_CAPTION_LENGTH),
+});
+
+// Known assets the `geminot scan` gate ignores, matched by content hash
+export const ScanBaselineSchema = z.object({
+  version: z.number().int().positive(),
+  files: z.array(
+    z.object({
+      path: z.string(), // Where the asset was when baselined; informational
+      sha256: z.string().regex(/^[0-9a-f]{64}$/),
+      status: DetectionStatusSchema.optional(),
+      reason: z.string().optional(),
+    })
+  ),
+});
+
+// Labeled images for detection evaluation (`labels.json` in a fixture dir)
+export const FixtureSampleSchema = z.object({
+  file: z.string().min(1), // Relative to the fixture directory
+  badge: z.boolean(),
+  box: BoxSchema.optional(), // Badge location, when known
+  templateId: z.string().optional(),
+  tags: z.record(z.union([z.string(), z.number()])).optional(), // Breakdowns
+});
+
+export const FixtureSetSchema = z.object({
+  version: z.number().int().positive(),
+  samples: z.array(FixtureSampleSchema),
+});
+
 export const DetectionConfigSchema = z.object({
   roiPercent: z.number().min(0).max(1),
   confidenceThreshold: z.number().min(0).max(1),
   possibleThreshold: z.number().min(0).max(1),
   scales: z.array(z.number().positive()),
+  regions: z.array(DetectionRegionSchema).optional(),
+  matchMode: MatchModeSchema.optional(),
+  strategy: DetectionStrategySchema.optional(),
+  classifierModel: z.string().nullable().optional(), // Null disables
   templatePath: z.string().optional(),
 });
 
@@ -84,6 +540,51 @@ export type DetectionStatus = z.infer<typeof DetectionStatusSchema>;
 export type InpaintingStatus = z.infer<typeof InpaintingStatusSchema>;
 export type Dimensions = z.infer<typeof DimensionsSchema>;
 export type Location = z.infer<typeof LocationSchema>;
+export type Box = z.infer<typeof BoxSchema>;
+export type DetectionHit = z.infer<typeof DetectionHitSchema>;
+export type MatchMode = z.infer<typeof MatchModeSchema>;
+export type MatchStrategy = z.infer<typeof MatchStrategySchema>;
+export type DetectionStrategy = z.infer<typeof DetectionStrategySchema>;
+export type RegionPreset = z.infer<typeof RegionPresetSchema>;
+export type RegionRect = z.infer<typeof RegionRectSchema>;
+export type DetectionRegion = z.infer<typeof DetectionRegionSchema>;
+export type RegionMatch = z.infer<typeof RegionMatchSchema>;
+export type TemplateEntry = z.infer<typeof TemplateEntrySchema>;
+export type TemplateManifest = z.infer<typeof TemplateManifestSchema>;
+export type FusionWeights = z.infer<typeof FusionWeightsSchema>;
+export type ClassifierModel = z.infer<typeof ClassifierModelSchema>;
+export type ClassifierRegistry = z.infer<typeof ClassifierRegistrySchema>;
+export type Calibrator = z.infer<typeof CalibratorSchema>;
+export type CalibrationProfile = z.infer<typeof CalibrationProfileSchema>;
+export type CalibrationProfileSet = z.infer<typeof CalibrationProfileSetSchema>;
+export type ResponseHeatmap = z.infer<typeof ResponseHeatmapSchema>;
+export type DetectionExplanation = z.infer<typeof DetectionExplanationSchema>;
+export type MetadataSource = z.infer<typeof MetadataSourceSchema>;
+export type MetadataStripField = z.infer<typeof MetadataStripFieldSchema>;
+export type MetadataField = z.infer<typeof MetadataFieldSchema>;
+export type ProvenanceSignal = z.infer<typeof ProvenanceSignalSchema>;
+export type ProvenanceSignals = z.infer<typeof ProvenanceSignalsSchema>;
+export type ColorProfile = z.infer<typeof ColorProfileSchema>;
+export type ImageMetadata = z.infer<typeof ImageMetadataSchema>;
 export type DetectionResult = z.infer<typeof DetectionResultSchema>;
+export type ReviewVerdict = z.infer<typeof ReviewVerdictSchema>;
+export type Review = z.infer<typeof ReviewSchema>;
+export type ReviewSample = z.infer<typeof ReviewSampleSchema>;
+export type ReviewDataset = z.infer<typeof ReviewDatasetSchema>;
 export type ProcessedFile = z.infer<typeof ProcessedFileSchema>;
+export type ExportEntry = z.infer<typeof ExportEntrySchema>;
+export type ExportManifest = z.infer<typeof ExportManifestSchema>;
+export type DisclosureOptions = z.infer<typeof DisclosureOptionsSchema>;
+export type ScanBaseline = z.infer<typeof ScanBaselineSchema>;
+export type SimilarityVerdict = z.infer<typeof SimilarityVerdictSchema>;
+export type ImageSimilarity = z.infer<typeof ImageSimilaritySchema>;
+export type C2paValidationStatus = z.infer<typeof C2paValidationStatusSchema>;
+export type C2paExportStatus = z.infer<typeof C2paExportStatusSchema>;
+export type C2paAction = z.infer<typeof C2paActionSchema>;
+export type C2paSigner = z.infer<typeof C2paSignerSchema>;
+export type C2paManifest = z.infer<typeof C2paManifestSchema>;
+export type C2paReport = z.infer<typeof C2paReportSchema>;
+export type Provenance = z.infer<typeof ProvenanceSchema>;
 export type DetectionConfig = z.infer<typeof DetectionConfigSchema>;
+export type FixtureSample = z.infer<typeof FixtureSampleSchema>;
+export type FixtureSet = z.infer<typeof FixtureSetSchema>;
@@ -0,0 +1,93 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { detectionFingerprint, fingerprintAssets } from './detection-cache';
+
+const SOURCES = {
+  '/templates/manifest.json': '{"version":1,"templates":[]}',
+  '/templates/calibration.json': null,
+};
+
+describe('detectionFingerprint', () => {
+  it('ignores option order but not option values', async () => {
+    const base = await detectionFingerprint(
+      { regions: ['bottom-right'], strategy: 'auto' },
+      SOURCES
+    );
+
+    expect(base).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      await detectionFingerprint(
+        { strategy: 'auto', regions: ['bottom-right'] },
+        SOURCES
+      )
+    ).toBe(base);
+    expect(
+      await detectionFingerprint(
+        { regions: ['top-left'], strategy: 'auto' },
+        SOURCES
+      )
+    ).not.toBe(base);
+  });
+
+  it('changes when published templates or calibration change', async () => {
+    const options = { regions: ['bottom-right'] };
+    const base = await detectionFingerprint(options, SOURCES);
+
+    expect(
+      await detectionFingerprint(options, {
+        ...SOURCES,
+        '/templates/manifest.json': '{"version":2,"templates":[]}',
+      })
+    ).not.toBe(base);
+    expect(
+      await detectionFingerprint(options, {
+        ...SOURCES,
+        '/templates/calibration.json': '{"version":1,"profiles":[]}',
+      })
+    ).not.toBe(base);
+  });
+
+  it('lists the template images and weights to hash', () => {
+    const manifest = {
+      version: 1,
+      templates: [
+        {
+          id: 'sparkle',
+          label: 'Sparkle',
+          vendor: 'Generic',
+          basePath: '/templates/sparkle',
+          sizes: [16, 32],
+          sizedFiles: true,
+          maskPath: '/templates/sparkle-mask.png',
+        },
+      ],
+    };
+    const registry = {
+      version: 1,
+      models: [
+        {
+          id: 'cnn',
+          label: 'CNN',
+          url: '/models/cnn.onnx',
+          version: 1,
+          inputSize: 64,
+        },
+      ],
+    };
+
+    expect(
+      fingerprintAssets({
+        '/templates/manifest.json': JSON.stringify(manifest),
+        '/models/manifest.json': JSON.stringify(registry),
+      })
+    ).toEqual([
+      '/templates/sparkle.png',
+      '/templates/sparkle-mask.png',
+      '/templates/sparkle-16.png',
+      '/templates/sparkle-32.png',
+      '/models/cnn.onnx',
+    ]);
+    // The worker falls back to the bundled template without a manifest
+    expect(fingerprintAssets(SOURCES)).toEqual(['/templates/badge.png']);
+  });
+});
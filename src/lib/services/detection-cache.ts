@@ -0,0 +1,294 @@
+import { logger } from '@/lib/logger';
+import { DETECTION_CACHE_CONFIG, DETECTION_CONFIG } from '@/lib/constants';
+import { hashFile } from '@/lib/file-utils';
+import { DEFAULT_TEMPLATE } from '@/lib/detection/matcher';
+import {
+  ClassifierRegistrySchema,
+  DetectionResultSchema,
+  TemplateManifestSchema,
+  type DetectionResult,
+} from '@/lib/schemas';
+
+interface CachedDetection {
+  key: string;
+  result: DetectionResult;
+  storedAt: number;
+}
+
+// Published files whose contents change what a scan returns
+const FINGERPRINT_SOURCES = [
+  DETECTION_CONFIG.TEMPLATE_MANIFEST_PATH,
+  DETECTION_CONFIG.CALIBRATION_PATH,
+  DETECTION_CONFIG.CLASSIFIER_REGISTRY_PATH,
+];
+
+function parseJson(text: string | null | undefined): unknown {
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Template images and classifier weights that the published manifest and
+ * registry point to. They are fingerprinted by content, so replacing one
+ * under the same path still invalidates cached results.
+ */
+export function fingerprintAssets(
+  sources: Record<string, string | null>
+): string[] {
+  const manifest = TemplateManifestSchema.safeParse(
+    parseJson(sources[DETECTION_CONFIG.TEMPLATE_MANIFEST_PATH])
+  ).data;
+  const registry = ClassifierRegistrySchema.safeParse(
+    parseJson(sources[DETECTION_CONFIG.CLASSIFIER_REGISTRY_PATH])
+  ).data;
+  const templates = manifest?.templates ?? [DEFAULT_TEMPLATE];
+
+  return Array.from(
+    new Set([
+      ...templates.flatMap((entry) => [
+        `${entry.basePath}.png`,
+        ...(entry.maskPath ? [entry.maskPath] : []),
+        ...(entry.sizedFiles
+          ? (entry.sizes ?? []).map((size) => `${entry.basePath}-${size}.png`)
+          : []),
+      ]),
+      ...(registry?.models.map((model) => model.url) ?? []),
+    ])
+  );
+}
+
+/**
+ * A published file read through `read`, or null when it is missing
+ */
+async function fetchSource(
+  path: string,
+  read: (response: Response) => Promise<string>
+): Promise<[string, string | null]> {
+  try {
+    const response = await fetch(path, { cache: 'no-cache' });
+    return [path, response.ok ? await read(response) : null];
+  } catch {
+    return [path, null];
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal settings serialize identically
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, entry) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(
+          Object.keys(entry)
+            .sort()
+            .map((key) => [key, entry[key]])
+        )
+      : entry
+  );
+}
+
+/**
+ * SHA-256 of everything besides the image that decides a detection result:
+ * detector constants, per-scan options, the published template manifest,
+ * calibration and classifier registry, and the hashes of the template
+ * images and weights they reference
+ */
+export async function detectionFingerprint(
+  options: Record<string, unknown>,
+  sources: Record<string, string | null>
+): Promise<string> {
+  return hashFile(
+    new Blob([
+      stableStringify({
+        format: DETECTION_CACHE_CONFIG.FORMAT_VERSION,
+        config: DETECTION_CONFIG,
+        options,
+        sources,
+      }),
+    ])
+  );
+}
+
+/**
+ * Cache key for one file under one detector fingerprint
+ */
+export function detectionCacheKey(
+  contentHash: string,
+  fingerprint: string
+): string {
+  return `${contentHash}:${fingerprint}`;
+}
+
+/**
+ * Detection results in IndexedDB, keyed by file content and detector
+ * fingerprint so a changed template or threshold never serves a stale
+ * result. Failures degrade to a cache miss.
+ */
+export class DetectionCache {
+  private dbName = DETECTION_CACHE_CONFIG.DB_NAME;
+  private dbVersion = DETECTION_CACHE_CONFIG.DB_VERSION;
+  private storeName = DETECTION_CACHE_CONFIG.STORE_NAME;
+  private db: Promise<IDBDatabase> | null = null;
+  private sources: Promise<Record<string, string | null>> | null = null;
+
+  /**
+   * Open the results database, creating its store on first use
+   */
+  private initDB(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, this.dbVersion);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            const store = db.createObjectStore(this.storeName, {
+              keyPath: 'key',
+            });
+            store.createIndex('storedAt', 'storedAt', { unique: false });
+          }
+        };
+      }).catch((error) => {
+        // Let a later call retry, e.g. after a blocked upgrade
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Run one request in its own transaction
+   */
+  private async request<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.storeName], mode);
+      const request = run(transaction.objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Published detector files, fetched once per session: the JSON files as
+   * text, the assets they reference as content hashes
+   */
+  private loadSources(): Promise<Record<string, string | null>> {
+    if (!this.sources) {
+      this.sources = (async () => {
+        const published: Record<string, string | null> = Object.fromEntries(
+          await Promise.all(
+            FINGERPRINT_SOURCES.map((path) =>
+              fetchSource(path, (response) => response.text())
+            )
+          )
+        );
+        const assets = await Promise.all(
+          fingerprintAssets(published).map((path) =>
+            fetchSource(path, async (response) =>
+              hashFile(await response.blob())
+            )
+          )
+        );
+        return { ...published, ...Object.fromEntries(assets) };
+      })();
+    }
+    return this.sources;
+  }
+
+  /**
+   * Fingerprint of the detector as configured for this session
+   */
+  async fingerprint(options: Record<string, unknown>): Promise<string> {
+    return detectionFingerprint(options, await this.loadSources());
+  }
+
+  /**
+   * Cached result for a key, or null on a miss
+   */
+  async get(key: string): Promise<DetectionResult | null> {
+    try {
+      const entry = await this.request<CachedDetection | undefined>(
+        'readonly',
+        (store) => store.get(key)
+      );
+      if (!entry) return null;
+
+      const parsed = DetectionResultSchema.safeParse(entry.result);
+      return parsed.success ? parsed.data : null;
+    } catch (error) {
+      logger.warn('Detection cache read failed', { error });
+      return null;
+    }
+  }
+
+  /**
+   * Store a result, evicting the oldest entries past the size limit
+   */
+  async set(key: string, result: DetectionResult): Promise<void> {
+    try {
+      const entry: CachedDetection = { key, result, storedAt: Date.now() };
+      await this.request('readwrite', (store) => store.put(entry));
+
+      const count = await this.request('readonly', (store) => store.count());
+      if (count > DETECTION_CACHE_CONFIG.MAX_ENTRIES) {
+        await this.evictOldest(count - DETECTION_CACHE_CONFIG.MAX_ENTRIES);
+      }
+    } catch (error) {
+      logger.warn('Detection cache write failed', { error });
+    }
+  }
+
+  private async evictOldest(excess: number): Promise<void> {
+    const db = await this.initDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.storeName], 'readwrite');
+      const request = transaction
+        .objectStore(this.storeName)
+        .index('storedAt')
+        .openCursor();
+      let remaining = excess;
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && remaining > 0) {
+          cursor.delete();
+          remaining--;
+          cursor.continue();
+        }
+      };
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+    });
+  }
+
+  /**
+   * Drop every cached result
+   */
+  async clear(): Promise<void> {
+    await this.request('readwrite', (store) => store.clear());
+    logger.info('Detection cache cleared');
+  }
+}
+
+// Singleton instance
+let detectionCacheInstance: DetectionCache | null = null;
+
+/**
+ * Get the detection cache singleton
+ */
+export function getDetectionCache(): DetectionCache {
+  if (!detectionCacheInstance) {
+    detectionCacheInstance = new DetectionCache();
+  }
+  return detectionCacheInstance;
+}
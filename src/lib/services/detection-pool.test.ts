@@ -0,0 +1,185 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DetectionCancelledError, DetectionError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { DetectionWorkerPool, type DetectionTask } from './detection-pool';
+
+// The fake worker is its own comlink proxy
+vi.mock('comlink', () => ({
+  wrap: (worker: FakeWorker) => worker.api,
+}));
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+class FakeWorker extends EventTarget {
+  static instances: FakeWorker[] = [];
+  static warmUp: () => Promise<void> = () => Promise.resolve();
+
+  terminated = false;
+  api = {
+    initialize: vi.fn(() => FakeWorker.warmUp()),
+    isInitialized: vi.fn(async () => true),
+    cleanup: vi.fn(async () => undefined),
+  };
+
+  constructor() {
+    super();
+    FakeWorker.instances.push(this);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  crash(message: string): void {
+    this.dispatchEvent(Object.assign(new Event('error'), { message }));
+  }
+}
+
+// Lets queued jobs reach their workers
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const never: DetectionTask<never> = () => new Promise(() => undefined);
+
+describe('DetectionWorkerPool', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    FakeWorker.warmUp = () => Promise.resolve();
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('runs higher priorities first and equal ones in FIFO order', async () => {
+    const pool = new DetectionWorkerPool(1);
+    const order: string[] = [];
+    const record = (name: string) => async () => {
+      order.push(name);
+      return name;
+    };
+
+    const blocker = deferred<string>();
+    const first = pool.run(() => blocker.promise);
+    await flush();
+    const queued = [
+      pool.run(record('low 1')),
+      pool.run(record('high 1'), { priority: 1 }),
+      pool.run(record('low 2')),
+      pool.run(record('high 2'), { priority: 1 }),
+    ];
+    expect(pool.getStats()).toMatchObject({ busy: 1, queued: 4 });
+
+    blocker.resolve('first');
+    await expect(first).resolves.toBe('first');
+    await Promise.all(queued);
+    expect(order).toEqual(['high 1', 'high 2', 'low 1', 'low 2']);
+    expect(FakeWorker.instances).toHaveLength(1);
+  });
+
+  it('drops a job aborted while queued without touching the worker', async () => {
+    const pool = new DetectionWorkerPool(1);
+    const blocker = deferred<string>();
+    const first = pool.run(() => blocker.promise);
+    await flush();
+
+    const controller = new AbortController();
+    const task = vi.fn(async () => 'second');
+    const second = pool.run(task, { signal: controller.signal });
+    controller.abort();
+
+    await expect(second).rejects.toBeInstanceOf(DetectionCancelledError);
+    expect(pool.getStats().queued).toBe(0);
+    blocker.resolve('first');
+    await expect(first).resolves.toBe('first');
+    expect(task).not.toHaveBeenCalled();
+    expect(FakeWorker.instances[0].terminated).toBe(false);
+  });
+
+  it('terminates the worker of a job aborted while running', async () => {
+    const pool = new DetectionWorkerPool(1);
+    const controller = new AbortController();
+    const onStart = vi.fn();
+    const running = pool.run(never, {
+      signal: controller.signal,
+      timeoutMs: 20,
+      onStart,
+    });
+    await flush();
+    expect(onStart).toHaveBeenCalledOnce();
+
+    const warn = vi.spyOn(logger, 'warn');
+    controller.abort();
+    await expect(running).rejects.toBeInstanceOf(DetectionCancelledError);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    // The job stops waiting on the dead worker, so its timeout is cleared
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(warn).not.toHaveBeenCalled();
+
+    await expect(pool.run(async () => 'next')).resolves.toBe('next');
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+
+  it('respawns the worker after a timeout', async () => {
+    const pool = new DetectionWorkerPool(1);
+
+    await expect(pool.run(never, { timeoutMs: 10 })).rejects.toThrow(
+      'Detection timed out after 10ms'
+    );
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    expect(pool.getStats()).toMatchObject({ workers: 0, busy: 0 });
+
+    await expect(pool.run(async () => 'next')).resolves.toBe('next');
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+
+  it('fails the job of a worker that crashes while warming up', async () => {
+    const warmUp = deferred<void>();
+    FakeWorker.warmUp = () => warmUp.promise;
+    const pool = new DetectionWorkerPool(1);
+    const task = vi.fn(async () => 'never');
+    const onStart = vi.fn();
+
+    const job = pool.run(task, { onStart });
+    await flush();
+    FakeWorker.instances[0].crash('out of memory');
+
+    await expect(job).rejects.toThrow(
+      'Detection worker crashed: out of memory'
+    );
+    // Warm-up finishing late must not start the job on the dead worker
+    warmUp.resolve();
+    await flush();
+    expect(task).not.toHaveBeenCalled();
+    expect(onStart).not.toHaveBeenCalled();
+
+    FakeWorker.warmUp = () => Promise.resolve();
+    await expect(pool.run(async () => 'next')).resolves.toBe('next');
+    expect(FakeWorker.instances).toHaveLength(2);
+  });
+
+  it('rejects running and queued jobs on dispose', async () => {
+    const pool = new DetectionWorkerPool(1);
+    const running = pool.run(never);
+    await flush();
+    const queued = pool.run(async () => 'queued');
+
+    await pool.dispose();
+    await expect(running).rejects.toThrow('Detection pool disposed');
+    await expect(queued).rejects.toBeInstanceOf(DetectionCancelledError);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    await expect(pool.run(async () => 'late')).rejects.toBeInstanceOf(
+      DetectionError
+    );
+  });
+});
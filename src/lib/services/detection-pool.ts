@@ -0,0 +1,368 @@
+import { wrap, Remote } from 'comlink';
+import { logger } from '@/lib/logger';
+import { DetectionCancelledError, DetectionError } from '@/lib/errors';
+import { DETECTION_CONFIG } from '@/lib/constants';
+import type { DetectionWorkerAPI } from '@/lib/detection/types';
+
+export type DetectionTask<T> = (api: Remote<DetectionWorkerAPI>) => Promise<T>;
+
+export interface DetectionJobOptions {
+  /** Higher runs first; equal priorities run in FIFO order */
+  priority?: number;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  /** Called when the job leaves the queue and starts on a worker */
+  onStart?: () => void;
+}
+
+export interface PoolStats {
+  size: number;
+  workers: number;
+  busy: number;
+  queued: number;
+}
+
+interface PooledWorker {
+  id: number;
+  worker: Worker;
+  api: Remote<DetectionWorkerAPI>;
+  ready: Promise<void>;
+  /** Rejects once the worker is terminated; its pending calls never settle */
+  terminated: Promise<never>;
+  terminate: (reason: DetectionError) => void;
+  job: QueuedJob | null;
+}
+
+interface QueuedJob {
+  priority: number;
+  task: DetectionTask<unknown>;
+  options: DetectionJobOptions;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  onAbort?: () => void;
+}
+
+/**
+ * Size the pool from available cores and the worker memory budget
+ */
+export function getDefaultPoolSize(): number {
+  const cores =
+    typeof navigator !== 'undefined' && navigator.hardwareConcurrency
+      ? navigator.hardwareConcurrency
+      : 2;
+
+  // navigator.deviceMemory (GB) is only exposed by Chromium browsers
+  const deviceMemoryGB =
+    typeof navigator !== 'undefined'
+      ? (navigator as Navigator & { deviceMemory?: number }).deviceMemory
+      : undefined;
+  const budgetMB = deviceMemoryGB
+    ? Math.min(
+        DETECTION_CONFIG.WORKER_MEMORY_BUDGET_MB,
+        (deviceMemoryGB * 1024) / 4
+      )
+    : DETECTION_CONFIG.WORKER_MEMORY_BUDGET_MB;
+
+  const byCores = cores - 1; // Leave a core for the UI thread
+  const byMemory = Math.floor(
+    budgetMB / DETECTION_CONFIG.WORKER_MEMORY_ESTIMATE_MB
+  );
+
+  return Math.max(
+    1,
+    Math.min(byCores, byMemory, DETECTION_CONFIG.MAX_CONCURRENT)
+  );
+}
+
+/**
+ * Pool of detection workers with a priority job queue.
+ * Jobs can be cancelled through an AbortSignal; a job that is cancelled
+ * while running, or exceeds its timeout, takes its worker down with it and
+ * the slot is respawned.
+ */
+export class DetectionWorkerPool {
+  private workers: PooledWorker[] = [];
+  private queue: QueuedJob[] = [];
+  private nextWorkerId = 0;
+  private disposed = false;
+
+  constructor(private readonly size = getDefaultPoolSize()) {
+    logger.info('Detection worker pool created', { size });
+  }
+
+  /**
+   * Queue a task to run against the next free worker
+   */
+  run<T>(
+    task: DetectionTask<T>,
+    options: DetectionJobOptions = {}
+  ): Promise<T> {
+    if (this.disposed) {
+      return Promise.reject(new DetectionError('Detection pool disposed'));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(new DetectionCancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const job: QueuedJob = {
+        priority: options.priority ?? 0,
+        task: task as DetectionTask<unknown>,
+        options,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      };
+
+      if (options.signal) {
+        job.onAbort = () => this.cancel(job);
+        options.signal.addEventListener('abort', job.onAbort, { once: true });
+      }
+
+      // Insert after every job with the same or higher priority
+      const index = this.queue.findIndex(
+        (queued) => queued.priority < job.priority
+      );
+      if (index === -1) {
+        this.queue.push(job);
+      } else {
+        this.queue.splice(index, 0, job);
+      }
+
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Hand queued jobs to idle workers, spawning workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.workers.find((pooled) => pooled.job === null);
+      if (!slot && this.workers.length < this.size) {
+        slot = this.spawn();
+      }
+      if (!slot) return;
+
+      const job = this.queue.shift()!;
+      void this.execute(slot, job);
+    }
+  }
+
+  private spawn(): PooledWorker {
+    const id = this.nextWorkerId++;
+    logger.info('Spawning detection worker', { id });
+
+    const worker = new Worker(
+      new URL('@/workers/detection.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    const api = wrap<DetectionWorkerAPI>(worker);
+
+    let terminate: (reason: DetectionError) => void = () => undefined;
+    const terminated = new Promise<never>((_, reject) => {
+      terminate = reject;
+    });
+    terminated.catch(() => undefined); // Only awaited while a job runs
+
+    const pooled: PooledWorker = {
+      id,
+      worker,
+      api,
+      ready: api.initialize(),
+      terminated,
+      terminate,
+      job: null,
+    };
+
+    worker.addEventListener('error', (event) => {
+      logger.error('Detection worker crashed', { id, message: event.message });
+      this.replace(
+        pooled,
+        new DetectionError(`Detection worker crashed: ${event.message}`)
+      );
+    });
+
+    this.workers.push(pooled);
+    return pooled;
+  }
+
+  private async execute(pooled: PooledWorker, job: QueuedJob): Promise<void> {
+    pooled.job = job;
+    const timeoutMs = job.options.timeoutMs ?? DETECTION_CONFIG.JOB_TIMEOUT_MS;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      await Promise.race([pooled.ready, pooled.terminated]);
+      if (pooled.job !== job) return; // Cancelled or crashed while warming up
+
+      job.options.onStart?.();
+
+      timeoutId = setTimeout(() => {
+        logger.warn('Detection job timed out, respawning worker', {
+          id: pooled.id,
+          timeoutMs,
+        });
+        this.replace(
+          pooled,
+          new DetectionError(`Detection timed out after ${timeoutMs}ms`)
+        );
+      }, timeoutMs);
+
+      // Stop waiting on the worker as soon as it is terminated
+      const value = await Promise.race([
+        job.task(pooled.api),
+        pooled.terminated,
+      ]);
+      if (pooled.job !== job) return;
+
+      this.settle(job);
+      job.resolve(value);
+      pooled.job = null;
+    } catch (error) {
+      if (pooled.job !== job) return;
+
+      this.settle(job);
+      job.reject(
+        error instanceof DetectionError
+          ? error
+          : new DetectionError(
+              error instanceof Error ? error.message : String(error)
+            )
+      );
+
+      // A worker that failed to initialize is unusable
+      const initialized = await pooled.api.isInitialized().catch(() => false);
+      if (!initialized) {
+        this.remove(pooled);
+      } else {
+        pooled.job = null;
+      }
+    } finally {
+      clearTimeout(timeoutId);
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Cancel a job, terminating its worker if it is already running
+   */
+  private cancel(job: QueuedJob): void {
+    const queuedIndex = this.queue.indexOf(job);
+    if (queuedIndex !== -1) {
+      this.queue.splice(queuedIndex, 1);
+      this.settle(job);
+      job.reject(new DetectionCancelledError());
+      return;
+    }
+
+    const pooled = this.workers.find((candidate) => candidate.job === job);
+    if (pooled) {
+      logger.info('Cancelling running detection job', { id: pooled.id });
+      this.replace(pooled, new DetectionCancelledError());
+    }
+  }
+
+  /**
+   * Terminate a worker, fail its current job and respawn on demand
+   */
+  private replace(pooled: PooledWorker, reason: DetectionError): void {
+    const job = pooled.job;
+    this.remove(pooled, reason);
+
+    if (job) {
+      this.settle(job);
+      job.reject(reason);
+    }
+
+    this.dispatch();
+  }
+
+  private remove(
+    pooled: PooledWorker,
+    reason: DetectionError = new DetectionCancelledError(
+      'Detection worker terminated'
+    )
+  ): void {
+    pooled.job = null;
+    pooled.worker.terminate();
+    pooled.terminate(reason);
+    this.workers = this.workers.filter((candidate) => candidate !== pooled);
+  }
+
+  private settle(job: QueuedJob): void {
+    if (job.onAbort) {
+      job.options.signal?.removeEventListener('abort', job.onAbort);
+    }
+  }
+
+  /**
+   * Ping idle workers, replacing any that do not respond in time
+   */
+  async ping(timeoutMs: number): Promise<boolean> {
+    const idle = this.workers.filter((pooled) => pooled.job === null);
+
+    const responses = await Promise.all(
+      idle.map(async (pooled) => {
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        try {
+          await pooled.ready;
+          return await Promise.race([
+            pooled.api.isInitialized(),
+            new Promise<boolean>((resolve) => {
+              timeoutId = setTimeout(() => resolve(false), timeoutMs);
+            }),
+          ]);
+        } catch {
+          return false;
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      })
+    );
+
+    idle.forEach((pooled, index) => {
+      if (!responses[index] && pooled.job === null) {
+        logger.warn('Detection worker unresponsive, removing', {
+          id: pooled.id,
+        });
+        this.remove(pooled);
+      }
+    });
+
+    return responses.every(Boolean);
+  }
+
+  getStats(): PoolStats {
+    return {
+      size: this.size,
+      workers: this.workers.length,
+      busy: this.workers.filter((pooled) => pooled.job !== null).length,
+      queued: this.queue.length,
+    };
+  }
+
+  /**
+   * Reject pending jobs and terminate every worker
+   */
+  async dispose(): Promise<void> {
+    this.disposed = true;
+
+    for (const job of this.queue.splice(0)) {
+      this.settle(job);
+      job.reject(new DetectionCancelledError('Detection pool disposed'));
+    }
+
+    await Promise.all(
+      this.workers.map(async (pooled) => {
+        const job = pooled.job;
+        if (job) {
+          this.settle(job);
+          job.reject(new DetectionCancelledError('Detection pool disposed'));
+        } else {
+          await pooled.api.cleanup().catch(() => undefined);
+        }
+        this.remove(pooled);
+      })
+    );
+  }
+}
@@ -0,0 +1,325 @@
+import { transfer } from 'comlink';
+import type {
+  CalibrationProfile,
+  DetectionRegion,
+  DetectionResult,
+  DetectionStrategy,
+  ImageMetadata,
+  MatchMode,
+} from '@/lib/schemas';
+import { logger } from '@/lib/logger';
+import { DetectionCancelledError, DetectionError } from '@/lib/errors';
+import { DETECTION_CONFIG, DETECTION_STATUS } from '@/lib/constants';
+import { detectionStatus } from '@/lib/detection/status';
+import { hashFile } from '@/lib/file-utils';
+import { readImageMetadata } from '@/lib/metadata/metadata';
+import type { DetectionOutput } from '@/lib/detection/types';
+import {
+  DetectionWorkerPool,
+  type DetectionJobOptions,
+  type PoolStats,
+} from './detection-pool';
+import { detectionCacheKey, getDetectionCache } from './detection-cache';
+
+export interface DetectionProgress {
+  completed: number;
+  total: number;
+  fileName: string;
+}
+
+export type DetectionProgressCallback = (progress: DetectionProgress) => void;
+
+export interface DetectionHealth {
+  healthy: boolean;
+  initialized: boolean;
+  latencyMs: number | null;
+  lastError: string | null;
+  pool: PoolStats | null;
+}
+
+export interface DetectOptions extends DetectionJobOptions {
+  regions?: DetectionRegion[];
+  matchMode?: MatchMode;
+  strategy?: DetectionStrategy;
+  classifierModel?: string | null; // Registry id; null disables the classifier
+  calibration?: CalibrationProfile[]; // Override published profiles per key
+  explain?: boolean; // Keep the winning hit's response map for review
+  contentHash?: string; // SHA-256 of the file, when the caller has it
+  cache?: boolean; // Reuse results for identical bytes and settings (default on)
+  metadata?: ImageMetadata; // Parsed file metadata, when the caller has it
+}
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+function clampConfidence(confidence: number): number {
+  return Math.min(Math.max(confidence, 0), 1);
+}
+
+/**
+ * Service for running badge detection in a pool of dedicated workers.
+ * Independent of the inpainting model, so detection-only use never
+ * downloads it.
+ */
+export class DetectionService {
+  private pool: DetectionWorkerPool | null = null;
+  private lastError: string | null = null;
+
+  /**
+   * Create the worker pool on first use
+   */
+  private ensurePool(): DetectionWorkerPool {
+    if (!this.pool) {
+      this.pool = new DetectionWorkerPool();
+    }
+    return this.pool;
+  }
+
+  /**
+   * Detect a badge in a single image file
+   */
+  async detect(
+    file: File,
+    options: DetectOptions = {}
+  ): Promise<DetectionResult> {
+    logger.info('Starting badge detection', { fileName: file.name });
+
+    const settings = {
+      regions: options.regions,
+      matchMode: options.matchMode,
+      strategy: options.strategy,
+      classifierModel: options.classifierModel,
+      calibration: options.calibration,
+      explain: options.explain,
+    };
+
+    try {
+      const cache = options.cache === false ? null : getDetectionCache();
+      const cacheKey = cache
+        ? detectionCacheKey(
+            options.contentHash ?? (await hashFile(file)),
+            await cache.fingerprint(settings)
+          )
+        : null;
+      // Signals are not cached, so generator list updates apply at once
+      const { signals: provenanceSignals } =
+        options.metadata ?? (await readImageMetadata(file));
+
+      const cached = cache && cacheKey ? await cache.get(cacheKey) : null;
+      if (cached) {
+        if (options.signal?.aborted) throw new DetectionCancelledError();
+        logger.info('Badge detection served from cache', {
+          fileName: file.name,
+          status: cached.status,
+        });
+        return { ...cached, provenanceSignals };
+      }
+
+      // Decode only once a worker is free, so queued files stay compressed
+      const output = await this.ensurePool().run(async (api) => {
+        const imageData = await this.fileToImageData(file);
+        return api.detectBadge(
+          transfer(imageData, [imageData.data.buffer]),
+          settings
+        );
+      }, options);
+
+      const result = this.toDetectionResult(output);
+      if (cache && cacheKey) void cache.set(cacheKey, result);
+      logger.info('Badge detection complete', {
+        fileName: file.name,
+        status: result.status,
+        confidence: result.confidence,
+        region: result.region,
+        templateId: result.templateId,
+        strategy: result.strategy,
+        aiGenerated: provenanceSignals.aiGenerated,
+      });
+
+      return { ...result, provenanceSignals };
+    } catch (error) {
+      if (error instanceof DetectionCancelledError) {
+        logger.info('Badge detection cancelled', { fileName: file.name });
+        throw error;
+      }
+      logger.error('Badge detection failed', { fileName: file.name, error });
+      if (error instanceof DetectionError) {
+        this.lastError = error.message;
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      this.lastError = message;
+      throw new DetectionError(`Detection failed for ${file.name}: ${message}`);
+    }
+  }
+
+  /**
+   * Detect badges in several files, spread across the worker pool.
+   * A failure on one file does not stop the rest of the batch.
+   */
+  async detectMany(
+    files: File[],
+    onProgress?: DetectionProgressCallback,
+    options: DetectOptions = {}
+  ): Promise<PromiseSettledResult<DetectionResult>[]> {
+    let completed = 0;
+
+    return Promise.allSettled(
+      files.map((file) =>
+        this.detect(file, options).finally(() => {
+          completed++;
+          if (onProgress) {
+            onProgress({ completed, total: files.length, fileName: file.name });
+          }
+        })
+      )
+    );
+  }
+
+  /**
+   * Ping the pooled workers and report whether they are responsive
+   */
+  async checkHealth(): Promise<DetectionHealth> {
+    if (!this.pool) {
+      return {
+        healthy: this.lastError === null,
+        initialized: false,
+        latencyMs: null,
+        lastError: this.lastError,
+        pool: null,
+      };
+    }
+
+    const startTime = performance.now();
+    const responsive = await this.pool.ping(HEALTH_CHECK_TIMEOUT_MS);
+    const stats = this.pool.getStats();
+
+    if (!responsive) {
+      // Unresponsive workers were dropped and respawn on the next job
+      this.lastError = 'Detection worker unresponsive';
+      logger.warn('Detection worker health check failed', { stats });
+    }
+
+    return {
+      healthy: responsive,
+      initialized: stats.workers > 0,
+      latencyMs: performance.now() - startTime,
+      lastError: this.lastError,
+      pool: stats,
+    };
+  }
+
+  /**
+   * Check if any detection worker has been started
+   */
+  isInitialized(): boolean {
+    return this.pool !== null && this.pool.getStats().workers > 0;
+  }
+
+  /**
+   * Decode an image file into ImageData
+   */
+  private async fileToImageData(file: File): Promise<ImageData> {
+    const bitmap = await createImageBitmap(file);
+
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      bitmap.close();
+      throw new Error('Failed to get canvas context');
+    }
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  }
+
+  /**
+   * Map raw worker output onto the DetectionResult schema
+   */
+  private toDetectionResult(output: DetectionOutput): DetectionResult {
+    const regions = output.regions.map(({ region, match }) => ({
+      region,
+      templateId: match?.templateId,
+      confidence: match ? clampConfidence(match.confidence) : 0,
+      location: match ? { x: match.x, y: match.y } : undefined,
+    }));
+
+    const { match } = output;
+    if (!match) {
+      return {
+        detected: false,
+        confidence: 0,
+        possibleDetection: false,
+        matchMode: output.matchMode,
+        strategy: output.strategy,
+        classifier: output.classifier,
+        hits: [],
+        regions,
+        status: DETECTION_STATUS.NO_BADGE,
+      };
+    }
+
+    const confidence = clampConfidence(match.confidence);
+    const status = detectionStatus(confidence);
+    const detected = status === DETECTION_STATUS.BADGE_DETECTED;
+    const possibleDetection = status === DETECTION_STATUS.POSSIBLE_BADGE;
+
+    return {
+      detected,
+      confidence,
+      possibleDetection,
+      location: { x: match.x, y: match.y },
+      region: match.region,
+      templateId: match.templateId,
+      templateLabel: match.templateLabel,
+      matchMode: output.matchMode,
+      strategy: match.strategy,
+      classifier: output.classifier,
+      calibrated: match.rawConfidence !== undefined,
+      explanation: output.explanation,
+      hits: output.hits.map((hit) => ({
+        box: { x: hit.x, y: hit.y, width: hit.width, height: hit.height },
+        scale: hit.scale,
+        templateId: hit.templateId,
+        confidence: clampConfidence(hit.confidence),
+        region: hit.region,
+        strategy: hit.strategy,
+        rawConfidence:
+          hit.rawConfidence === undefined
+            ? undefined
+            : clampConfidence(hit.rawConfidence),
+        matchConfidence:
+          hit.matchConfidence === undefined
+            ? undefined
+            : clampConfidence(hit.matchConfidence),
+        classifierScore: hit.classifierScore,
+      })),
+      regions,
+      status,
+    };
+  }
+
+  /**
+   * Cancel pending jobs and release every worker
+   */
+  async dispose(): Promise<void> {
+    if (this.pool) {
+      await this.pool.dispose();
+      this.pool = null;
+    }
+    logger.info('Detection workers terminated');
+  }
+}
+
+// Singleton instance
+let detectionServiceInstance: DetectionService | null = null;
+
+/**
+ * Get the detection service singleton
+ */
+export function getDetectionService(): DetectionService {
+  if (!detectionServiceInstance) {
+    detectionServiceInstance = new DetectionService();
+  }
+  return detectionServiceInstance;
+}
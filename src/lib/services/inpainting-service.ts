@@ -1,7 +1,9 @@
 import { wrap, Remote } from 'comlink';
-import type { ProcessedFile } from '@/lib/schemas';
+import type { Box, MetadataStripField, ProcessedFile } from '@/lib/schemas';
 import { logger } from '@/lib/logger';
-import { INPAINTING_CONFIG, DETECTION_CONFIG } from '@/lib/constants';
+import { INPAINTING_CONFIG } from '@/lib/constants';
+import { decodeImageBitmap } from '@/lib/file-utils';
+import { preserveMetadata } from '@/lib/metadata/preserve';
 
 type AIInpaintingWorker = {
   initialize(): Promise<void>;
@@ -10,19 +12,8 @@ type AIInpaintingWorker = {
   cleanup(): void;
 };
 
-type DetectionWorker = {
-  initialize(): Promise<void>;
-  detectBadge(imageData: ImageData): Promise<DetectionResult | null>;
-  isInitialized(): boolean;
-  cleanup(): void;
-};
-
-interface DetectionResult {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  confidence: number;
+export interface InpaintOptions {
+  stripMetadata?: MetadataStripField[]; // Removed from the carried-over metadata
 }
 
 /**
@@ -31,8 +22,6 @@ interface DetectionResult {
 export class InpaintingService {
   private aiWorker: Worker | null = null;
   private aiApi: Remote<AIInpaintingWorker> | null = null;
-  private detectionWorker: Worker | null = null;
-  private detectionApi: Remote<DetectionWorker> | null = null;
 
   /**
    * Initialize the AI inpainting worker
@@ -69,52 +58,22 @@ export class InpaintingService {
     }
   }
 
-  /**
-   * Initialize the detection worker
-   */
-  private async ensureDetectionWorker(): Promise<Remote<DetectionWorker>> {
-    if (this.detectionApi) {
-      // Check if already initialized
-      const isInit = await this.detectionApi.isInitialized();
-      if (isInit) {
-        return this.detectionApi;
-      }
-    }
-
-    logger.info('Initializing detection worker');
-
-    try {
-      this.detectionWorker = new Worker(
-        new URL('@/workers/detection.worker.ts', import.meta.url),
-        { type: 'module' }
-      );
-
-      this.detectionApi = wrap<DetectionWorker>(this.detectionWorker);
-
-      await this.detectionApi.initialize();
-
-      logger.info('Detection worker initialized successfully');
-      return this.detectionApi;
-    } catch (error) {
-      logger.error('Failed to initialize detection worker', { error });
-      throw new Error(
-        `Detection worker initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
-  }
-
   /**
    * Inpaint a badge from an image using AI
    */
-  async inpaintBadge(file: ProcessedFile): Promise<Blob> {
+  async inpaintBadge(
+    file: ProcessedFile,
+    options: InpaintOptions = {}
+  ): Promise<Blob> {
     logger.info('Starting AI inpainting', {
       fileName: file.name,
-      hasDetection: !!file.detectionResult?.location,
+      hits: file.detectionResult?.hits?.length ?? 0,
     });
 
     try {
-      // Load the original image
-      const bitmap = await createImageBitmap(file.originalFile);
+      // Load the original image; pixel values stay in its color space, which
+      // the re-attached ICC profile describes
+      const bitmap = await decodeImageBitmap(file.originalFile);
 
       // Convert to ImageData
       const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
@@ -139,7 +98,9 @@ export class InpaintingService {
       // Convert to blob
       const blob = await this.imageDataToBlob(
         inpaintedData,
-        file.originalFile.type || 'image/png'
+        file.originalFile.type || 'image/png',
+        file.originalFile,
+        options.stripMetadata
       );
 
       logger.info('AI inpainting successful', {
@@ -170,46 +131,16 @@ export class InpaintingService {
     maskCtx.fillStyle = 'black';
     maskCtx.fillRect(0, 0, width, height);
 
-    // Calculate badge location
-    let maskX: number;
-    let maskY: number;
-    let maskWidth: number;
-    let maskHeight: number;
-
-    if (file.detectionResult?.location) {
-      // Use detected location
-      const roiWidth = Math.floor(width * DETECTION_CONFIG.ROI_PERCENT);
-      const roiHeight = Math.floor(height * DETECTION_CONFIG.ROI_PERCENT);
-      const roiX = width - roiWidth;
-      const roiY = height - roiHeight;
-
-      maskX = roiX + file.detectionResult.location.x;
-      maskY = roiY + file.detectionResult.location.y;
-
-      // Estimate badge size (could use template size if available)
-      maskWidth = 100;
-      maskHeight = 100;
-    } else {
-      // Default to bottom-right corner
-      const estimatedSize = Math.floor(Math.min(width, height) * 0.15);
-      const margin = 10;
-
-      maskX = width - estimatedSize - margin;
-      maskY = height - estimatedSize - margin;
-      maskWidth = estimatedSize;
-      maskHeight = estimatedSize;
-    }
-
-    // Add dilation to mask
+    // White = inpaint; every hit is covered, grown by the dilation
     const dilation = INPAINTING_CONFIG.MASK_DILATION;
-    maskX = Math.max(0, maskX - dilation);
-    maskY = Math.max(0, maskY - dilation);
-    maskWidth = Math.min(width - maskX, maskWidth + dilation * 2);
-    maskHeight = Math.min(height - maskY, maskHeight + dilation * 2);
-
-    // Draw white rectangle for badge region (white = inpaint)
     maskCtx.fillStyle = 'white';
-    maskCtx.fillRect(maskX, maskY, maskWidth, maskHeight);
+    for (const box of this.badgeBoxes(width, height, file)) {
+      const x = Math.max(0, Math.floor(box.x) - dilation);
+      const y = Math.max(0, Math.floor(box.y) - dilation);
+      const right = Math.min(width, Math.ceil(box.x + box.width) + dilation);
+      const bottom = Math.min(height, Math.ceil(box.y + box.height) + dilation);
+      maskCtx.fillRect(x, y, right - x, bottom - y);
+    }
 
     // Apply Gaussian blur for feathered edges
     const maskImageData = maskCtx.getImageData(0, 0, width, height);
@@ -219,6 +150,30 @@ export class InpaintingService {
     );
   }
 
+  /**
+   * Boxes to inpaint: the detected hits, or the bottom-right corner when
+   * there are none
+   */
+  private badgeBoxes(
+    width: number,
+    height: number,
+    file: ProcessedFile
+  ): Box[] {
+    const hits = file.detectionResult?.hits ?? [];
+    if (hits.length > 0) return hits.map((hit) => hit.box);
+
+    const estimatedSize = Math.floor(Math.min(width, height) * 0.15);
+    const margin = 10;
+    return [
+      {
+        x: width - estimatedSize - margin,
+        y: height - estimatedSize - margin,
+        width: estimatedSize,
+        height: estimatedSize,
+      },
+    ];
+  }
+
   /**
    * Apply Gaussian blur to create feathered mask edges
    */
@@ -302,11 +257,13 @@ export class InpaintingService {
   }
 
   /**
-   * Convert ImageData to Blob
+   * Convert ImageData to Blob, carrying over the metadata of `source`
    */
   private async imageDataToBlob(
     imageData: ImageData,
-    mimeType: string
+    mimeType: string,
+    source: Blob,
+    stripMetadata: MetadataStripField[] = []
   ): Promise<Blob> {
     const canvas = new OffscreenCanvas(imageData.width, imageData.height);
     const ctx = canvas.getContext('2d');
@@ -317,21 +274,39 @@ export class InpaintingService {
 
     ctx.putImageData(imageData, 0, 0);
 
-    return await canvas.convertToBlob({
+    const encoded = await canvas.convertToBlob({
       type: mimeType,
       quality: 0.95,
     });
+
+    try {
+      const bytes = await preserveMetadata(
+        new Uint8Array(await source.arrayBuffer()),
+        new Uint8Array(await encoded.arrayBuffer()),
+        stripMetadata
+      );
+      return new Blob([new Uint8Array(bytes)], { type: encoded.type });
+    } catch (error) {
+      // The encoded image carries no metadata at all, so nothing leaks
+      logger.warn('Could not carry metadata over to the inpainted image', {
+        error,
+      });
+      return encoded;
+    }
   }
 
   /**
    * Inpaint an image blob with fixed-position star watermark removal
    */
-  async inpaintImage(imageBlob: Blob): Promise<Blob> {
+  async inpaintImage(
+    imageBlob: Blob,
+    options: InpaintOptions = {}
+  ): Promise<Blob> {
     logger.info('Starting watermark removal (fixed position)');
 
     try {
-      // Load the image
-      const bitmap = await createImageBitmap(imageBlob);
+      // Load the image in its own color space, as in inpaintBadge
+      const bitmap = await decodeImageBitmap(imageBlob);
 
       // Convert to ImageData
       const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
@@ -356,7 +331,9 @@ export class InpaintingService {
       // Convert to blob
       const blob = await this.imageDataToBlob(
         inpaintedData,
-        imageBlob.type || 'image/png'
+        imageBlob.type || 'image/png',
+        imageBlob,
+        options.stripMetadata
       );
 
       logger.info('Watermark removal successful', { blobSize: blob.size });
@@ -447,12 +424,6 @@ export class InpaintingService {
       this.aiApi = null;
       logger.info('AI inpainting worker terminated');
     }
-    if (this.detectionWorker) {
-      this.detectionWorker.terminate();
-      this.detectionWorker = null;
-      this.detectionApi = null;
-      logger.info('Detection worker terminated');
-    }
   }
 }
 
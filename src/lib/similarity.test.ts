@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { SIMILARITY_VERDICTS } from './constants';
+import type { ImageDataLike } from './detection/matcher';
+import {
+  compareImages,
+  dHash,
+  hammingDistance,
+  pHash,
+  pixelDifference,
+} from './similarity';
+
+/**
+ * Smooth random scene: a gradient plus soft colored blobs
+ */
+function scene(seed: number, width = 320, height = 240): ImageDataLike {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  const blobs = Array.from({ length: 12 }, () => ({
+    x: random() * width,
+    y: random() * height,
+    radius: (0.05 + random() * 0.2) * width,
+    color: [random() * 255, random() * 255, random() * 255],
+  }));
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const rgb = [(x / width) * 120, (y / height) * 120, 60];
+      for (const blob of blobs) {
+        const d2 = (x - blob.x) ** 2 + (y - blob.y) ** 2;
+        const weight = Math.exp(-d2 / (2 * blob.radius ** 2));
+        for (let c = 0; c < 3; c++) {
+          rgb[c] = rgb[c] * (1 - weight) + blob.color[c] * weight;
+        }
+      }
+      data.set([...rgb, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+function crop(
+  image: ImageDataLike,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): ImageDataLike {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * image.width + x) * 4;
+    data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return { data, width, height };
+}
+
+function halve(image: ImageDataLike): ImageDataLike {
+  const width = image.width / 2;
+  const height = image.height / 2;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = (y * 2 * image.width + x * 2) * 4;
+      data.set(image.data.subarray(source, source + 4), (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+/**
+ * Copy with a white square painted in the bottom-right corner, like a badge
+ */
+function withBadge(image: ImageDataLike, size = 24): ImageDataLike {
+  const data = new Uint8ClampedArray(image.data);
+  for (let y = image.height - size - 8; y < image.height - 8; y++) {
+    for (let x = image.width - size - 8; x < image.width - 8; x++) {
+      data.set([255, 255, 255, 255], (y * image.width + x) * 4);
+    }
+  }
+  return { ...image, data };
+}
+
+describe('image similarity', () => {
+  const original = withBadge(scene(7));
+
+  it('hashes identical images identically', () => {
+    const copy = scene(7);
+    expect(hammingDistance(pHash(copy), pHash(scene(7)))).toBe(0);
+    expect(dHash(copy)).toHaveLength(16);
+  });
+
+  it('matches the clean copy of the same picture at any size', () => {
+    for (const replacement of [scene(7), halve(scene(7))]) {
+      const similarity = compareImages(original, replacement);
+      expect(similarity.verdict).toBe(SIMILARITY_VERDICTS.MATCH);
+      expect(similarity.score).toBeGreaterThan(0.8);
+    }
+  });
+
+  it('flags a different crop of the same picture', () => {
+    for (const replacement of [
+      crop(scene(7), 40, 0, 240, 240),
+      crop(scene(7), 32, 24, 256, 192),
+    ]) {
+      const similarity = compareImages(original, replacement);
+      expect(similarity.verdict).toBe(SIMILARITY_VERDICTS.DIFFERENT_CROP);
+    }
+  });
+
+  it('flags a different picture', () => {
+    for (const seed of [1, 2, 3, 4, 5, 6, 8, 9, 42]) {
+      const similarity = compareImages(original, scene(seed));
+      expect(similarity.verdict).toBe(SIMILARITY_VERDICTS.DIFFERENT_IMAGE);
+      expect(similarity.score).toBeLessThan(0.5);
+    }
+  });
+
+  it('highlights only the pixels that changed', () => {
+    const difference = pixelDifference(original, halve(scene(7)), 1);
+    expect(difference.width).toBe(original.width);
+
+    const pixel = (x: number, y: number) =>
+      Array.from(
+        difference.data.subarray((y * 320 + x) * 4, (y * 320 + x) * 4 + 3)
+      );
+    expect(Math.max(...pixel(300, 220))).toBeGreaterThan(100);
+    expect(Math.max(...pixel(100, 100))).toBeLessThan(10);
+  });
+});
@@ -0,0 +1,283 @@
+import {
+  COMPARISON_CONFIG,
+  SIMILARITY_CONFIG,
+  SIMILARITY_VERDICTS,
+} from './constants';
+import type { ImageDataLike } from './detection/matcher';
+import type { ImageSimilarity, SimilarityVerdict } from './schemas';
+
+/**
+ * Perceptual comparison between a flagged file and its replacement:
+ * pHash and dHash catch a different picture, a downscaled SSIM and the
+ * aspect ratio catch a different crop of the same one.
+ */
+
+const HASH_BITS = 64;
+
+/**
+ * Luma resampled to `width`×`height` by box averaging, ignoring aspect
+ */
+function resampleGray(
+  image: ImageDataLike,
+  width: number,
+  height: number
+): Float64Array {
+  const out = new Float64Array(width * height);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(Math.floor((y + 1) * scaleY), y0 + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(Math.floor((x + 1) * scaleX), x0 + 1);
+
+      let sum = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          sum +=
+            0.299 * image.data[i] +
+            0.587 * image.data[i + 1] +
+            0.114 * image.data[i + 2];
+        }
+      }
+      out[y * width + x] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    const nibble =
+      (bits[i] ? 8 : 0) |
+      (bits[i + 1] ? 4 : 0) |
+      (bits[i + 2] ? 2 : 0) |
+      (bits[i + 3] ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Difference hash: whether each pixel of a 9×8 thumbnail is brighter than
+ * its right neighbour
+ */
+export function dHash(image: ImageDataLike): string {
+  const gray = resampleGray(image, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(gray[y * 9 + x] > gray[y * 9 + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+/**
+ * Perceptual hash: the lowest 8×8 DCT frequencies of a 32×32 thumbnail
+ * compared with their median, skipping the DC term
+ */
+export function pHash(image: ImageDataLike): string {
+  const size = 32;
+  const gray = resampleGray(image, size, size);
+
+  // Separable DCT-II, computed only for the frequencies the hash uses
+  const cosines = Array.from({ length: 8 }, (_, u) =>
+    Array.from({ length: size }, (__, x) =>
+      Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size))
+    )
+  );
+  const rows = new Float64Array(size * 8);
+  for (let y = 0; y < size; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < size; x++) sum += gray[y * size + x] * cosines[u][x];
+      rows[y * 8 + u] = sum;
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) sum += rows[y * 8 + u] * cosines[v][y];
+      coefficients.push(sum);
+    }
+  }
+
+  const ac = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (ac[31] + ac[32]) / 2;
+  return bitsToHex(coefficients.map((value) => value > median));
+}
+
+/**
+ * Number of differing bits between two equal-length hex hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Mean SSIM over non-overlapping windows of both images resampled to the
+ * same square size
+ */
+export function ssim(
+  a: ImageDataLike,
+  b: ImageDataLike,
+  size: number = SIMILARITY_CONFIG.SSIM_SIZE
+): number {
+  const window = SIMILARITY_CONFIG.SSIM_WINDOW;
+  const x = resampleGray(a, size, size);
+  const y = resampleGray(b, size, size);
+  // Stabilizers from the SSIM paper for 8-bit dynamic range
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+
+  let total = 0;
+  let windows = 0;
+  for (let wy = 0; wy + window <= size; wy += window) {
+    for (let wx = 0; wx + window <= size; wx += window) {
+      let meanX = 0;
+      let meanY = 0;
+      for (let j = 0; j < window; j++) {
+        for (let i = 0; i < window; i++) {
+          const index = (wy + j) * size + wx + i;
+          meanX += x[index];
+          meanY += y[index];
+        }
+      }
+      const n = window * window;
+      meanX /= n;
+      meanY /= n;
+
+      let varX = 0;
+      let varY = 0;
+      let covariance = 0;
+      for (let j = 0; j < window; j++) {
+        for (let i = 0; i < window; i++) {
+          const index = (wy + j) * size + wx + i;
+          const dx = x[index] - meanX;
+          const dy = y[index] - meanY;
+          varX += dx * dx;
+          varY += dy * dy;
+          covariance += dx * dy;
+        }
+      }
+      varX /= n - 1;
+      varY /= n - 1;
+      covariance /= n - 1;
+
+      total +=
+        ((2 * meanX * meanY + c1) * (2 * covariance + c2)) /
+        ((meanX ** 2 + meanY ** 2 + c1) * (varX + varY + c2));
+      windows++;
+    }
+  }
+  return total / windows;
+}
+
+function classify(
+  pHashDistance: number,
+  dHashDistance: number,
+  structural: number,
+  aspectRatioChange: number
+): SimilarityVerdict {
+  const hashesMatch =
+    pHashDistance <= SIMILARITY_CONFIG.MATCH_HASH_DISTANCE &&
+    dHashDistance <= SIMILARITY_CONFIG.MATCH_HASH_DISTANCE;
+  if (
+    hashesMatch &&
+    structural >= SIMILARITY_CONFIG.MATCH_SSIM &&
+    aspectRatioChange <= SIMILARITY_CONFIG.MAX_ASPECT_RATIO_CHANGE
+  ) {
+    return SIMILARITY_VERDICTS.MATCH;
+  }
+
+  // Reframing shifts content, so hashes drift but stay far from random
+  const related =
+    Math.max(pHashDistance, dHashDistance) <=
+      SIMILARITY_CONFIG.RELATED_HASH_DISTANCE &&
+    structural >= SIMILARITY_CONFIG.RELATED_SSIM;
+  return related
+    ? SIMILARITY_VERDICTS.DIFFERENT_CROP
+    : SIMILARITY_VERDICTS.DIFFERENT_IMAGE;
+}
+
+/**
+ * Compare a replacement with the file it replaces
+ */
+export function compareImages(
+  original: ImageDataLike,
+  replacement: ImageDataLike
+): ImageSimilarity {
+  const pHashDistance = hammingDistance(pHash(original), pHash(replacement));
+  const dHashDistance = hammingDistance(dHash(original), dHash(replacement));
+  const structural = ssim(original, replacement);
+  const aspectRatioChange = Math.abs(
+    Math.log(
+      original.width /
+        original.height /
+        (replacement.width / replacement.height)
+    )
+  );
+
+  // Hash distances of unrelated images centre on half the bits
+  const hashScore = 1 - (pHashDistance + dHashDistance) / HASH_BITS;
+  const score = Math.min(
+    Math.max((hashScore + Math.max(structural, 0)) / 2, 0),
+    1
+  );
+
+  return {
+    score,
+    pHashDistance,
+    dHashDistance,
+    ssim: structural,
+    aspectRatioChange,
+    verdict: classify(
+      pHashDistance,
+      dHashDistance,
+      structural,
+      aspectRatioChange
+    ),
+  };
+}
+
+/**
+ * Per-pixel absolute difference, amplified by `gain`, at the size of `a`.
+ * `b` is resampled by nearest neighbour when the sizes differ.
+ */
+export function pixelDifference(
+  a: ImageDataLike,
+  b: ImageDataLike,
+  gain: number = COMPARISON_CONFIG.DIFFERENCE_GAIN
+): ImageDataLike {
+  const data = new Uint8ClampedArray(a.width * a.height * 4);
+  const scaleX = b.width / a.width;
+  const scaleY = b.height / a.height;
+
+  for (let y = 0; y < a.height; y++) {
+    const by = Math.min(Math.floor(y * scaleY), b.height - 1);
+    for (let x = 0; x < a.width; x++) {
+      const bx = Math.min(Math.floor(x * scaleX), b.width - 1);
+      const i = (y * a.width + x) * 4;
+      const j = (by * b.width + bx) * 4;
+      for (let c = 0; c < 3; c++) {
+        data[i + c] = Math.abs(a.data[i + c] - b.data[j + c]) * gain;
+      }
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: a.width, height: a.height };
+}
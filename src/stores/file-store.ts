@@ -0,0 +1,628 @@
+import { create } from 'zustand';
+import { logger } from '@/lib/logger';
+import {
+  FILE_LIMITS,
+  FILE_STATUS,
+  DETECTION_CONFIG,
+  DETECTION_STATUS,
+  REVIEW_VERDICTS,
+  SIMILARITY_CONFIG,
+  SIMILARITY_VERDICTS,
+} from '@/lib/constants';
+import {
+  processImageFile,
+  cleanupObjectUrl,
+  hashFile,
+  readImagePixels,
+} from '@/lib/file-utils';
+import { compareImages } from '@/lib/similarity';
+import { pairReplacements, isReplacementClean } from '@/lib/replacements';
+import { getDetectionService } from '@/lib/services/detection-service';
+import { readProvenance } from '@/lib/provenance/provenance';
+import { DEFAULT_DISCLOSURE_OPTIONS } from '@/lib/disclosure';
+import { DetectionCancelledError, ValidationError } from '@/lib/errors';
+import {
+  ReviewSchema,
+  type CalibrationProfile,
+  type DetectionRegion,
+  type DetectionResult,
+  type DetectionStrategy,
+  type DisclosureOptions,
+  type FileStatus,
+  type MetadataStripField,
+  type ProcessedFile,
+  type Review,
+} from '@/lib/schemas';
+
+export interface RejectedFile {
+  name: string;
+  reason: string;
+}
+
+interface FileState {
+  files: Record<string, ProcessedFile>;
+  order: string[];
+  isScanning: boolean;
+  regions: DetectionRegion[];
+  strategy: DetectionStrategy;
+  calibration: CalibrationProfile[]; // Imported; override published profiles
+  reviewer: string; // Last reviewer name, prefilled in the review form
+  unpairedReplacements: File[]; // Dropped replacements awaiting manual pairing
+  disclosure: DisclosureOptions; // AI-disclosure labeling on export
+  stripMetadata: MetadataStripField[]; // Removed from exports and re-encodes
+
+  // Actions
+  addFiles: (files: File[]) => Promise<RejectedFile[]>;
+  removeFile: (id: string) => void;
+  updateFile: (id: string, updates: Partial<ProcessedFile>) => void;
+  updateFileStatus: (id: string, status: FileStatus) => void;
+  clearFiles: () => void;
+  scanFile: (id: string) => Promise<void>;
+  readProvenance: (id: string) => Promise<void>;
+  setRegions: (regions: DetectionRegion[]) => void;
+  setStrategy: (strategy: DetectionStrategy) => void;
+  setCalibration: (calibration: CalibrationProfile[]) => void;
+  setDisclosure: (disclosure: DisclosureOptions) => void;
+  setStripMetadata: (stripMetadata: MetadataStripField[]) => void;
+  reviewFile: (id: string, review: Omit<Review, 'reviewedAt'>) => Promise<void>;
+  clearReview: (id: string) => void;
+  addReplacements: (files: File[]) => Promise<RejectedFile[]>;
+  setReplacement: (id: string, file: File) => Promise<void>;
+  removeReplacement: (id: string) => void;
+  dismissUnpaired: (file: File) => void;
+  scanReplacement: (id: string) => Promise<void>;
+  compareReplacement: (id: string) => Promise<void>;
+}
+
+// In-flight scans, so removing a file cancels its detection job
+const scanControllers = new Map<string, AbortController>();
+
+function cancelScan(id: string): void {
+  scanControllers.get(id)?.abort();
+  scanControllers.delete(id);
+}
+
+// Replacement scans share the map under their own key
+function replacementScanKey(id: string): string {
+  return `${id}:replacement`;
+}
+
+/**
+ * Map a detection result onto the file status shown in the results grid
+ */
+function statusFromDetection(result: DetectionResult): FileStatus {
+  switch (result.status) {
+    case DETECTION_STATUS.BADGE_DETECTED:
+      return FILE_STATUS.BADGE_DETECTED;
+    case DETECTION_STATUS.POSSIBLE_BADGE:
+      return FILE_STATUS.POSSIBLE_BADGE;
+    default:
+      return FILE_STATUS.CLEAN;
+  }
+}
+
+/**
+ * Map a reviewer's verdict onto the file status, overriding detection
+ */
+function statusFromReview(review: Review): FileStatus {
+  switch (review.verdict) {
+    case REVIEW_VERDICTS.CONFIRMED:
+      return FILE_STATUS.CONFIRMED;
+    case REVIEW_VERDICTS.FALSE_POSITIVE:
+      return FILE_STATUS.FALSE_POSITIVE;
+    case REVIEW_VERDICTS.NEEDS_REPLACEMENT:
+      return FILE_STATUS.NEEDS_REPLACEMENT;
+  }
+}
+
+/**
+ * Status of a scanned file: a clean replacement resolves it, otherwise a
+ * reviewer's verdict overrides detection
+ */
+function statusOf(file: ProcessedFile): FileStatus {
+  if (isReplacementClean(file)) return FILE_STATUS.RESOLVED;
+  if (file.review) return statusFromReview(file.review);
+  if (file.detectionResult) return statusFromDetection(file.detectionResult);
+  return FILE_STATUS.PENDING;
+}
+
+function cleanupFileUrls(file: ProcessedFile): void {
+  cleanupObjectUrl(file.thumbnailUrl);
+  if (file.inpaintedUrl) {
+    cleanupObjectUrl(file.inpaintedUrl);
+  }
+  if (file.replacementFile) {
+    cleanupFileUrls(file.replacementFile);
+  }
+}
+
+export const useFileStore = create<FileState>((set, get) => ({
+  // State
+  files: {},
+  order: [],
+  isScanning: false,
+  regions: [...DETECTION_CONFIG.DEFAULT_REGIONS],
+  strategy: DETECTION_CONFIG.STRATEGY,
+  calibration: [],
+  reviewer: '',
+  unpairedReplacements: [],
+  disclosure: DEFAULT_DISCLOSURE_OPTIONS,
+  stripMetadata: [],
+
+  // Actions
+  addFiles: async (incoming: File[]) => {
+    const rejected: RejectedFile[] = [];
+    const available = FILE_LIMITS.MAX_FILES_PER_BATCH - get().order.length;
+
+    const accepted = incoming.slice(0, Math.max(available, 0));
+    for (const file of incoming.slice(accepted.length)) {
+      rejected.push({
+        name: file.name,
+        reason: `Batch limit of ${FILE_LIMITS.MAX_FILES_PER_BATCH} files reached`,
+      });
+    }
+
+    const results = await Promise.allSettled(
+      accepted.map((file) => processImageFile(file))
+    );
+
+    const added: ProcessedFile[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        added.push({ ...result.value, status: FILE_STATUS.PENDING });
+      } else {
+        rejected.push({
+          name: accepted[index].name,
+          reason:
+            result.reason instanceof Error
+              ? result.reason.message
+              : 'Failed to process file',
+        });
+      }
+    });
+
+    if (added.length > 0) {
+      set((state) => {
+        const files = { ...state.files };
+        for (const file of added) {
+          files[file.id] = file;
+        }
+        return {
+          files,
+          order: [...state.order, ...added.map((file) => file.id)],
+        };
+      });
+
+      logger.info('Files added to batch', {
+        added: added.length,
+        total: get().order.length,
+      });
+    }
+
+    if (rejected.length > 0) {
+      logger.warn('Files rejected from batch', { rejected });
+    }
+
+    for (const file of added) {
+      void get().scanFile(file.id);
+      void get().readProvenance(file.id);
+    }
+
+    return rejected;
+  },
+
+  removeFile: (id: string) => {
+    const file = get().files[id];
+    if (!file) return;
+
+    cancelScan(id);
+    cancelScan(replacementScanKey(id));
+    cleanupFileUrls(file);
+
+    set((state) => {
+      const files = { ...state.files };
+      delete files[id];
+      return {
+        files,
+        order: state.order.filter((fileId) => fileId !== id),
+      };
+    });
+
+    logger.info('File removed from batch', { id, name: file.name });
+  },
+
+  updateFile: (id: string, updates: Partial<ProcessedFile>) => {
+    set((state) => {
+      const file = state.files[id];
+      if (!file) return state;
+      return { files: { ...state.files, [id]: { ...file, ...updates } } };
+    });
+  },
+
+  updateFileStatus: (id: string, status: FileStatus) => {
+    get().updateFile(id, { status });
+  },
+
+  clearFiles: () => {
+    const { files } = get();
+
+    for (const id of Array.from(scanControllers.keys())) {
+      cancelScan(id);
+    }
+
+    // Cleanup URLs
+    for (const file of Object.values(files)) {
+      cleanupFileUrls(file);
+    }
+
+    logger.info('Batch cleared');
+
+    set({
+      files: {},
+      order: [],
+      isScanning: false,
+      unpairedReplacements: [],
+    });
+  },
+
+  scanFile: async (id: string) => {
+    const file = get().files[id];
+    if (!file) return;
+
+    // Concurrency is bounded by the detection worker pool
+    cancelScan(id);
+    const controller = new AbortController();
+    scanControllers.set(id, controller);
+
+    get().updateFileStatus(id, FILE_STATUS.PENDING);
+    set({ isScanning: true });
+
+    try {
+      // Identical bytes reuse a cached result instead of rerunning OpenCV
+      const contentHash =
+        file.contentHash ?? (await hashFile(file.originalFile));
+      const detectionResult = await getDetectionService().detect(
+        file.originalFile,
+        {
+          regions: get().regions,
+          strategy: get().strategy,
+          calibration: get().calibration,
+          explain: true,
+          contentHash,
+          metadata: file.metadata,
+          signal: controller.signal,
+          onStart: () => get().updateFileStatus(id, FILE_STATUS.SCANNING),
+        }
+      );
+      // A reviewer's verdict and a clean replacement outlive rescans
+      const current = get().files[id];
+      if (!current) return;
+      get().updateFile(id, {
+        detectionResult,
+        contentHash,
+        status: statusOf({ ...current, detectionResult }),
+        errorMessage: undefined,
+      });
+    } catch (error) {
+      if (error instanceof DetectionCancelledError) return;
+      get().updateFile(id, {
+        status: FILE_STATUS.ERROR,
+        errorMessage:
+          error instanceof Error ? error.message : 'Detection failed',
+      });
+    } finally {
+      if (scanControllers.get(id) === controller) {
+        scanControllers.delete(id);
+      }
+      set({ isScanning: scanControllers.size > 0 });
+    }
+  },
+
+  readProvenance: async (id: string) => {
+    const file = get().files[id];
+    if (!file) return;
+
+    // Provenance is informational; a malformed manifest never fails the file
+    try {
+      const provenance = await readProvenance(file.originalFile);
+      if (!get().files[id]) return;
+      get().updateFile(id, { provenance });
+    } catch (error) {
+      logger.warn('Provenance could not be read', { id, error });
+    }
+  },
+
+  setRegions: (regions: DetectionRegion[]) => {
+    logger.info('Detection regions changed', { regions });
+    set({ regions });
+  },
+
+  setStrategy: (strategy: DetectionStrategy) => {
+    logger.info('Detection strategy changed', { strategy });
+    set({ strategy });
+  },
+
+  setCalibration: (calibration: CalibrationProfile[]) => {
+    logger.info('Calibration profiles changed', {
+      profiles: calibration.length,
+    });
+    set({ calibration });
+
+    // Confidences from the old profiles are not comparable, so rescan
+    for (const id of get().order) {
+      void get().scanFile(id);
+      void get().scanReplacement(id);
+    }
+  },
+
+  setDisclosure: (disclosure: DisclosureOptions) => {
+    logger.info('Disclosure options changed', {
+      enabled: disclosure.enabled,
+      scope: disclosure.scope,
+      caption: disclosure.caption,
+    });
+    set({ disclosure });
+  },
+
+  setStripMetadata: (stripMetadata: MetadataStripField[]) => {
+    logger.info('Metadata strip list changed', { stripMetadata });
+    set({ stripMetadata });
+  },
+
+  reviewFile: async (id: string, input: Omit<Review, 'reviewedAt'>) => {
+    const file = get().files[id];
+    if (!file) return;
+
+    const parsed = ReviewSchema.safeParse({
+      ...input,
+      reviewedAt: new Date().toISOString(),
+    });
+    if (!parsed.success) {
+      throw new ValidationError(
+        parsed.error.issues[0]?.message ?? 'Invalid review'
+      );
+    }
+
+    // Exported datasets identify files by content, not name
+    const contentHash = file.contentHash ?? (await hashFile(file.originalFile));
+    const review = parsed.data;
+
+    get().updateFile(id, {
+      review,
+      contentHash,
+      status: statusOf({ ...file, review }),
+    });
+    set({ reviewer: review.reviewer });
+
+    logger.info('File reviewed', {
+      id,
+      name: file.name,
+      verdict: review.verdict,
+      reviewer: review.reviewer,
+    });
+  },
+
+  clearReview: (id: string) => {
+    const file = get().files[id];
+    if (!file?.review) return;
+
+    get().updateFile(id, {
+      review: undefined,
+      status: statusOf({ ...file, review: undefined }),
+    });
+    logger.info('Review cleared', { id, name: file.name });
+  },
+
+  addReplacements: async (incoming: File[]) => {
+    const originals = get().order.map((id) => get().files[id]);
+    const { paired, unpaired } = pairReplacements(originals, incoming);
+
+    const results = await Promise.allSettled(
+      paired.map(({ id, file }) => get().setReplacement(id, file))
+    );
+    const rejected: RejectedFile[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        rejected.push({
+          name: paired[index].file.name,
+          reason:
+            result.reason instanceof Error
+              ? result.reason.message
+              : 'Failed to process file',
+        });
+      }
+    });
+
+    if (unpaired.length > 0) {
+      set((state) => ({
+        unpairedReplacements: [...state.unpairedReplacements, ...unpaired],
+      }));
+    }
+
+    logger.info('Replacements added', {
+      paired: paired.length - rejected.length,
+      unpaired: unpaired.length,
+    });
+    return rejected;
+  },
+
+  setReplacement: async (id: string, file: File) => {
+    const original = get().files[id];
+    if (!original) return;
+
+    // Throws ValidationError for unsupported or oversized files
+    const processed = await processImageFile(file);
+
+    const current = get().files[id];
+    if (!current) {
+      cleanupObjectUrl(processed.thumbnailUrl);
+      return;
+    }
+
+    cancelScan(replacementScanKey(id));
+    if (current.replacementFile) {
+      cleanupFileUrls(current.replacementFile);
+    }
+    const replacementFile: ProcessedFile = {
+      ...processed,
+      status: FILE_STATUS.PENDING,
+    };
+    get().updateFile(id, {
+      replacementFile,
+      status: statusOf({ ...current, replacementFile }),
+    });
+    set((state) => ({
+      unpairedReplacements: state.unpairedReplacements.filter(
+        (unpaired) => unpaired !== file
+      ),
+    }));
+
+    logger.info('Replacement paired', {
+      id,
+      original: current.name,
+      replacement: file.name,
+    });
+
+    void get().scanReplacement(id);
+    void get().compareReplacement(id);
+  },
+
+  removeReplacement: (id: string) => {
+    const file = get().files[id];
+    if (!file?.replacementFile) return;
+
+    cancelScan(replacementScanKey(id));
+    cleanupFileUrls(file.replacementFile);
+    get().updateFile(id, {
+      replacementFile: undefined,
+      status: statusOf({ ...file, replacementFile: undefined }),
+    });
+    set({ isScanning: scanControllers.size > 0 });
+
+    logger.info('Replacement removed', { id, name: file.name });
+  },
+
+  compareReplacement: async (id: string) => {
+    const file = get().files[id];
+    const replacement = file?.replacementFile;
+    if (!file || !replacement) return;
+
+    try {
+      const [original, candidate] = await Promise.all([
+        readImagePixels(file.originalFile, SIMILARITY_CONFIG.DECODE_MAX_SIDE),
+        readImagePixels(
+          replacement.originalFile,
+          SIMILARITY_CONFIG.DECODE_MAX_SIDE
+        ),
+      ]);
+      const similarity = compareImages(original, candidate);
+
+      set((state) => {
+        const current = state.files[id];
+        if (current?.replacementFile?.id !== replacement.id) return state;
+        return {
+          files: {
+            ...state.files,
+            [id]: {
+              ...current,
+              replacementFile: { ...current.replacementFile, similarity },
+            },
+          },
+        };
+      });
+
+      if (similarity.verdict !== SIMILARITY_VERDICTS.MATCH) {
+        logger.warn('Replacement does not match its original', {
+          id,
+          original: file.name,
+          replacement: replacement.name,
+          ...similarity,
+        });
+      }
+    } catch (error) {
+      logger.error('Replacement comparison failed', { id, error });
+    }
+  },
+
+  dismissUnpaired: (file: File) => {
+    set((state) => ({
+      unpairedReplacements: state.unpairedReplacements.filter(
+        (unpaired) => unpaired !== file
+      ),
+    }));
+  },
+
+  scanReplacement: async (id: string) => {
+    const replacement = get().files[id]?.replacementFile;
+    if (!replacement) return;
+
+    const key = replacementScanKey(id);
+    cancelScan(key);
+    const controller = new AbortController();
+    scanControllers.set(key, controller);
+
+    // Ignore results for a replacement that has since been swapped out
+    const updateReplacement = (updates: Partial<ProcessedFile>) => {
+      set((state) => {
+        const file = state.files[id];
+        if (file?.replacementFile?.id !== replacement.id) return state;
+        const replacementFile = { ...file.replacementFile, ...updates };
+        return {
+          files: {
+            ...state.files,
+            [id]: {
+              ...file,
+              replacementFile,
+              status: statusOf({ ...file, replacementFile }),
+            },
+          },
+        };
+      });
+    };
+
+    updateReplacement({ status: FILE_STATUS.PENDING });
+    set({ isScanning: true });
+
+    try {
+      const contentHash =
+        replacement.contentHash ?? (await hashFile(replacement.originalFile));
+      const detectionResult = await getDetectionService().detect(
+        replacement.originalFile,
+        {
+          regions: get().regions,
+          strategy: get().strategy,
+          calibration: get().calibration,
+          explain: true,
+          contentHash,
+          metadata: replacement.metadata,
+          signal: controller.signal,
+          onStart: () => updateReplacement({ status: FILE_STATUS.SCANNING }),
+        }
+      );
+      updateReplacement({
+        detectionResult,
+        contentHash,
+        status: statusFromDetection(detectionResult),
+        errorMessage: undefined,
+      });
+
+      logger.info('Replacement scanned', {
+        id,
+        name: replacement.name,
+        status: detectionResult.status,
+      });
+    } catch (error) {
+      if (error instanceof DetectionCancelledError) return;
+      updateReplacement({
+        status: FILE_STATUS.ERROR,
+        errorMessage:
+          error instanceof Error ? error.message : 'Detection failed',
+      });
+    } finally {
+      if (scanControllers.get(key) === controller) {
+        scanControllers.delete(key);
+      }
+      set({ isScanning: scanControllers.size > 0 });
+    }
+  },
+}));
@@ -23,8 +23,8 @@ interface AppStore extends ImageState {
 }
 
 export const useAppStore = create<AppStore>((set, get) => ({
-  // State
-  appState: 'loading',
+  // State; scanning needs no model, so the app starts ready
+  appState: 'ready',
   modelProgress: 0,
   originalImage: null,
   originalImageUrl: null,
@@ -1,21 +1,24 @@
 import { expose } from 'comlink';
 import { DETECTION_CONFIG } from '@/lib/constants';
-
-// Type declarations
-interface DetectionAPI {
-  initialize(): Promise<void>;
-  detectBadge(imageData: ImageData): Promise<DetectionResult | null>;
-  isInitialized(): boolean;
-  cleanup(): void;
-}
-
-interface DetectionResult {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  confidence: number;
-}
+import {
+  CalibrationProfileSetSchema,
+  ClassifierRegistrySchema,
+  TemplateManifestSchema,
+  type CalibrationProfile,
+  type ClassifierModel,
+  type ClassifierRegistry,
+  type TemplateEntry,
+} from '@/lib/schemas';
+import { BadgeMatcher, DEFAULT_TEMPLATE } from '@/lib/detection/matcher';
+import { BadgeClassifier } from '@/lib/detection/classifier';
+import { mergeCalibrationProfiles } from '@/lib/detection/calibration';
+import { getModelService } from '@/lib/services/model-service';
+import type {
+  DetectionOptions,
+  DetectionOutput,
+  DetectionWorkerAPI,
+  TemplateInfo,
+} from '@/lib/detection/types';
 
 // Declare cv as global (loaded from opencv.js)
 declare const cv: any;
@@ -23,13 +26,16 @@ declare const cv: any;
 /**
  * Badge Detection Worker using OpenCV.js
  */
-class BadgeDetectionWorker implements DetectionAPI {
+class BadgeDetectionWorker implements DetectionWorkerAPI {
   private initialized = false;
-  private template: any = null; // cv.Mat
+  private matcher: BadgeMatcher | null = null;
+  private calibration: CalibrationProfile[] = [];
   private cvReady = false;
+  private classifierRegistry: Promise<ClassifierRegistry | null> | null = null;
+  private classifiers = new Map<string, Promise<BadgeClassifier | null>>();
 
   /**
-   * Initialize OpenCV and load badge template
+   * Initialize OpenCV and load badge templates
    */
   async initialize(): Promise<void> {
     if (this.initialized) {
@@ -43,8 +49,11 @@ class BadgeDetectionWorker implements DetectionAPI {
       // Load OpenCV.js
       await this.loadOpenCV();
 
-      // Load badge template
-      await this.loadTemplate();
+      // Load badge templates from the manifest
+      const matcher = new BadgeMatcher(cv, (url) => this.fetchImageData(url));
+      await matcher.loadTemplates(await this.loadManifest());
+      this.matcher = matcher;
+      this.calibration = await this.loadCalibration();
 
       this.initialized = true;
       console.log('[Detection Worker] Initialization complete');
@@ -105,218 +114,190 @@ class BadgeDetectionWorker implements DetectionAPI {
   }
 
   /**
-   * Load badge template image
+   * Load the template manifest, falling back to the single default badge
    */
-  private async loadTemplate(): Promise<void> {
-    console.log('[Detection Worker] Loading badge template...');
-
+  private async loadManifest(): Promise<TemplateEntry[]> {
     try {
-      // Fetch template image
-      const response = await fetch('/templates/badge.png');
+      const response = await fetch(DETECTION_CONFIG.TEMPLATE_MANIFEST_PATH);
       if (!response.ok) {
-        throw new Error(`Failed to load template: HTTP ${response.status}`);
+        throw new Error(`HTTP ${response.status}`);
       }
 
-      const blob = await response.blob();
-      console.log('[Detection Worker] Template blob loaded:', {
-        size: blob.size,
-        type: blob.type,
-      });
-
-      const bitmap = await createImageBitmap(blob);
-      console.log('[Detection Worker] Template bitmap created:', {
-        width: bitmap.width,
-        height: bitmap.height,
-      });
-
-      // Convert to ImageData
-      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        throw new Error('Failed to get canvas context');
-      }
-
-      ctx.drawImage(bitmap, 0, 0);
-      const imageData = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
-
-      // Convert ImageData to cv.Mat
-      this.template = cv.matFromImageData(imageData);
-      console.log('[Detection Worker] Template converted to cv.Mat:', {
-        cols: this.template.cols,
-        rows: this.template.rows,
-        channels: this.template.channels(),
+      const manifest = TemplateManifestSchema.parse(await response.json());
+      console.log('[Detection Worker] Template manifest loaded:', {
+        version: manifest.version,
+        templates: manifest.templates.map((template) => template.id),
       });
+      return manifest.templates;
+    } catch (error) {
+      console.warn(
+        '[Detection Worker] Template manifest unavailable, using default:',
+        error
+      );
+      return [DEFAULT_TEMPLATE];
+    }
+  }
 
-      // Convert to grayscale for matching
-      if (this.template.channels() > 1) {
-        cv.cvtColor(this.template, this.template, cv.COLOR_RGBA2GRAY);
-        console.log('[Detection Worker] Template converted to grayscale');
+  /**
+   * Load published calibration profiles; scores stay raw without them
+   */
+  private async loadCalibration(): Promise<CalibrationProfile[]> {
+    try {
+      const response = await fetch(DETECTION_CONFIG.CALIBRATION_PATH);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
       }
 
-      console.log('[Detection Worker] Template loaded successfully:', {
-        width: this.template.cols,
-        height: this.template.rows,
+      const { profiles } = CalibrationProfileSetSchema.parse(
+        await response.json()
+      );
+      console.log('[Detection Worker] Calibration profiles loaded:', {
+        profiles: profiles.length,
       });
+      return profiles;
     } catch (error) {
-      console.error('[Detection Worker] Failed to load template:', error);
-      throw error;
+      console.log(
+        '[Detection Worker] No calibration profiles, using raw scores:',
+        error
+      );
+      return [];
     }
   }
 
   /**
-   * Detect badge in image using template matching
+   * Load the classifier registry once; null when none is published
    */
-  async detectBadge(imageData: ImageData): Promise<DetectionResult | null> {
-    if (!this.initialized || !this.template) {
-      throw new Error('Worker not initialized');
+  private loadClassifierRegistry(): Promise<ClassifierRegistry | null> {
+    if (!this.classifierRegistry) {
+      this.classifierRegistry = (async () => {
+        try {
+          const response = await fetch(
+            DETECTION_CONFIG.CLASSIFIER_REGISTRY_PATH
+          );
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+
+          const registry = ClassifierRegistrySchema.parse(
+            await response.json()
+          );
+          console.log('[Detection Worker] Classifier registry loaded:', {
+            version: registry.version,
+            models: registry.models.map((model) => model.id),
+            defaultModel: registry.defaultModel,
+          });
+          return registry;
+        } catch (error) {
+          console.log(
+            '[Detection Worker] No classifier registry, classifier disabled:',
+            error
+          );
+          return null;
+        }
+      })();
     }
+    return this.classifierRegistry;
+  }
 
-    console.log('[Detection Worker] Starting badge detection...', {
-      imageSize: `${imageData.width}x${imageData.height}`,
-    });
+  /**
+   * Resolve the requested classifier, falling back to the registry default.
+   * Sessions are created once per model and reused across scans.
+   */
+  private async getClassifier(
+    requested: string | null | undefined
+  ): Promise<BadgeClassifier | null> {
+    if (requested === null) return null;
+
+    const registry = await this.loadClassifierRegistry();
+    const modelId = requested ?? registry?.defaultModel;
+    if (!registry || !modelId) return null;
+
+    const model = registry.models.find((entry) => entry.id === modelId);
+    if (!model) {
+      console.warn('[Detection Worker] Unknown classifier model:', modelId);
+      return null;
+    }
 
-    let srcMat: any = null;
-    let roiMat: any = null;
-    let grayMat: any = null;
+    let classifier = this.classifiers.get(model.id);
+    if (!classifier) {
+      classifier = this.loadClassifier(model);
+      this.classifiers.set(model.id, classifier);
+    }
+    return classifier;
+  }
 
+  private async loadClassifier(
+    model: ClassifierModel
+  ): Promise<BadgeClassifier | null> {
     try {
-      // Convert ImageData to cv.Mat
-      srcMat = cv.matFromImageData(imageData);
-
-      // Extract ROI (bottom-right corner)
-      const roiWidth = Math.floor(
-        imageData.width * DETECTION_CONFIG.ROI_PERCENT
-      );
-      const roiHeight = Math.floor(
-        imageData.height * DETECTION_CONFIG.ROI_PERCENT
-      );
-      const roiX = imageData.width - roiWidth;
-      const roiY = imageData.height - roiHeight;
-
-      const roiRect = new cv.Rect(roiX, roiY, roiWidth, roiHeight);
-      roiMat = srcMat.roi(roiRect);
-
-      // Convert to grayscale
-      grayMat = new cv.Mat();
-      if (roiMat.channels() > 1) {
-        cv.cvtColor(roiMat, grayMat, cv.COLOR_RGBA2GRAY);
-      } else {
-        roiMat.copyTo(grayMat);
-      }
-
-      console.log('[Detection Worker] ROI extracted:', {
-        roiSize: `${roiWidth}x${roiHeight}`,
-        roiOffset: `${roiX}, ${roiY}`,
+      // Cached in IndexedDB alongside the inpainting model
+      const weights = await getModelService().downloadModel(model.url);
+      const classifier = await BadgeClassifier.create(model, weights);
+      console.log('[Detection Worker] Classifier loaded:', {
+        id: model.id,
+        version: model.version,
       });
-
-      // Perform multi-scale template matching
-      let bestMatch: DetectionResult | null = null;
-      let bestConfidence = 0;
-
-      for (const scale of DETECTION_CONFIG.SCALES) {
-        const match = this.matchAtScale(grayMat, scale);
-        if (match && match.confidence > bestConfidence) {
-          bestConfidence = match.confidence;
-          // Adjust coordinates to full image space
-          bestMatch = {
-            x: roiX + match.x,
-            y: roiY + match.y,
-            width: match.width,
-            height: match.height,
-            confidence: match.confidence,
-          };
-        }
-      }
-
-      if (
-        bestMatch &&
-        bestMatch.confidence >= DETECTION_CONFIG.POSSIBLE_THRESHOLD
-      ) {
-        console.log('[Detection Worker] Badge detected:', {
-          location: `${bestMatch.x}, ${bestMatch.y}`,
-          size: `${bestMatch.width}x${bestMatch.height}`,
-          confidence: bestMatch.confidence.toFixed(3),
-        });
-        return bestMatch;
-      }
-
-      console.log('[Detection Worker] No badge detected (confidence too low)');
-      return null;
+      return classifier;
     } catch (error) {
-      console.error('[Detection Worker] Detection failed:', error);
-      throw error;
-    } finally {
-      // Cleanup OpenCV Mats
-      if (srcMat) srcMat.delete();
-      if (roiMat) roiMat.delete();
-      if (grayMat) grayMat.delete();
+      console.error(
+        `[Detection Worker] Failed to load classifier ${model.id}:`,
+        error
+      );
+      return null;
     }
   }
 
   /**
-   * Match template at a specific scale
+   * Fetch an image and read its pixels
    */
-  private matchAtScale(
-    grayMat: any,
-    scale: number
-  ): {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    confidence: number;
-  } | null {
-    let scaledTemplate: any = null;
-    let result: any = null;
-
-    try {
-      // Scale template
-      const scaledWidth = Math.round(this.template.cols * scale);
-      const scaledHeight = Math.round(this.template.rows * scale);
+  private async fetchImageData(url: string): Promise<ImageData> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load template: HTTP ${response.status}`);
+    }
 
-      // Skip if scaled template is larger than ROI
-      if (scaledWidth > grayMat.cols || scaledHeight > grayMat.rows) {
-        return null;
-      }
+    const blob = await response.blob();
+    const bitmap = await createImageBitmap(blob);
 
-      scaledTemplate = new cv.Mat();
-      cv.resize(
-        this.template,
-        scaledTemplate,
-        new cv.Size(scaledWidth, scaledHeight),
-        0,
-        0,
-        cv.INTER_LINEAR
-      );
+    // Convert to ImageData
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
 
-      // Perform template matching
-      result = new cv.Mat();
-      const method = cv.TM_CCOEFF_NORMED; // Normalized correlation coefficient
+    ctx.drawImage(bitmap, 0, 0);
+    const imageData = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+    bitmap.close();
 
-      cv.matchTemplate(grayMat, scaledTemplate, result, method);
+    return imageData;
+  }
 
-      // Find best match
-      const minMax = cv.minMaxLoc(result);
-      const confidence = minMax.maxVal;
-      const matchLoc = minMax.maxLoc;
+  /**
+   * List the loaded templates
+   */
+  getTemplates(): TemplateInfo[] {
+    return this.matcher?.getTemplates() ?? [];
+  }
 
-      return {
-        x: matchLoc.x,
-        y: matchLoc.y,
-        width: scaledWidth,
-        height: scaledHeight,
-        confidence,
-      };
-    } catch (error) {
-      console.error(
-        `[Detection Worker] Match at scale ${scale} failed:`,
-        error
-      );
-      return null;
-    } finally {
-      if (scaledTemplate) scaledTemplate.delete();
-      if (result) result.delete();
+  /**
+   * Detect badge in image using template matching over each search region
+   */
+  async detectBadge(
+    imageData: ImageData,
+    options: DetectionOptions = {}
+  ): Promise<DetectionOutput> {
+    if (!this.initialized || !this.matcher) {
+      throw new Error('Worker not initialized');
     }
+
+    const calibration = mergeCalibrationProfiles(
+      this.calibration,
+      options.calibration ?? []
+    );
+    return this.matcher.detect(imageData, { ...options, calibration }, () =>
+      this.getClassifier(options.classifierModel)
+    );
   }
 
   /**
@@ -330,10 +311,14 @@ class BadgeDetectionWorker implements DetectionAPI {
    * Cleanup resources
    */
   cleanup(): void {
-    if (this.template) {
-      this.template.delete();
-      this.template = null;
+    this.matcher?.dispose();
+    this.matcher = null;
+    this.calibration = [];
+    for (const classifier of Array.from(this.classifiers.values())) {
+      void classifier.then((loaded) => loaded?.dispose());
     }
+    this.classifiers.clear();
+    this.classifierRegistry = null;
     this.initialized = false;
     console.log('[Detection Worker] Cleaned up');
   }